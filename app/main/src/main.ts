@@ -154,3 +154,30 @@ ipcMain.handle('open-json-file', async () => {
 });
 
 
+
+// IPC: feature-frame captures; the renderer sends both encodings and the chosen extension
+// (binary .mvcap or .jsonl) picks the one written
+ipcMain.handle('save-capture-file', async (_evt, args: { defaultName: string; binary: Uint8Array; jsonl: string }) => {
+  const { defaultName, binary, jsonl } = args;
+  const res = await dialog.showSaveDialog({
+    defaultPath: defaultName,
+    filters: [
+      { name: 'Frame capture (binary)', extensions: ['mvcap'] },
+      { name: 'Frame capture (JSONL)', extensions: ['jsonl'] },
+    ],
+  });
+  if (res.canceled || !res.filePath) return null;
+  if (res.filePath.toLowerCase().endsWith('.jsonl')) await fs.writeFile(res.filePath, jsonl, 'utf-8');
+  else await fs.writeFile(res.filePath, Buffer.from(binary));
+  return res.filePath;
+});
+
+ipcMain.handle('open-capture-file', async () => {
+  const res = await dialog.showOpenDialog({
+    properties: ['openFile'],
+    filters: [{ name: 'Frame capture', extensions: ['mvcap', 'jsonl'] }],
+  });
+  if (res.canceled || res.filePaths.length === 0) return null;
+  const buf = await fs.readFile(res.filePaths[0]);
+  return new Uint8Array(buf.buffer, buf.byteOffset, buf.byteLength);
+});
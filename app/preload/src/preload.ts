@@ -20,6 +20,12 @@ contextBridge.exposeInMainWorld('ipcBridge', {
   openJsonFile: async (): Promise<string | null> => {
     return ipcRenderer.invoke('open-json-file');
   },
+  saveCaptureFile: async (defaultName: string, binary: Uint8Array, jsonl: string): Promise<string | null> => {
+    return ipcRenderer.invoke('save-capture-file', { defaultName, binary, jsonl });
+  },
+  openCaptureFile: async (): Promise<Uint8Array | null> => {
+    return ipcRenderer.invoke('open-capture-file');
+  },
 });
 
 export {};
@@ -0,0 +1,86 @@
+import type { AudioFeaturesFrame } from '../audio/AudioEngine';
+
+export type AutoGainOptions = {
+  target: number; // rms the analysis should settle at, 0..1
+  attack: number; // seconds to follow a rise in loudness
+  release: number; // seconds to follow a drop in loudness
+  minGain: number;
+  maxGain: number;
+  gate: number; // rms below this is treated as silence and does not move the estimate
+};
+
+export const DEFAULT_AUTO_GAIN: AutoGainOptions = {
+  target: 0.3,
+  attack: 0.4,
+  release: 4,
+  minGain: 0.25,
+  maxGain: 6,
+  gate: 0.02,
+};
+
+/**
+ * Analysis-side automatic gain: tracks a gated, asymmetric-smoothed loudness estimate in dB
+ * (in the spirit of LUFS gating) and rescales rms and band values toward a stable range.
+ * Only feature values change; the audible signal is never touched.
+ */
+export class AutoGain {
+  private options: AutoGainOptions;
+  private levelDb: number | null = null;
+  private lastTime: number | null = null;
+
+  constructor(options: Partial<AutoGainOptions> = {}) {
+    this.options = { ...DEFAULT_AUTO_GAIN, ...options };
+  }
+
+  configure(options: Partial<AutoGainOptions>) {
+    this.options = { ...this.options, ...options };
+  }
+
+  getOptions(): AutoGainOptions {
+    return this.options;
+  }
+
+  // Current linear gain applied to features
+  getGain(): number {
+    const { target, minGain, maxGain } = this.options;
+    if (this.levelDb == null) return 1;
+    const gain = Math.pow(10, (toDb(target) - this.levelDb) / 20);
+    return Math.max(minGain, Math.min(maxGain, gain));
+  }
+
+  /**
+   * @param nowSec monotonic clock (playback position can jump on seek, so it is not used)
+   */
+  process(frame: AudioFeaturesFrame, nowSec: number): AudioFeaturesFrame {
+    const dt = this.lastTime == null ? 0 : Math.max(0, Math.min(0.5, nowSec - this.lastTime));
+    this.lastTime = nowSec;
+    const { attack, release, gate } = this.options;
+    if (frame.rms >= gate) {
+      const db = toDb(frame.rms);
+      if (this.levelDb == null) {
+        this.levelDb = db;
+      } else {
+        const tau = db > this.levelDb ? attack : release;
+        this.levelDb += (db - this.levelDb) * (1 - Math.exp(-dt / Math.max(1e-3, tau)));
+      }
+    }
+    const gain = this.getGain();
+    const scale = (v: number) => Math.min(1, v * gain);
+    return {
+      ...frame,
+      rms: scale(frame.rms),
+      bands: { low: scale(frame.bands.low), mid: scale(frame.bands.mid), high: scale(frame.bands.high) },
+      bandLevels: frame.bandLevels?.map(scale),
+      loudness: { gain, levelDb: this.levelDb ?? -Infinity, rawRms: frame.rms },
+    };
+  }
+
+  reset() {
+    this.levelDb = null;
+    this.lastTime = null;
+  }
+}
+
+function toDb(v: number): number {
+  return 20 * Math.log10(Math.max(1e-6, v));
+}
@@ -0,0 +1,121 @@
+export type BandScale = 'log' | 'mel' | 'bark';
+
+export type BandLayout = {
+  scale: BandScale;
+  count: number; // number of bands, e.g. 8, 16, 32
+};
+
+export const DEFAULT_BAND_LAYOUT: BandLayout = { scale: 'log', count: 16 };
+export const BAND_COUNTS = [8, 16, 24, 32, 64];
+
+// Crossovers for the coarse low/mid/high summary
+export const LOW_MID_CROSSOVER_HZ = 250;
+export const MID_HIGH_CROSSOVER_HZ = 4000;
+
+const MIN_HZ = 30;
+const MAX_HZ = 16000;
+
+export function hzToScale(hz: number, scale: BandScale): number {
+  switch (scale) {
+    case 'mel':
+      return 2595 * Math.log10(1 + hz / 700);
+    case 'bark':
+      // Traunmüller's approximation
+      return (26.81 * hz) / (1960 + hz) - 0.53;
+    default:
+      return Math.log2(hz);
+  }
+}
+
+export function scaleToHz(value: number, scale: BandScale): number {
+  switch (scale) {
+    case 'mel':
+      return 700 * (Math.pow(10, value / 2595) - 1);
+    case 'bark':
+      return (1960 * (value + 0.53)) / (26.28 - value);
+    default:
+      return Math.pow(2, value);
+  }
+}
+
+// Validates untrusted input (preset files); null when it is not a usable layout
+export function parseBandLayout(value: unknown): BandLayout | null {
+  const v = value as Partial<BandLayout> | null;
+  if (!v || typeof v !== 'object') return null;
+  if (v.scale !== 'log' && v.scale !== 'mel' && v.scale !== 'bark') return null;
+  if (typeof v.count !== 'number' || !Number.isInteger(v.count) || v.count < 3 || v.count > 128) return null;
+  return { scale: v.scale, count: v.count };
+}
+
+type BandBins = { from: number; to: number; center: number }; // inclusive bin range; center in bins
+
+/**
+ * Groups linear FFT bins into perceptually spaced bands. Bands narrower than a bin
+ * (low end of a small FFT) interpolate between the neighbouring bins instead of going empty.
+ */
+export class BandModel {
+  readonly edges: number[]; // count + 1 band edges in Hz, ascending
+  private bins: BandBins[];
+  private summaryGroup: number[]; // 0 = low, 1 = mid, 2 = high, per band
+
+  constructor(readonly layout: BandLayout, readonly binCount: number, readonly sampleRate: number) {
+    const nyquist = sampleRate / 2;
+    const binHz = nyquist / binCount;
+    const lo = hzToScale(MIN_HZ, layout.scale);
+    const hi = hzToScale(Math.min(MAX_HZ, nyquist), layout.scale);
+    this.edges = [];
+    for (let i = 0; i <= layout.count; i++) this.edges.push(scaleToHz(lo + ((hi - lo) * i) / layout.count, layout.scale));
+    this.bins = [];
+    this.summaryGroup = [];
+    for (let b = 0; b < layout.count; b++) {
+      const f0 = this.edges[b];
+      const f1 = this.edges[b + 1];
+      const centerHz = Math.sqrt(f0 * f1);
+      this.bins.push({
+        from: Math.max(0, Math.ceil(f0 / binHz)),
+        to: Math.min(binCount - 1, Math.ceil(f1 / binHz) - 1),
+        center: Math.min(binCount - 1, centerHz / binHz),
+      });
+      this.summaryGroup.push(centerHz < LOW_MID_CROSSOVER_HZ ? 0 : centerHz < MID_HIGH_CROSSOVER_HZ ? 1 : 2);
+    }
+  }
+
+  get count(): number {
+    return this.layout.count;
+  }
+
+  // Band levels 0..1 from a byte spectrum (AnalyserNode.getByteFrequencyData layout)
+  compute(freq: Uint8Array, out: number[] = new Array(this.layout.count)): number[] {
+    for (let b = 0; b < this.bins.length; b++) {
+      const { from, to, center } = this.bins[b];
+      if (to >= from) {
+        let sum = 0;
+        for (let i = from; i <= to; i++) sum += freq[i];
+        out[b] = sum / (to - from + 1) / 255;
+      } else {
+        const i0 = Math.floor(center);
+        const i1 = Math.min(freq.length - 1, i0 + 1);
+        const t = center - i0;
+        out[b] = (freq[i0] * (1 - t) + freq[i1] * t) / 255;
+      }
+    }
+    return out;
+  }
+
+  // Coarse low/mid/high: mean of the bands whose centre falls on each side of the crossovers
+  summarize(levels: number[]): { low: number; mid: number; high: number } {
+    const sums = [0, 0, 0];
+    const counts = [0, 0, 0];
+    for (let b = 0; b < levels.length; b++) {
+      const g = this.summaryGroup[b];
+      sums[g] += levels[b];
+      counts[g]++;
+    }
+    const avg = (g: number) => (counts[g] > 0 ? sums[g] / counts[g] : 0);
+    return { low: avg(0), mid: avg(1), high: avg(2) };
+  }
+}
+
+export function sameBandLayout(a: BandLayout, b: BandLayout): boolean {
+  return a.scale === b.scale && a.count === b.count;
+}
@@ -0,0 +1,52 @@
+// Energy-threshold beat detector: instant energy vs. rolling mean + k·std
+export class BeatDetector {
+  private energyHistory: number[] = [];
+  private maxEnergyHistory = 43; // ~0.7s at ~60fps
+  private lastBeatAt = -Infinity;
+  private sensitivity = 0.6; // 0..1, higher = more sensitive
+  private minInterval = 0.12; // seconds
+
+  constructor(maxEnergyHistory = 43) {
+    this.maxEnergyHistory = maxEnergyHistory;
+  }
+
+  setSensitivity(s: number) {
+    this.sensitivity = Math.max(0, Math.min(1, s));
+  }
+
+  detect(energy: number, nowSec: number): boolean {
+    // Maintain rolling statistics
+    this.energyHistory.push(energy);
+    if (this.energyHistory.length > this.maxEnergyHistory) this.energyHistory.shift();
+    if (this.energyHistory.length < 8) return false;
+
+    const mean = averageArray(this.energyHistory);
+    let variance = 0;
+    for (const e of this.energyHistory) {
+      const d = e - mean;
+      variance += d * d;
+    }
+    variance /= this.energyHistory.length;
+    const std = Math.sqrt(Math.max(variance, 1e-8));
+
+    // Sensitivity mapping: higher sensitivity → lower threshold multiplier
+    const k = 2.0 - 1.5 * this.sensitivity; // 0.5..2.0
+    const threshold = mean + k * std;
+    const canTrigger = nowSec - this.lastBeatAt > this.minInterval;
+    const isBeat = canTrigger && energy > threshold;
+    if (isBeat) this.lastBeatAt = nowSec;
+    return isBeat;
+  }
+
+  reset() {
+    this.energyHistory = [];
+    this.lastBeatAt = -Infinity;
+  }
+}
+
+function averageArray(arr: number[]): number {
+  if (arr.length === 0) return 0;
+  let s = 0;
+  for (const v of arr) s += v;
+  return s / arr.length;
+}
@@ -0,0 +1,120 @@
+export type DrumKind = 'kick' | 'snare' | 'hat';
+
+// Onset strength per drum for this frame, 0..1; 0 = no onset
+export type DrumOnsets = Record<DrumKind, number>;
+
+type BandSpec = {
+  kind: DrumKind;
+  ranges: [number, number][]; // Hz; flux is averaged over all ranges
+  minInterval: number; // seconds between onsets of this drum
+};
+
+// Kick: sub/low thump. Snare: body plus the noisy crack. Hat: bright top end only.
+const BANDS: BandSpec[] = [
+  { kind: 'kick', ranges: [[40, 130]], minInterval: 0.1 },
+  { kind: 'snare', ranges: [[160, 350], [1500, 5000]], minInterval: 0.1 },
+  { kind: 'hat', ranges: [[7000, 16000]], minInterval: 0.05 },
+];
+
+const STATS_TIME_CONSTANT = 0.6; // seconds; adaptive threshold memory
+const MIN_FLUX = 0.01; // ignore jitter of a couple of byte steps
+
+class BandOnset {
+  private mean = 0;
+  private variance = 0;
+  private lastTime: number | null = null;
+  private startTime: number | null = null;
+  private lastOnsetAt = -Infinity;
+  private bins: [number, number][] = [];
+
+  constructor(readonly spec: BandSpec) {}
+
+  setLayout(binCount: number, sampleRate: number) {
+    const binHz = sampleRate / 2 / binCount;
+    this.bins = this.spec.ranges
+      .map(([lo, hi]): [number, number] => [Math.max(0, Math.round(lo / binHz)), Math.min(binCount, Math.round(hi / binHz))])
+      .filter(([from, to]) => to > from);
+  }
+
+  flux(freq: Uint8Array, prev: Uint8Array): number {
+    let sum = 0;
+    let n = 0;
+    for (const [from, to] of this.bins) {
+      for (let i = from; i < to; i++) {
+        const d = freq[i] - prev[i];
+        if (d > 0) sum += d;
+        n++;
+      }
+    }
+    return n > 0 ? sum / n / 255 : 0;
+  }
+
+  // Flux vs. an exponentially weighted mean + k·std; rate independent so rAF and hop callers agree
+  detect(flux: number, time: number, k: number): number {
+    const dt = this.lastTime == null ? 0 : Math.max(0, time - this.lastTime);
+    this.lastTime = time;
+    this.startTime ??= time;
+    const threshold = this.mean + k * Math.sqrt(this.variance) + MIN_FLUX;
+    // Let the statistics settle before reporting anything
+    const warm = time - this.startTime >= STATS_TIME_CONSTANT / 2;
+    let strength = 0;
+    if (warm && flux > threshold && time - this.lastOnsetAt >= this.spec.minInterval) {
+      strength = Math.min(1, (flux - threshold) / (threshold + 1e-6));
+      this.lastOnsetAt = time;
+    }
+    const alpha = dt > 0 ? 1 - Math.exp(-dt / STATS_TIME_CONSTANT) : 0.5;
+    const d = flux - this.mean;
+    this.mean += alpha * d;
+    this.variance = (1 - alpha) * (this.variance + alpha * d * d);
+    return strength;
+  }
+
+  reset() {
+    this.mean = 0;
+    this.variance = 0;
+    this.lastTime = null;
+    this.startTime = null;
+    this.lastOnsetAt = -Infinity;
+  }
+}
+
+/**
+ * Band-limited spectral-flux onset detectors for kick, snare and hi-hat, working on the
+ * byte spectrum (AnalyserNode or the offline equivalent).
+ */
+export class DrumOnsetDetector {
+  private bands = BANDS.map((spec) => new BandOnset(spec));
+  private prev: Uint8Array | null = null;
+  private sampleRate = 0;
+  private sensitivity = 0.6;
+
+  setSensitivity(s: number) {
+    this.sensitivity = Math.max(0, Math.min(1, s));
+  }
+
+  detect(freq: Uint8Array, sampleRate: number, time: number): DrumOnsets {
+    if (!this.prev || this.prev.length !== freq.length || this.sampleRate !== sampleRate) {
+      this.prev = new Uint8Array(freq);
+      this.sampleRate = sampleRate;
+      for (const band of this.bands) band.setLayout(freq.length, sampleRate);
+      return { kick: 0, snare: 0, hat: 0 };
+    }
+    const k = 2.5 - 1.5 * this.sensitivity; // 1.0..2.5
+    const onsets: DrumOnsets = { kick: 0, snare: 0, hat: 0 };
+    for (const band of this.bands) onsets[band.spec.kind] = band.detect(band.flux(freq, this.prev), time, k);
+    this.prev.set(freq);
+    // A snare's broadband crack also lights up the top band; only keep a simultaneous hat if it is clearly stronger
+    if (onsets.snare > 0 && onsets.hat < onsets.snare * 2) onsets.hat = 0;
+    return onsets;
+  }
+
+  reset() {
+    this.prev = null;
+    for (const band of this.bands) band.reset();
+  }
+}
+
+// Strongest onset per drum across several frames (a render frame can span more than one analysis hop)
+export function mergeOnsets(a: DrumOnsets, b: DrumOnsets): DrumOnsets {
+  return { kick: Math.max(a.kick, b.kick), snare: Math.max(a.snare, b.snare), hat: Math.max(a.hat, b.hat) };
+}
@@ -0,0 +1,195 @@
+export type KeyMode = 'major' | 'minor';
+
+export type HarmonyInfo = {
+  key: number; // tonic pitch class, 0 = C
+  mode: KeyMode;
+  keyConfidence: number; // 0..1
+  chordRoot: number; // pitch class
+  chordQuality: KeyMode; // triad quality
+  chordConfidence: number; // 0..1, near 0 for noise or unpitched material
+};
+
+export type HarmonyAnalyzerOptions = {
+  keySeconds: number; // chroma averaging window for the key
+  chordSeconds: number; // chroma averaging window for the chord
+  holdSeconds: number; // a new key must win this long before it replaces the current one
+  gate: number; // frame rms below this is treated as silence
+};
+
+export const PITCH_NAMES = ['C', 'C#', 'D', 'D#', 'E', 'F', 'F#', 'G', 'G#', 'A', 'A#', 'B'];
+
+// Krumhansl-Kessler key profiles, tonic first
+const MAJOR_PROFILE = [6.35, 2.23, 3.48, 2.33, 4.38, 4.09, 2.52, 5.19, 2.39, 3.66, 2.29, 2.88];
+const MINOR_PROFILE = [6.33, 2.68, 3.52, 5.38, 2.6, 3.53, 2.54, 4.75, 3.98, 2.69, 3.34, 3.17];
+// Below this correlation margin over the runner-up the key reads as ambiguous
+const KEY_MARGIN = 0.1;
+const MIN_KEY_CONFIDENCE = 0.2;
+// Confidence given to a key taken from file tags until the audio confirms it
+const SEED_CONFIDENCE = 0.5;
+
+/**
+ * Key and chord estimation from 12-bin chroma. The key correlates a long chroma average
+ * against rotated major/minor profiles and only changes after the new key has held for a
+ * while; the chord matches a short average against major/minor triad templates.
+ */
+export class HarmonyAnalyzer {
+  private options: HarmonyAnalyzerOptions;
+  private keyChroma = new Float64Array(12);
+  private chordChroma = new Float64Array(12);
+  private lastTime: number | null = null;
+  private current: { key: number; mode: KeyMode; confidence: number } | null = null;
+  private candidate: { key: number; mode: KeyMode; since: number } | null = null;
+  private chord = { root: 0, quality: 'major' as KeyMode, confidence: 0 };
+
+  constructor(options: Partial<HarmonyAnalyzerOptions> = {}) {
+    this.options = { keySeconds: 8, chordSeconds: 0.3, holdSeconds: 3, gate: 0.01, ...options };
+  }
+
+  /**
+   * @param chroma 12 pitch-class energies, C..B (any scale; only the shape matters)
+   * @param time seconds on the producing clock
+   * @param rms frame level, used to skip silence
+   */
+  update(chroma: ArrayLike<number>, time: number, rms: number): HarmonyInfo | null {
+    const dt = this.lastTime == null ? 0 : Math.max(0, Math.min(0.5, time - this.lastTime));
+    this.lastTime = time;
+    let sum = 0;
+    for (let i = 0; i < 12; i++) sum += Math.max(0, chroma[i] ?? 0);
+    if (rms < this.options.gate || sum <= 0) return this.info();
+
+    // First pitched frame seeds both averages so the estimate is usable right away
+    const first = this.keyChroma.every((v) => v === 0);
+    const keyAlpha = first ? 1 : 1 - Math.exp(-dt / this.options.keySeconds);
+    const chordAlpha = first ? 1 : 1 - Math.exp(-dt / this.options.chordSeconds);
+    for (let i = 0; i < 12; i++) {
+      const v = Math.max(0, chroma[i] ?? 0) / sum;
+      this.keyChroma[i] += (v - this.keyChroma[i]) * keyAlpha;
+      this.chordChroma[i] += (v - this.chordChroma[i]) * chordAlpha;
+    }
+    this.updateKey(time);
+    this.chord = estimateChord(this.chordChroma);
+    return this.info();
+  }
+
+  // Start from a known key (e.g. a key tag); a different key in the audio still takes over after holdSeconds
+  seed(key: number, mode: KeyMode) {
+    this.current = { key: ((key % 12) + 12) % 12, mode, confidence: SEED_CONFIDENCE };
+    this.candidate = null;
+  }
+
+  info(): HarmonyInfo | null {
+    if (!this.current) return null;
+    return {
+      key: this.current.key,
+      mode: this.current.mode,
+      keyConfidence: this.current.confidence,
+      chordRoot: this.chord.root,
+      chordQuality: this.chord.quality,
+      chordConfidence: this.chord.confidence,
+    };
+  }
+
+  reset() {
+    this.keyChroma.fill(0);
+    this.chordChroma.fill(0);
+    this.lastTime = null;
+    this.current = null;
+    this.candidate = null;
+    this.chord = { root: 0, quality: 'major', confidence: 0 };
+  }
+
+  private updateKey(time: number) {
+    const best = estimateKey(this.keyChroma);
+    if (best.confidence < MIN_KEY_CONFIDENCE) {
+      this.candidate = null;
+      return;
+    }
+    const cur = this.current;
+    if (!cur || (cur.key === best.key && cur.mode === best.mode)) {
+      this.current = best;
+      this.candidate = null;
+      return;
+    }
+    // Hysteresis: a different key has to stay on top for holdSeconds
+    if (!this.candidate || this.candidate.key !== best.key || this.candidate.mode !== best.mode) {
+      this.candidate = { key: best.key, mode: best.mode, since: time };
+    } else if (time - this.candidate.since >= this.options.holdSeconds) {
+      this.current = best;
+      this.candidate = null;
+    }
+  }
+}
+
+export function estimateKey(chroma: ArrayLike<number>): { key: number; mode: KeyMode; confidence: number } {
+  let best = { key: 0, mode: 'major' as KeyMode, r: -Infinity };
+  let second = -Infinity;
+  for (const mode of ['major', 'minor'] as KeyMode[]) {
+    const profile = mode === 'major' ? MAJOR_PROFILE : MINOR_PROFILE;
+    for (let key = 0; key < 12; key++) {
+      const r = correlate(chroma, profile, key);
+      if (r > best.r) {
+        second = best.r;
+        best = { key, mode, r };
+      } else if (r > second) {
+        second = r;
+      }
+    }
+  }
+  const margin = Math.min(1, (best.r - second) / KEY_MARGIN);
+  return { key: best.key, mode: best.mode, confidence: clamp01(best.r) * clamp01(margin) };
+}
+
+export function estimateChord(chroma: ArrayLike<number>): { root: number; quality: KeyMode; confidence: number } {
+  let norm = 0;
+  for (let i = 0; i < 12; i++) norm += chroma[i] * chroma[i];
+  norm = Math.sqrt(norm);
+  let best = { root: 0, quality: 'major' as KeyMode, cos: 0 };
+  if (norm <= 0) return { root: 0, quality: 'major', confidence: 0 };
+  for (let root = 0; root < 12; root++) {
+    for (const quality of ['major', 'minor'] as KeyMode[]) {
+      const third = quality === 'major' ? 4 : 3;
+      const sum = chroma[root] + chroma[(root + third) % 12] + chroma[(root + 7) % 12];
+      const cos = sum / (norm * Math.sqrt(3));
+      if (cos > best.cos) best = { root, quality, cos };
+    }
+  }
+  // Flat chroma scores 0.5 against any triad, a clean triad 1
+  return { root: best.root, quality: best.quality, confidence: clamp01((best.cos - 0.5) / 0.5) };
+}
+
+// e.g. "A minor"
+export function keyName(key: number, mode: KeyMode): string {
+  return `${PITCH_NAMES[((key % 12) + 12) % 12]} ${mode}`;
+}
+
+// e.g. "F#m"
+export function chordName(root: number, quality: KeyMode): string {
+  return PITCH_NAMES[((root % 12) + 12) % 12] + (quality === 'minor' ? 'm' : '');
+}
+
+// Pearson correlation of chroma against a profile rotated to `key`
+function correlate(chroma: ArrayLike<number>, profile: number[], key: number): number {
+  let meanC = 0;
+  let meanP = 0;
+  for (let i = 0; i < 12; i++) {
+    meanC += chroma[i];
+    meanP += profile[i];
+  }
+  meanC /= 12;
+  meanP /= 12;
+  let num = 0;
+  let dc = 0;
+  let dp = 0;
+  for (let i = 0; i < 12; i++) {
+    const c = chroma[(i + key) % 12] - meanC;
+    const p = profile[i] - meanP;
+    num += c * p;
+    dc += c * c;
+    dp += p * p;
+  }
+  return dc > 0 && dp > 0 ? num / Math.sqrt(dc * dp) : 0;
+}
+
+function clamp01(v: number): number {
+  return Math.max(0, Math.min(1, v));
+}
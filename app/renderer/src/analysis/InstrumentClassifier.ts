@@ -1,31 +1,231 @@
-export type Instrument = 'none' | 'drums' | 'bass' | 'guitar';
+import type { DrumOnsets } from './DrumOnsetDetector';
 
-export class InstrumentClassifier {
-  private holdSeconds = 5;
-  private current: Instrument = 'none';
-  private lastSwitchAt = 0;
+export type Instrument = 'drums' | 'bass' | 'guitar' | 'vocals' | 'keys' | 'strings' | 'brass' | 'pad';
 
-  constructor(holdSeconds = 5) {
-    this.holdSeconds = holdSeconds;
+export const INSTRUMENTS: Instrument[] = ['drums', 'bass', 'guitar', 'vocals', 'keys', 'strings', 'brass', 'pad'];
+
+// Confidence per instrument, 0..1; several can be high at once
+export type InstrumentActivations = Record<Instrument, number>;
+
+export type InstrumentActivation = { instrument: Instrument; confidence: number };
+
+// One rendered frame of analysis, as seen by the classifiers
+export type FeatureSample = {
+  time: number; // seconds
+  rms: number;
+  low: number;
+  mid: number;
+  high: number;
+  beat: boolean;
+  onsets?: DrumOnsets; // hits since the previous sample
+  bandLevels?: number[]; // per-band levels, 0..1, low to high
+  mfcc?: number[];
+  centroid?: number; // Hz
+  flatness?: number; // 0 (tonal) .. 1 (noise)
+  chroma?: number[]; // 12 pitch classes, max-normalized
+};
+
+/**
+ * Turns a window of recent feature samples (oldest first) into per-instrument activations.
+ * Implementations may answer asynchronously (e.g. a model running in a worker).
+ */
+export type InstrumentClassifier = {
+  readonly kind: ClassifierKind;
+  classify(window: FeatureSample[]): InstrumentActivations | Promise<InstrumentActivations>;
+  dispose?(): void;
+};
+
+export type ClassifierKind = 'heuristic' | 'onnx';
+
+const STORAGE_KEY = 'instrumentClassifier';
+
+export function loadClassifierKind(): ClassifierKind {
+  try {
+    return localStorage.getItem(STORAGE_KEY) === 'onnx' ? 'onnx' : 'heuristic';
+  } catch {
+    return 'heuristic';
   }
+}
 
-  update(timeSec: number, rms: number, low: number, mid: number, high: number, beat: boolean): Instrument {
-    const proposed = this.classifyInstant(rms, low, mid, high, beat);
-    if (proposed !== this.current && timeSec - this.lastSwitchAt >= this.holdSeconds) {
-      this.current = proposed;
-      this.lastSwitchAt = timeSec;
-    }
-    return this.current;
+export function saveClassifierKind(kind: ClassifierKind) {
+  try {
+    localStorage.setItem(STORAGE_KEY, kind);
+  } catch {}
+}
+
+export function silence(): InstrumentActivations {
+  return { drums: 0, bass: 0, guitar: 0, vocals: 0, keys: 0, strings: 0, brass: 0, pad: 0 };
+}
+
+// Same instruments active, regardless of confidence order
+export function sameInstruments(a: InstrumentActivation[], b: InstrumentActivation[]): boolean {
+  return a.length === b.length && a.every((x) => b.some((y) => y.instrument === x.instrument));
+}
+
+const clamp01 = (x: number) => Math.max(0, Math.min(1, x));
+// 0 below lo, 1 above hi
+const ramp = (x: number, lo: number, hi: number) => clamp01((x - lo) / (hi - lo));
+// 1 inside [lo, hi], fading to 0 over `soft` on either side
+const within = (x: number, lo: number, hi: number, soft: number) => Math.min(ramp(x, lo - soft, lo), 1 - ramp(x, hi, hi + soft));
+
+// Seconds of samples used for the sustain cue
+const SUSTAIN_SECONDS = 1;
+
+/**
+ * Band-energy and timbre rules; fast, but easily fooled by dense mixes. Drums, bass and guitar
+ * need only band levels. Vocals, keys, strings, brass and pad also need the worklet's spectral
+ * features: centroid (brightness), flatness (tonal vs noisy) and chroma peakiness (harmonicity).
+ */
+export class HeuristicClassifier implements InstrumentClassifier {
+  readonly kind = 'heuristic';
+
+  classify(window: FeatureSample[]): InstrumentActivations {
+    const out = silence();
+    const s = window[window.length - 1];
+    if (!s || s.rms < 0.02) return out;
+    // Prefer real drum onsets when available; the beat+highs guess is the fallback
+    const hit = s.onsets ? Math.max(s.onsets.kick, s.onsets.snare) : s.beat && s.high > 0.5 ? 0.7 : 0;
+    out.drums = hit > 0 ? (0.6 + 0.4 * hit) * (1 - ramp(s.mid, 0.6, 0.8)) : 0;
+    out.bass = ramp(s.low, 0.3, 0.6) * (1 - 0.5 * ramp(s.mid, 0.35, 0.7));
+    out.guitar = ramp(s.mid, 0.35, 0.6) * (1 - ramp(s.high, 0.5, 0.7));
+    if (s.centroid === undefined || s.flatness === undefined || !s.chroma?.length) return out;
+
+    const tonal = 1 - s.flatness;
+    const harmonic = 1 - s.chroma.reduce((a, b) => a + b, 0) / s.chroma.length; // one dominant pitch class -> near 1
+    const steady = steadiness(window, s.time);
+    const voiced = tonal * ramp(harmonic, 0.3, 0.6);
+    out.vocals = voiced * within(s.centroid, 1000, 3000, 600) * ramp(s.mid, 0.3, 0.55) * (1 - 0.4 * steady);
+    out.keys = voiced * within(s.centroid, 400, 2000, 400) * ramp(s.mid, 0.25, 0.5) * (1 - steady);
+    out.strings = voiced * within(s.centroid, 600, 2500, 500) * ramp(s.mid, 0.3, 0.5) * steady;
+    out.brass = voiced * within(s.centroid, 1500, 4000, 800) * ramp(s.high, 0.35, 0.6);
+    out.pad = tonal * within(s.centroid, 200, 1200, 400) * steady * (1 - hit);
+    // Guitar is harmonic too; noisy mids are more likely distortion or cymbals than strummed chords
+    out.guitar *= 0.5 + 0.5 * tonal;
+    return out;
   }
+}
 
-  private classifyInstant(rms: number, low: number, mid: number, high: number, beat: boolean): Instrument {
-    // Simple heuristics; tune thresholds as needed
-    if (beat && high > 0.5 && mid < 0.6) return 'drums';
-    if (low > 0.45 && mid < 0.35) return 'bass';
-    if (mid > 0.5 && high < 0.5) return 'guitar';
-    if (rms < 0.08) return 'none';
-    return 'none';
+// 1 when loudness has barely moved over the last second (pads, bowed strings), 0 when it keeps jumping
+function steadiness(window: FeatureSample[], now: number): number {
+  let n = 0;
+  let sum = 0;
+  let sumSq = 0;
+  for (let i = window.length - 1; i >= 0 && now - window[i].time <= SUSTAIN_SECONDS; i--) {
+    n++;
+    sum += window[i].rms;
+    sumSq += window[i].rms * window[i].rms;
   }
+  if (n < 4 || sum <= 0) return 0;
+  const mean = sum / n;
+  const cv = Math.sqrt(Math.max(0, sumSq / n - mean * mean)) / mean;
+  return 1 - ramp(cv, 0.1, 0.5);
 }
 
+export type InstrumentTrackerOptions = {
+  holdSeconds: number; // minimum time an instrument stays on or off after a change
+  windowSeconds: number; // samples handed to the classifier
+  decaySeconds: number; // confidence falls by 1/e over this long without support, bridging sparse hits
+  onThreshold: number;
+  offThreshold: number;
+};
+
+const DEFAULT_TRACKER: InstrumentTrackerOptions = { holdSeconds: 2, windowSeconds: 3, decaySeconds: 1, onThreshold: 0.5, offThreshold: 0.3 };
 
+/**
+ * Keeps a window of samples, asks the classifier about it and turns the answers into a set of
+ * active instruments: confidences rise immediately and decay slowly, and each instrument switches
+ * with hysteresis and a hold time. Asynchronous classifiers get one request in flight; a failing
+ * one is replaced by the heuristics.
+ */
+export class InstrumentTracker {
+  private samples: FeatureSample[] = [];
+  private opts: InstrumentTrackerOptions;
+  private levels = silence();
+  private active = new Set<Instrument>();
+  private changedAt: Partial<Record<Instrument, number>> = {};
+  private lastTime: number | null = null;
+  private pending = false;
+  private generation = 0; // bumped on classifier change so stale answers are dropped
+  private latest: InstrumentActivations | null = null;
+
+  constructor(private classifier: InstrumentClassifier = new HeuristicClassifier(), options: Partial<InstrumentTrackerOptions> = {}) {
+    this.opts = { ...DEFAULT_TRACKER, ...options };
+  }
+
+  getClassifier(): InstrumentClassifier {
+    return this.classifier;
+  }
+
+  setClassifier(classifier: InstrumentClassifier) {
+    if (classifier === this.classifier) return;
+    this.classifier.dispose?.();
+    this.classifier = classifier;
+    this.generation++;
+    this.pending = false;
+    this.latest = null;
+  }
+
+  // Smoothed confidence of every instrument, active or not; updated in place
+  confidences(): Readonly<InstrumentActivations> {
+    return this.levels;
+  }
+
+  // Active instruments, most confident first
+  update(sample: FeatureSample): InstrumentActivation[] {
+    this.samples.push(sample);
+    while (this.samples.length > 1 && sample.time - this.samples[0].time > this.opts.windowSeconds) this.samples.shift();
+    if (!this.pending) this.request();
+
+    const dt = this.lastTime === null ? 0 : Math.max(0, sample.time - this.lastTime);
+    this.lastTime = sample.time;
+    const decay = Math.exp(-dt / this.opts.decaySeconds);
+    for (const inst of INSTRUMENTS) {
+      this.levels[inst] = Math.max(this.latest?.[inst] ?? 0, this.levels[inst] * decay);
+      const on = this.active.has(inst);
+      const want = on ? this.levels[inst] >= this.opts.offThreshold : this.levels[inst] >= this.opts.onThreshold;
+      if (want === on || sample.time - (this.changedAt[inst] ?? -Infinity) < this.opts.holdSeconds) continue;
+      if (want) this.active.add(inst);
+      else this.active.delete(inst);
+      this.changedAt[inst] = sample.time;
+    }
+    // An answer counts once; async classifiers refresh it when the next one arrives
+    this.latest = null;
+    return [...this.active].map((instrument) => ({ instrument, confidence: this.levels[instrument] })).sort((a, b) => b.confidence - a.confidence);
+  }
+
+  reset() {
+    this.samples = [];
+    this.latest = null;
+    this.levels = silence();
+    this.active.clear();
+    this.changedAt = {};
+    this.lastTime = null;
+  }
+
+  dispose() {
+    this.classifier.dispose?.();
+    this.generation++;
+  }
+
+  private request() {
+    const result = this.classifier.classify(this.samples);
+    if (!(result instanceof Promise)) {
+      this.latest = result;
+      return;
+    }
+    const generation = this.generation;
+    this.pending = true;
+    result.then(
+      (activations) => {
+        if (generation !== this.generation) return;
+        this.latest = activations;
+        this.pending = false;
+      },
+      (err) => {
+        if (generation !== this.generation) return;
+        console.warn('Instrument classifier failed; using heuristics', err);
+        this.setClassifier(new HeuristicClassifier());
+      },
+    );
+  }
+}
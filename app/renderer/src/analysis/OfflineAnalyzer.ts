@@ -0,0 +1,217 @@
+import type { AudioFeaturesFrame } from '../audio/AudioEngine';
+import { BandLayout, BandModel, DEFAULT_BAND_LAYOUT } from './BandModel';
+import { DrumOnsetDetector, DrumOnsets, mergeOnsets } from './DrumOnsetDetector';
+import { computeRmsFromFreq, computeSpectralFlux } from './featureMath';
+import { HarmonyAnalyzer, KeyMode } from './HarmonyAnalyzer';
+import { analyzeStructure, SongStructure } from './StructureAnalyzer';
+import { DEFAULT_FRAME_SIZE, DEFAULT_HOP_SIZE, meydaExtractor, SpectralExtractor } from './spectralFeatures';
+import { TempoTracker } from './TempoTracker';
+
+export type TimelineStats = {
+  duration: number; // seconds
+  peakRms: number;
+  meanRms: number;
+  loudnessDb: number; // integrated mean-square loudness, dBFS (LUFS-like, unweighted)
+  peakSample: number;
+  beats: number[]; // beat times in seconds, ascending
+  bpm: number; // median tempo over confidently tracked frames, 0 if none
+};
+
+export type FeatureTimeline = {
+  sampleRate: number;
+  frameSize: number;
+  hopSize: number;
+  hopSeconds: number;
+  bandLayout: BandLayout; // layout of frames[i].bandLevels
+  frames: AudioFeaturesFrame[]; // frames[i].time === i * hopSeconds
+  stats: TimelineStats;
+  structure: SongStructure; // sections with boundaries snapped to beats
+};
+
+export type OfflineAnalysisOptions = {
+  frameSize?: number;
+  hopSize?: number;
+  beatSensitivity?: number;
+  bandLayout?: BandLayout;
+  // Known tempo and key (from file tags) to start the trackers from
+  seedBpm?: number;
+  seedKey?: { key: number; mode: KeyMode };
+  onProgress?: (fraction: number) => void;
+};
+
+// Mirror the live AnalyserNode settings so offline frames look like live ones
+const ANALYSER_SMOOTHING = 0.85;
+const ANALYSER_MIN_DB = -100;
+const ANALYSER_MAX_DB = -30;
+// Frames analysed between yields to the event loop
+const FRAMES_PER_CHUNK = 256;
+
+/**
+ * Render a decoded buffer through an OfflineAudioContext (mono downmix at the buffer's rate)
+ * and analyse it into a time-indexed feature timeline.
+ */
+export async function analyzeAudioBuffer(buffer: AudioBuffer, options: OfflineAnalysisOptions = {}): Promise<FeatureTimeline> {
+  const offline = new OfflineAudioContext(1, buffer.length, buffer.sampleRate);
+  const source = offline.createBufferSource();
+  source.buffer = buffer;
+  source.connect(offline.destination);
+  source.start();
+  const rendered = await offline.startRendering();
+  return analyzeSamples(rendered.getChannelData(0), rendered.sampleRate, options);
+}
+
+/**
+ * Deterministic analysis of mono samples: the same input always yields the same timeline.
+ */
+export async function analyzeSamples(
+  samples: Float32Array,
+  sampleRate: number,
+  options: OfflineAnalysisOptions = {},
+): Promise<FeatureTimeline> {
+  const frameSize = options.frameSize ?? DEFAULT_FRAME_SIZE;
+  const hopSize = options.hopSize ?? DEFAULT_HOP_SIZE;
+  const hopSeconds = hopSize / sampleRate;
+  const spectral = new SpectralExtractor(frameSize, sampleRate);
+  const tempo = new TempoTracker();
+  tempo.setSensitivity(options.beatSensitivity ?? 0.6);
+  const drums = new DrumOnsetDetector();
+  drums.setSensitivity(options.beatSensitivity ?? 0.6);
+  const harmony = new HarmonyAnalyzer();
+  if (options.seedBpm) tempo.seed(options.seedBpm);
+  if (options.seedKey) harmony.seed(options.seedKey.key, options.seedKey.mode);
+  const byteSpectrum = new ByteSpectrum(frameSize, sampleRate);
+  const prevSpectrum = new Uint8Array(frameSize / 2);
+  const bandLayout = options.bandLayout ?? DEFAULT_BAND_LAYOUT;
+  const bandModel = new BandModel(bandLayout, frameSize / 2, sampleRate);
+
+  const frameCount = Math.max(1, Math.ceil(samples.length / hopSize));
+  const frames: AudioFeaturesFrame[] = new Array(frameCount);
+  const frame = new Float32Array(frameSize);
+  const beatTimes: number[] = [];
+  const confidentBpms: number[] = [];
+  let peakRms = 0;
+  let sumRms = 0;
+  let sumSquares = 0;
+  let peakSample = 0;
+
+  for (let i = 0; i < frameCount; i++) {
+    // Frame i ends at the hop boundary, like the live analyser looking at the latest samples
+    const end = Math.min(samples.length, (i + 1) * hopSize);
+    const start = end - frameSize;
+    frame.fill(0);
+    for (let j = Math.max(0, start); j < end; j++) frame[j - start] = samples[j];
+    const time = i * hopSeconds;
+
+    const freq = byteSpectrum.update(frame);
+    const rms = computeRmsFromFreq(freq);
+    const bandLevels = bandModel.compute(freq);
+    const bands = bandModel.summarize(bandLevels);
+    const { beat, ...tempoInfo } = tempo.update(time, computeSpectralFlux(freq, prevSpectrum));
+    if (beat) beatTimes.push(time);
+    if (tempoInfo.confidence >= 0.5) confidentBpms.push(tempoInfo.bpm);
+    const onsets = drums.detect(freq, sampleRate, time);
+    const features = spectral.extract(frame, time);
+    const key = harmony.update(features.chroma, time, features.rms) ?? undefined;
+    frames[i] = { time, rms, bands, bandLevels, beat, spectral: features, tempo: tempoInfo, onsets, harmony: key };
+
+    peakRms = Math.max(peakRms, rms);
+    sumRms += rms;
+    for (let j = i * hopSize; j < end; j++) {
+      const s = samples[j];
+      sumSquares += s * s;
+      const a = Math.abs(s);
+      if (a > peakSample) peakSample = a;
+    }
+
+    if ((i + 1) % FRAMES_PER_CHUNK === 0) {
+      options.onProgress?.((i + 1) / frameCount);
+      await new Promise((resolve) => setTimeout(resolve, 0));
+    }
+  }
+  options.onProgress?.(1);
+
+  const meanSquare = sumSquares / Math.max(1, samples.length);
+  const structure = analyzeStructure(frames, hopSeconds, { beats: beatTimes });
+  return {
+    sampleRate,
+    frameSize,
+    hopSize,
+    hopSeconds,
+    bandLayout,
+    frames,
+    stats: {
+      duration: samples.length / sampleRate,
+      peakRms,
+      meanRms: sumRms / frameCount,
+      loudnessDb: meanSquare > 0 ? 10 * Math.log10(meanSquare) : -Infinity,
+      peakSample,
+      beats: beatTimes,
+      bpm: median(confidentBpms),
+    },
+    structure,
+  };
+}
+
+// Frame at or just before `time`, clamped to the timeline
+export function frameAtTime(timeline: FeatureTimeline, time: number): AudioFeaturesFrame {
+  const idx = Math.floor(time / timeline.hopSeconds);
+  return timeline.frames[Math.max(0, Math.min(timeline.frames.length - 1, idx))];
+}
+
+// True when a beat falls in (from, to]; lets a render loop catch beats between its frames
+export function hasBeatBetween(timeline: FeatureTimeline, from: number, to: number): boolean {
+  const beats = timeline.stats.beats;
+  let lo = 0;
+  let hi = beats.length;
+  while (lo < hi) {
+    const mid = (lo + hi) >> 1;
+    if (beats[mid] <= from) lo = mid + 1;
+    else hi = mid;
+  }
+  return lo < beats.length && beats[lo] <= to;
+}
+
+// Strongest drum onsets among frames in (from, to], so a render frame never drops a hit between hops
+export function onsetsBetween(timeline: FeatureTimeline, from: number, to: number): DrumOnsets {
+  let merged: DrumOnsets = { kick: 0, snare: 0, hat: 0 };
+  const first = Math.max(0, Math.floor(from / timeline.hopSeconds) + 1);
+  const last = Math.min(timeline.frames.length - 1, Math.floor(to / timeline.hopSeconds));
+  for (let i = first; i <= last; i++) {
+    const onsets = timeline.frames[i].onsets;
+    if (onsets) merged = mergeOnsets(merged, onsets);
+  }
+  return merged;
+}
+
+function median(values: number[]): number {
+  if (values.length === 0) return 0;
+  const sorted = [...values].sort((a, b) => a - b);
+  return sorted[Math.floor(sorted.length / 2)];
+}
+
+/**
+ * Offline equivalent of AnalyserNode.getByteFrequencyData: Blackman window, |X|/N,
+ * exponential smoothing over time, then dB mapped to 0..255.
+ */
+class ByteSpectrum {
+  private smoothed: Float32Array;
+  private bytes: Uint8Array;
+
+  constructor(private frameSize: number, private sampleRate: number) {
+    this.smoothed = new Float32Array(frameSize / 2);
+    this.bytes = new Uint8Array(frameSize / 2);
+  }
+
+  update(frame: Float32Array): Uint8Array {
+    const mag = meydaExtractor(this.frameSize, this.sampleRate, 'blackman').extract('amplitudeSpectrum', frame) as unknown as Float32Array;
+    const range = ANALYSER_MAX_DB - ANALYSER_MIN_DB;
+    for (let k = 0; k < this.bytes.length; k++) {
+      const v = ANALYSER_SMOOTHING * this.smoothed[k] + (1 - ANALYSER_SMOOTHING) * (mag[k] / this.frameSize);
+      this.smoothed[k] = v;
+      const db = v > 0 ? 20 * Math.log10(v) : -Infinity;
+      const scaled = (255 / range) * (db - ANALYSER_MIN_DB);
+      this.bytes[k] = Math.max(0, Math.min(255, Math.floor(scaled)));
+    }
+    return this.bytes;
+  }
+}
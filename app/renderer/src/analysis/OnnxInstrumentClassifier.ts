@@ -0,0 +1,88 @@
+import TaggerWorker from './workers/InstrumentTaggerWorker.ts?worker';
+import type { TaggerRequest, TaggerResponse } from './workers/InstrumentTaggerWorker';
+import type { FeatureSample, InstrumentActivations, InstrumentClassifier } from './InstrumentClassifier';
+import { instrumentActivations, parseTaggerManifest, taggerInput, TaggerManifest } from './instrumentTagging';
+
+// Where a tagger model is looked for, served from the renderer's public directory. The repo ships
+// no model; one has to be added there for the ML option to become available
+export const DEFAULT_TAGGER_MANIFEST = 'models/instrument-tagger.json';
+
+// Whether a usable manifest is present, so the UI can offer the ONNX classifier only when it can load
+export async function hasTaggerModel(manifestUrl = DEFAULT_TAGGER_MANIFEST): Promise<boolean> {
+  try {
+    const res = await fetch(new URL(manifestUrl, document.baseURI).href);
+    if (!res.ok) return false;
+    parseTaggerManifest(await res.json());
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+type Pending = { resolve: (a: InstrumentActivations) => void; reject: (err: Error) => void };
+
+/**
+ * Main-thread handle for the ONNX audio-tagging worker. `init` resolves once the model is
+ * loaded and rejects when it is missing or unusable, so callers can keep the heuristics.
+ */
+export class OnnxInstrumentClassifier implements InstrumentClassifier {
+  readonly kind = 'onnx';
+  private worker: Worker | null = null;
+  private manifest: TaggerManifest | null = null;
+  private nextId = 1;
+  private pending = new Map<number, Pending>();
+
+  async init(manifestUrl = DEFAULT_TAGGER_MANIFEST): Promise<void> {
+    if (this.manifest) return;
+    const worker = new TaggerWorker();
+    this.worker = worker;
+    this.manifest = await new Promise<TaggerManifest>((resolve, reject) => {
+      worker.onerror = (e) => reject(new Error(e.message || 'Tagger worker failed to start'));
+      worker.onmessage = (e: MessageEvent<TaggerResponse>) => {
+        if (e.data.type === 'ready') resolve(e.data.manifest);
+        else if (e.data.type === 'error') reject(new Error(e.data.message));
+      };
+      const url = new URL(manifestUrl, document.baseURI).href;
+      worker.postMessage({ type: 'load', manifestUrl: url } satisfies TaggerRequest);
+    }).catch((err) => {
+      this.dispose();
+      throw err;
+    });
+    worker.onmessage = this.onMessage;
+    worker.onerror = (e) => this.failAll(new Error(e.message || 'Tagger worker crashed'));
+  }
+
+  classify(window: FeatureSample[]): Promise<InstrumentActivations> {
+    const worker = this.worker;
+    const manifest = this.manifest;
+    if (!worker || !manifest) return Promise.reject(new Error('Tagger model not loaded'));
+    const input = taggerInput(window, manifest.input);
+    const id = this.nextId++;
+    return new Promise((resolve, reject) => {
+      this.pending.set(id, { resolve, reject });
+      worker.postMessage({ type: 'classify', id, input } satisfies TaggerRequest, [input.buffer]);
+    });
+  }
+
+  dispose() {
+    this.failAll(new Error('Tagger disposed'));
+    this.worker?.terminate();
+    this.worker = null;
+    this.manifest = null;
+  }
+
+  private onMessage = (e: MessageEvent<TaggerResponse>) => {
+    const msg = e.data;
+    if (msg.type === 'ready' || msg.id === undefined) return;
+    const p = this.pending.get(msg.id);
+    if (!p) return;
+    this.pending.delete(msg.id);
+    if (msg.type === 'result') p.resolve(instrumentActivations(this.manifest?.labels ?? [], msg.scores));
+    else p.reject(new Error(msg.message));
+  };
+
+  private failAll(err: Error) {
+    for (const p of this.pending.values()) p.reject(err);
+    this.pending.clear();
+  }
+}
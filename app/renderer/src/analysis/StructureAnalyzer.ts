@@ -0,0 +1,241 @@
+import type { AudioFeaturesFrame } from '../audio/AudioEngine';
+
+export type SectionLabel = 'intro' | 'verse' | 'chorus' | 'buildup' | 'drop' | 'breakdown' | 'outro';
+
+export type Section = {
+  start: number; // seconds
+  end: number; // seconds
+  label: SectionLabel;
+  energy: number; // mean level relative to the loudest section, 0..1
+};
+
+export type SongStructure = {
+  blockSeconds: number;
+  novelty: number[]; // per block, 0..1
+  sections: Section[];
+};
+
+// What a frame carries during file playback
+export type SectionInfo = Section & { index: number };
+
+export type StructureOptions = {
+  blockSeconds?: number; // features are averaged into blocks of this length
+  kernelSeconds?: number; // half-width of the novelty kernel
+  minSectionSeconds?: number;
+  beats?: number[]; // boundaries snap to the nearest beat when one is close
+};
+
+const SNAP_SECONDS = 1;
+// The similarity matrix is blocks^2; long files get longer blocks instead of more of them
+const MAX_BLOCKS = 1200;
+// Relative section level above which a section reads as loud / below which as quiet
+const LOUD = 1.15;
+const QUIET = 0.75;
+// Relative rise across a section that makes it a build-up
+const BUILD_RISE = 0.35;
+
+/**
+ * Offline song segmentation: block-averaged chroma + timbre (MFCC) + level form a
+ * self-similarity matrix; a checkerboard kernel along its diagonal gives a novelty curve
+ * whose peaks are section boundaries. Sections are then labelled by their energy arc.
+ */
+export function analyzeStructure(frames: AudioFeaturesFrame[], hopSeconds: number, options: StructureOptions = {}): SongStructure {
+  const duration = frames.length * hopSeconds;
+  const blockSeconds = Math.max(options.blockSeconds ?? 0.5, duration / MAX_BLOCKS);
+  const kernel = Math.max(2, Math.round((options.kernelSeconds ?? 6) / blockSeconds));
+  const minGap = Math.max(1, Math.round((options.minSectionSeconds ?? 8) / blockSeconds));
+
+  const { vectors, levels, lows } = blockFeatures(frames, hopSeconds, blockSeconds);
+  const n = vectors.length;
+  const novelty = noveltyCurve(selfSimilarity(vectors), kernel);
+  const peaks = pickPeaks(novelty, minGap);
+  const bounds = [0, ...peaks.map((i) => snap(i * blockSeconds, options.beats)), duration];
+
+  const sections: Section[] = [];
+  const stats: { level: number; rise: number; low: number }[] = [];
+  for (let s = 0; s + 1 < bounds.length; s++) {
+    const from = Math.floor(bounds[s] / blockSeconds);
+    const to = Math.min(n, Math.max(from + 1, Math.floor(bounds[s + 1] / blockSeconds)));
+    stats.push(sectionStats(levels.slice(from, to), lows.slice(from, to)));
+    sections.push({ start: bounds[s], end: bounds[s + 1], label: 'verse', energy: 0 });
+  }
+  labelSections(sections, stats);
+  return { blockSeconds, novelty: Array.from(novelty), sections };
+}
+
+// Section containing `time`, clamped to the first/last one
+export function sectionAt(structure: SongStructure, time: number): SectionInfo | undefined {
+  const sections = structure.sections;
+  if (sections.length === 0) return undefined;
+  let lo = 0;
+  let hi = sections.length - 1;
+  while (lo < hi) {
+    const mid = (lo + hi + 1) >> 1;
+    if (sections[mid].start <= time) lo = mid;
+    else hi = mid - 1;
+  }
+  return { ...sections[lo], index: lo };
+}
+
+function blockFeatures(frames: AudioFeaturesFrame[], hopSeconds: number, blockSeconds: number) {
+  const perBlock = Math.max(1, Math.round(blockSeconds / hopSeconds));
+  const vectors: Float64Array[] = [];
+  const levels: number[] = [];
+  const lows: number[] = [];
+  for (let start = 0; start < frames.length; start += perBlock) {
+    const end = Math.min(frames.length, start + perBlock);
+    const v = new Float64Array(25);
+    let rms = 0;
+    let low = 0;
+    for (let i = start; i < end; i++) {
+      const f = frames[i];
+      rms += f.rms;
+      low += f.bands.low;
+      const chroma = f.spectral?.chroma;
+      const mfcc = f.spectral?.mfcc;
+      for (let k = 0; k < 12; k++) v[k] += chroma?.[k] ?? 0;
+      // mfcc[0] is overall level, already covered by rms
+      for (let k = 1; k < 13; k++) v[11 + k] += mfcc?.[k] ?? 0;
+    }
+    const count = end - start;
+    for (let k = 0; k < 24; k++) v[k] /= count;
+    levels.push(rms / count);
+    lows.push(low / count);
+    v[24] = Math.log10(1e-4 + rms / count);
+    vectors.push(v);
+  }
+  // Z-score each dimension so chroma, timbre and level weigh in comparably
+  const dims = vectors[0]?.length ?? 0;
+  for (let k = 0; k < dims; k++) {
+    let mean = 0;
+    for (const v of vectors) mean += v[k];
+    mean /= vectors.length;
+    let variance = 0;
+    for (const v of vectors) variance += (v[k] - mean) ** 2;
+    const std = Math.sqrt(variance / vectors.length) || 1;
+    for (const v of vectors) v[k] = (v[k] - mean) / std;
+  }
+  return { vectors, levels, lows };
+}
+
+// Cosine similarity between every pair of blocks, row-major n*n
+function selfSimilarity(vectors: Float64Array[]): Float32Array {
+  const n = vectors.length;
+  const norms = vectors.map((v) => Math.sqrt(v.reduce((a, x) => a + x * x, 0)) || 1);
+  const S = new Float32Array(n * n);
+  for (let i = 0; i < n; i++) {
+    S[i * n + i] = 1;
+    for (let j = i + 1; j < n; j++) {
+      let dot = 0;
+      const a = vectors[i];
+      const b = vectors[j];
+      for (let k = 0; k < a.length; k++) dot += a[k] * b[k];
+      const sim = dot / (norms[i] * norms[j]);
+      S[i * n + j] = sim;
+      S[j * n + i] = sim;
+    }
+  }
+  return S;
+}
+
+// Foote novelty: Gaussian-tapered checkerboard kernel slid along the diagonal, scaled to 0..1
+function noveltyCurve(S: Float32Array, half: number): Float32Array {
+  const n = Math.round(Math.sqrt(S.length));
+  const novelty = new Float32Array(n);
+  const sigma = half / 2;
+  let max = 0;
+  for (let i = 0; i < n; i++) {
+    let sum = 0;
+    for (let a = -half; a < half; a++) {
+      const ia = i + a;
+      if (ia < 0 || ia >= n) continue;
+      for (let b = -half; b < half; b++) {
+        const ib = i + b;
+        if (ib < 0 || ib >= n) continue;
+        const sign = (a < 0) === (b < 0) ? 1 : -1;
+        const taper = Math.exp(-((a + 0.5) ** 2 + (b + 0.5) ** 2) / (2 * sigma * sigma));
+        sum += sign * taper * S[ia * n + ib];
+      }
+    }
+    novelty[i] = Math.max(0, sum);
+    max = Math.max(max, novelty[i]);
+  }
+  if (max > 0) for (let i = 0; i < n; i++) novelty[i] /= max;
+  return novelty;
+}
+
+// Strongest local maxima above an adaptive threshold, at least minGap blocks apart and from the ends
+function pickPeaks(novelty: Float32Array, minGap: number): number[] {
+  const n = novelty.length;
+  let mean = 0;
+  for (const v of novelty) mean += v;
+  mean /= Math.max(1, n);
+  let variance = 0;
+  for (const v of novelty) variance += (v - mean) ** 2;
+  const threshold = Math.max(0.2, mean + 0.5 * Math.sqrt(variance / Math.max(1, n)));
+  const candidates: number[] = [];
+  for (let i = minGap; i < n - minGap; i++) {
+    if (novelty[i] < threshold) continue;
+    if (novelty[i] >= novelty[i - 1] && novelty[i] >= novelty[i + 1]) candidates.push(i);
+  }
+  candidates.sort((a, b) => novelty[b] - novelty[a]);
+  const picked: number[] = [];
+  for (const c of candidates) if (picked.every((p) => Math.abs(p - c) >= minGap)) picked.push(c);
+  return picked.sort((a, b) => a - b);
+}
+
+function snap(time: number, beats?: number[]): number {
+  if (!beats || beats.length === 0) return time;
+  let best = time;
+  let bestDist = SNAP_SECONDS;
+  for (const b of beats) {
+    const d = Math.abs(b - time);
+    if (d < bestDist) {
+      best = b;
+      bestDist = d;
+    }
+  }
+  return best;
+}
+
+function sectionStats(levels: number[], lows: number[]): { level: number; rise: number; low: number } {
+  const n = levels.length;
+  const level = levels.reduce((a, v) => a + v, 0) / Math.max(1, n);
+  const low = lows.reduce((a, v) => a + v, 0) / Math.max(1, n);
+  // Least-squares slope, expressed as the relative change from start to end of the section
+  let rise = 0;
+  if (n > 1 && level > 0) {
+    const mx = (n - 1) / 2;
+    let num = 0;
+    let den = 0;
+    for (let i = 0; i < n; i++) {
+      num += (i - mx) * (levels[i] - level);
+      den += (i - mx) ** 2;
+    }
+    rise = ((num / den) * (n - 1)) / level;
+  }
+  return { level, rise, low };
+}
+
+function labelSections(sections: Section[], stats: { level: number; rise: number; low: number }[]) {
+  const mean = stats.reduce((a, s) => a + s.level, 0) / Math.max(1, stats.length) || 1;
+  const peak = Math.max(...stats.map((s) => s.level)) || 1;
+  const meanLow = stats.reduce((a, s) => a + s.low, 0) / Math.max(1, stats.length);
+  const last = sections.length - 1;
+  sections.forEach((section, i) => {
+    const s = stats[i];
+    const rel = s.level / mean;
+    const loud = rel > LOUD;
+    const prev = i > 0 ? sections[i - 1] : null;
+    const next = i < last ? stats[i + 1] : null;
+    section.energy = s.level / peak;
+    if (i === 0 && !loud && last > 0) section.label = 'intro';
+    else if (i === last && !loud && last > 0) section.label = 'outro';
+    else if (s.rise > BUILD_RISE && next && next.level > s.level) section.label = 'buildup';
+    // A drop is a loud, bass-heavy arrival after a build-up or a sudden jump
+    else if (loud && prev && s.low >= meanLow && (prev.label === 'buildup' || s.level > stats[i - 1].level * 1.5)) section.label = 'drop';
+    else if (loud) section.label = 'chorus';
+    else if (rel < QUIET) section.label = 'breakdown';
+    else section.label = 'verse';
+  });
+}
@@ -0,0 +1,284 @@
+import { BeatDetector } from './BeatDetector';
+
+export type TempoInfo = {
+  bpm: number; // 0 until a tempo has been found
+  confidence: number; // 0..1
+  phase: number; // 0..1 position within the current beat
+  beatInBar: number; // 0..beatsPerBar-1, 0 = downbeat
+  barPhase: number; // 0..1 position within the bar
+};
+
+export type TempoUpdate = TempoInfo & {
+  beat: boolean; // a beat fell between the previous update and this one
+};
+
+export type TempoTrackerOptions = {
+  minBpm?: number;
+  maxBpm?: number;
+  preferredBpm?: number; // centre of the log-tempo prior used to resolve octave errors
+  beatsPerBar?: number;
+  windowSeconds?: number;
+};
+
+const ENVELOPE_RATE = 100; // Hz; onsets are resampled to a fixed grid regardless of caller rate
+const ESTIMATE_INTERVAL = 0.5; // seconds between tempo re-estimates
+const LOCK_CONFIDENCE = 0.25; // below this the tracker falls back to raw onset beats
+const PHASE_GAIN = 0.25; // how strongly each re-estimate pulls the predicted beat grid
+
+/**
+ * Onset-envelope tempo tracker: autocorrelation for the period, a comb filter for the phase,
+ * and a free-running beat clock between estimates so beats keep coming through breakdowns.
+ * Callers may feed it at any rate (rAF ticks, worklet hops, offline frames).
+ */
+export class TempoTracker {
+  private minLag: number;
+  private maxLag: number;
+  private preferredBpm: number;
+  private beatsPerBar: number;
+  private envelope: Float32Array;
+  private envIndex = 0; // total bins written
+  private envStartTime: number | null = null;
+  private lastEstimateAt = -Infinity;
+  private periodSec = 0;
+  private bpm = 0;
+  private confidence = 0;
+  private nextBeatAt = 0;
+  private lastBeatAt = 0;
+  private beatCount = 0;
+  private barEnergy: number[];
+  private downbeatOffset = 0;
+  private lastOnset = 0;
+  private pendingBpm = 0;
+  private pendingCount = 0;
+  private fallback = new BeatDetector(43);
+
+  constructor(options: TempoTrackerOptions = {}) {
+    const minBpm = options.minBpm ?? 60;
+    const maxBpm = options.maxBpm ?? 190;
+    this.minLag = Math.floor((60 / maxBpm) * ENVELOPE_RATE);
+    this.maxLag = Math.ceil((60 / minBpm) * ENVELOPE_RATE);
+    this.preferredBpm = options.preferredBpm ?? 120;
+    this.beatsPerBar = options.beatsPerBar ?? 4;
+    this.envelope = new Float32Array(Math.round((options.windowSeconds ?? 8) * ENVELOPE_RATE));
+    this.barEnergy = new Array(this.beatsPerBar).fill(0);
+  }
+
+  setSensitivity(s: number) {
+    this.fallback.setSensitivity(s);
+  }
+
+  // Start from a known tempo (e.g. a BPM tag); the tracker still refines it from the audio
+  seed(bpm: number) {
+    if (!(bpm > 0)) return;
+    this.bpm = bpm;
+    this.periodSec = 60 / bpm;
+    this.confidence = Math.max(this.confidence, LOCK_CONFIDENCE);
+  }
+
+  reset() {
+    this.envelope.fill(0);
+    this.envIndex = 0;
+    this.envStartTime = null;
+    this.lastEstimateAt = -Infinity;
+    this.periodSec = 0;
+    this.bpm = 0;
+    this.confidence = 0;
+    this.nextBeatAt = 0;
+    this.lastBeatAt = 0;
+    this.beatCount = 0;
+    this.barEnergy.fill(0);
+    this.downbeatOffset = 0;
+    this.lastOnset = 0;
+    this.pendingCount = 0;
+    this.fallback.reset();
+  }
+
+  /**
+   * @param time seconds on a monotonic clock
+   * @param onset onset strength (e.g. positive spectral flux) observed since the previous call
+   */
+  update(time: number, onset: number): TempoUpdate {
+    this.pushOnset(time, onset);
+    if (time - this.lastEstimateAt >= ESTIMATE_INTERVAL) {
+      this.lastEstimateAt = time;
+      this.estimate(time);
+    }
+
+    let beat = false;
+    const onsetBeat = this.fallback.detect(onset, time);
+    if (this.periodSec > 0 && this.confidence >= LOCK_CONFIDENCE) {
+      if (this.nextBeatAt <= this.lastBeatAt) this.nextBeatAt = this.lastBeatAt + this.periodSec;
+      if (time >= this.nextBeatAt) {
+        beat = true;
+        this.lastBeatAt = this.nextBeatAt;
+        this.nextBeatAt += this.periodSec;
+        // Never emit a backlog of beats after a stall
+        while (this.nextBeatAt <= time) this.nextBeatAt += this.periodSec;
+        this.beatCount++;
+        const slot = this.beatCount % this.beatsPerBar;
+        this.barEnergy[slot] = this.barEnergy[slot] * 0.9 + this.lastOnset;
+        this.lastOnset = 0;
+        this.updateDownbeat();
+      }
+    } else if (onsetBeat) {
+      beat = true;
+      this.lastBeatAt = time;
+      this.beatCount++;
+    }
+    // Tracks the strongest onset close to the upcoming beat, for downbeat estimation
+    if (this.periodSec > 0 && Math.abs(time - this.nextBeatAt) < this.periodSec * 0.15) {
+      this.lastOnset = Math.max(this.lastOnset, onset);
+    }
+
+    return { ...this.info(time), beat };
+  }
+
+  info(time: number): TempoInfo {
+    const period = this.periodSec;
+    const phase = period > 0 ? clamp01((time - this.lastBeatAt) / period) : 0;
+    const bar = this.beatsPerBar;
+    const beatInBar = (((this.beatCount - this.downbeatOffset) % bar) + bar) % bar;
+    return { bpm: this.bpm, confidence: this.confidence, phase, beatInBar, barPhase: (beatInBar + phase) / bar };
+  }
+
+  private pushOnset(time: number, onset: number) {
+    if (this.envStartTime == null) this.envStartTime = time;
+    const bin = Math.floor((time - this.envStartTime) * ENVELOPE_RATE);
+    const len = this.envelope.length;
+    // Zero bins skipped since the last call (slow caller or stall), then max-hold into the current bin
+    if (bin - this.envIndex >= len) this.envelope.fill(0);
+    while (this.envIndex < bin) {
+      this.envIndex++;
+      this.envelope[this.envIndex % len] = 0;
+    }
+    const idx = this.envIndex % len;
+    this.envelope[idx] = Math.max(this.envelope[idx], onset);
+  }
+
+  // Envelope in chronological order, mean removed and half-wave rectified
+  private orderedEnvelope(): Float32Array | null {
+    const len = this.envelope.length;
+    const filled = Math.min(len, this.envIndex + 1);
+    if (filled < this.maxLag * 2) return null;
+    const out = new Float32Array(filled);
+    let mean = 0;
+    for (let i = 0; i < filled; i++) {
+      out[i] = this.envelope[(this.envIndex - filled + 1 + i + len) % len];
+      mean += out[i];
+    }
+    mean /= filled;
+    for (let i = 0; i < filled; i++) out[i] = Math.max(0, out[i] - mean);
+    return out;
+  }
+
+  private estimate(time: number) {
+    const env = this.orderedEnvelope();
+    if (!env) return;
+    const n = env.length;
+    let energy = 0;
+    for (let i = 0; i < n; i++) energy += env[i] * env[i];
+    if (energy <= 1e-9) {
+      // Silence or a breakdown: keep the beat clock running, slowly lose confidence
+      this.confidence *= 0.9;
+      return;
+    }
+
+    // Autocorrelation weighted by a log-Gaussian tempo prior
+    const ac = new Float32Array(this.maxLag + 2);
+    let bestLag = 0;
+    let bestScore = 0;
+    let sumScore = 0;
+    let count = 0;
+    for (let lag = this.minLag; lag <= this.maxLag + 1 && lag < n; lag++) {
+      let s = 0;
+      for (let i = lag; i < n; i++) s += env[i] * env[i - lag];
+      ac[lag] = s / energy;
+      const bpm = (60 * ENVELOPE_RATE) / lag;
+      const prior = Math.exp(-0.5 * Math.pow(Math.log2(bpm / this.preferredBpm) / 0.9, 2));
+      const score = ac[lag] * prior;
+      if (lag <= this.maxLag) {
+        sumScore += score;
+        count++;
+        if (score > bestScore) {
+          bestScore = score;
+          bestLag = lag;
+        }
+      }
+    }
+    if (bestLag === 0) return;
+
+    // Parabolic interpolation around the peak for sub-bin precision
+    let lag = bestLag;
+    if (bestLag > this.minLag && bestLag < this.maxLag) {
+      const a = ac[bestLag - 1];
+      const b = ac[bestLag];
+      const c = ac[bestLag + 1];
+      const d = a - 2 * b + c;
+      if (d < 0) lag = bestLag + (0.5 * (a - c)) / d;
+    }
+    const candidateBpm = (60 * ENVELOPE_RATE) / lag;
+    const mean = sumScore / Math.max(1, count);
+    const peakiness = clamp01((bestScore - mean) / (bestScore + 1e-9));
+    const instantConfidence = clamp01(peakiness * 1.5);
+
+    // Hysteresis: follow small drifts immediately, require agreement before jumping
+    if (this.bpm === 0 || Math.abs(candidateBpm - this.bpm) / this.bpm < 0.04) {
+      this.bpm = this.bpm === 0 ? candidateBpm : this.bpm * 0.8 + candidateBpm * 0.2;
+      this.pendingCount = 0;
+    } else if (Math.abs(candidateBpm - this.pendingBpm) / candidateBpm < 0.04) {
+      if (++this.pendingCount >= 3) {
+        this.bpm = candidateBpm;
+        this.pendingCount = 0;
+      }
+    } else {
+      this.pendingBpm = candidateBpm;
+      this.pendingCount = 1;
+    }
+    this.periodSec = 60 / this.bpm;
+    this.confidence = this.confidence * 0.7 + instantConfidence * 0.3;
+
+    this.alignPhase(env, time);
+  }
+
+  // Comb filter over the envelope to find where beats fall, then nudge the beat clock toward it
+  private alignPhase(env: Float32Array, time: number) {
+    const periodBins = this.periodSec * ENVELOPE_RATE;
+    const n = env.length;
+    const steps = Math.max(1, Math.floor(periodBins));
+    let bestOffset = 0;
+    let bestSum = -1;
+    for (let offset = 0; offset < steps; offset++) {
+      let sum = 0;
+      for (let k = 0; ; k++) {
+        const idx = Math.round(n - 1 - offset - k * periodBins);
+        if (idx < 0) break;
+        sum += env[idx] * (1 - k * 0.05);
+      }
+      if (sum > bestSum) {
+        bestSum = sum;
+        bestOffset = offset;
+      }
+    }
+    const observedBeat = time - bestOffset / ENVELOPE_RATE;
+    if (this.nextBeatAt <= 0 || this.confidence < LOCK_CONFIDENCE) {
+      this.lastBeatAt = observedBeat;
+      this.nextBeatAt = observedBeat + this.periodSec;
+      return;
+    }
+    // Phase error wrapped into [-period/2, period/2)
+    let err = (observedBeat - this.lastBeatAt) % this.periodSec;
+    if (err >= this.periodSec / 2) err -= this.periodSec;
+    if (err < -this.periodSec / 2) err += this.periodSec;
+    this.nextBeatAt += err * PHASE_GAIN;
+  }
+
+  private updateDownbeat() {
+    let best = 0;
+    for (let i = 1; i < this.beatsPerBar; i++) if (this.barEnergy[i] > this.barEnergy[best]) best = i;
+    this.downbeatOffset = best;
+  }
+}
+
+function clamp01(v: number): number {
+  return Math.max(0, Math.min(1, v));
+}
@@ -0,0 +1,160 @@
+import type { AudioFeaturesFrame } from '../audio/AudioEngine';
+import { FeatureSample, HeuristicClassifier, Instrument, InstrumentClassifier, INSTRUMENTS, InstrumentTracker, InstrumentTrackerOptions } from './InstrumentClassifier';
+
+// A clip with the instruments that play in it throughout (empty = none of ours)
+export type LabeledClip = { name: string; instruments: Instrument[]; frames: AudioFeaturesFrame[] };
+
+export type ConfusionLabel = Instrument | 'none';
+
+export type ClassScore = {
+  precision: number;
+  recall: number;
+  f1: number;
+  support: number; // frames labelled with the class
+};
+
+export type EvaluationReport = {
+  clips: number;
+  frames: number; // scored frames, after warm-up
+  minutes: number;
+  perClass: Record<Instrument, ClassScore>;
+  // [labelled][predicted] frame counts; a frame adds one per labelled x predicted pair, 'none' standing in for an empty set
+  confusion: Record<ConfusionLabel, Record<ConfusionLabel, number>>;
+  macroF1: number; // over classes with labelled frames
+  exactMatch: number; // share of frames whose active set equals the labels
+  switchesPerMinute: number; // changes of the active set
+};
+
+// Stored next to the fixtures; a change fails when it scores lower than this
+export type EvaluationBaseline = { macroF1: number; exactMatch: number };
+
+export type EvaluationOptions = {
+  tracker?: Partial<InstrumentTrackerOptions>;
+  warmupSeconds?: number; // not scored at the start of each clip while the tracker fills its window
+  classifier?: () => InstrumentClassifier; // synchronous classifiers only
+};
+
+const CONFUSION_LABELS: ConfusionLabel[] = [...INSTRUMENTS, 'none'];
+
+// The classifier's view of an analysis frame
+export function sampleFromFrame(frame: AudioFeaturesFrame): FeatureSample {
+  return {
+    time: frame.time,
+    rms: frame.rms,
+    low: frame.bands.low,
+    mid: frame.bands.mid,
+    high: frame.bands.high,
+    beat: frame.beat,
+    onsets: frame.onsets,
+    bandLevels: frame.bandLevels,
+    mfcc: frame.spectral?.mfcc,
+    centroid: frame.spectral?.centroid,
+    flatness: frame.spectral?.flatness,
+    chroma: frame.spectral?.chroma,
+  };
+}
+
+/**
+ * Runs each clip's frames through a fresh tracker and scores the active set frame by frame
+ * against the clip labels.
+ */
+export function evaluateClassifier(clips: LabeledClip[], options: EvaluationOptions = {}): EvaluationReport {
+  const warmup = options.warmupSeconds ?? 1;
+  const counts = Object.fromEntries(INSTRUMENTS.map((i) => [i, { tp: 0, fp: 0, fn: 0 }])) as Record<Instrument, { tp: number; fp: number; fn: number }>;
+  const confusion = Object.fromEntries(CONFUSION_LABELS.map((t) => [t, Object.fromEntries(CONFUSION_LABELS.map((p) => [p, 0]))])) as EvaluationReport['confusion'];
+  let frames = 0;
+  let exact = 0;
+  let switches = 0;
+  let seconds = 0;
+
+  for (const clip of clips) {
+    const tracker = new InstrumentTracker(options.classifier?.() ?? new HeuristicClassifier(), options.tracker);
+    const truth = new Set(clip.instruments);
+    const start = clip.frames[0]?.time ?? 0;
+    let previous: Set<Instrument> | null = null;
+    for (const frame of clip.frames) {
+      const predicted = new Set(tracker.update(sampleFromFrame(frame)).map((a) => a.instrument));
+      if (frame.time - start < warmup) {
+        previous = predicted;
+        continue;
+      }
+      frames++;
+      if (previous && !sameSet(previous, predicted)) switches++;
+      previous = predicted;
+      if (sameSet(truth, predicted)) exact++;
+      for (const inst of INSTRUMENTS) {
+        const t = truth.has(inst);
+        const p = predicted.has(inst);
+        if (t && p) counts[inst].tp++;
+        else if (p) counts[inst].fp++;
+        else if (t) counts[inst].fn++;
+      }
+      for (const t of truth.size ? truth : ['none' as const]) {
+        for (const p of predicted.size ? predicted : ['none' as const]) confusion[t][p]++;
+      }
+    }
+    const last = clip.frames[clip.frames.length - 1];
+    if (last) seconds += Math.max(0, last.time - start - warmup);
+  }
+
+  const perClass = {} as Record<Instrument, ClassScore>;
+  const f1s: number[] = [];
+  for (const inst of INSTRUMENTS) {
+    const { tp, fp, fn } = counts[inst];
+    const precision = tp + fp > 0 ? tp / (tp + fp) : 0;
+    const recall = tp + fn > 0 ? tp / (tp + fn) : 0;
+    const f1 = precision + recall > 0 ? (2 * precision * recall) / (precision + recall) : 0;
+    perClass[inst] = { precision, recall, f1, support: tp + fn };
+    if (tp + fn > 0) f1s.push(f1);
+  }
+  const minutes = seconds / 60;
+  return {
+    clips: clips.length,
+    frames,
+    minutes,
+    perClass,
+    confusion,
+    macroF1: f1s.length ? f1s.reduce((a, b) => a + b, 0) / f1s.length : 0,
+    exactMatch: frames ? exact / frames : 0,
+    switchesPerMinute: minutes > 0 ? switches / minutes : 0,
+  };
+}
+
+// Regressions against the stored baseline; empty when the report is at least as good (within tolerance)
+export function compareToBaseline(report: EvaluationReport, baseline: EvaluationBaseline, tolerance = 0.005): string[] {
+  const out: string[] = [];
+  if (report.macroF1 < baseline.macroF1 - tolerance) out.push(`macro F1 ${pct(report.macroF1)} < baseline ${pct(baseline.macroF1)}`);
+  if (report.exactMatch < baseline.exactMatch - tolerance) out.push(`exact match ${pct(report.exactMatch)} < baseline ${pct(baseline.exactMatch)}`);
+  return out;
+}
+
+export function baselineFrom(report: EvaluationReport): EvaluationBaseline {
+  return { macroF1: round(report.macroF1), exactMatch: round(report.exactMatch) };
+}
+
+export function formatReport(report: EvaluationReport): string {
+  const lines: string[] = [];
+  lines.push(`${report.clips} clips, ${report.frames} frames, ${report.minutes.toFixed(1)} min scored`);
+  lines.push('');
+  lines.push(`${'class'.padEnd(10)}${'precision'.padStart(10)}${'recall'.padStart(10)}${'f1'.padStart(10)}${'frames'.padStart(10)}`);
+  for (const inst of INSTRUMENTS) {
+    const s = report.perClass[inst];
+    lines.push(`${inst.padEnd(10)}${pct(s.precision).padStart(10)}${pct(s.recall).padStart(10)}${pct(s.f1).padStart(10)}${String(s.support).padStart(10)}`);
+  }
+  lines.push('');
+  lines.push('confusion (rows: labelled, columns: predicted)');
+  lines.push(''.padEnd(10) + CONFUSION_LABELS.map((l) => l.padStart(9)).join(''));
+  for (const t of CONFUSION_LABELS) lines.push(t.padEnd(10) + CONFUSION_LABELS.map((p) => String(report.confusion[t][p]).padStart(9)).join(''));
+  lines.push('');
+  lines.push(`macro F1 ${pct(report.macroF1)}, exact match ${pct(report.exactMatch)}, ${report.switchesPerMinute.toFixed(1)} switches/min`);
+  return lines.join('\n');
+}
+
+function sameSet<T>(a: Set<T>, b: Set<T>): boolean {
+  if (a.size !== b.size) return false;
+  for (const x of a) if (!b.has(x)) return false;
+  return true;
+}
+
+const pct = (x: number) => `${(x * 100).toFixed(1)}%`;
+const round = (x: number) => Math.round(x * 10000) / 10000;
@@ -0,0 +1,52 @@
+export function computeRmsFromFreq(freq: Uint8Array): number {
+  // Normalize 0..255 to 0..1 and compute RMS proxy
+  let sumSquares = 0;
+  const n = freq.length;
+  for (let i = 0; i < n; i++) {
+    const v = freq[i] / 255;
+    sumSquares += v * v;
+  }
+  const rms = Math.sqrt(sumSquares / n);
+  return rms;
+}
+
+export function computeBands(freq: Uint8Array): { low: number; mid: number; high: number } {
+  // Split bins into thirds as a simple heuristic
+  const n = freq.length;
+  const oneThird = Math.floor(n / 3);
+  const low = average(freq, 0, oneThird);
+  const mid = average(freq, oneThird, 2 * oneThird);
+  const high = average(freq, 2 * oneThird, n);
+  return { low, mid, high };
+}
+
+function average(arr: Uint8Array, from: number, to: number): number {
+  const len = Math.max(1, to - from);
+  let sum = 0;
+  for (let i = from; i < to; i++) sum += arr[i];
+  return sum / len / 255; // normalize 0..1
+}
+
+export function computeInstantEnergy(timeData: Uint8Array): number {
+  // Convert 0..255 centered around ~128 to -1..1
+  const n = timeData.length;
+  let sum = 0;
+  for (let i = 0; i < n; i++) {
+    const s = (timeData[i] - 128) / 128;
+    sum += s * s;
+  }
+  return sum / n;
+}
+
+// Mean positive change between two byte spectra (0..1); `prev` is updated in place.
+// Byte bins are already dB-scaled, so this is a log-magnitude onset strength.
+export function computeSpectralFlux(freq: Uint8Array, prev: Uint8Array): number {
+  const n = Math.min(freq.length, prev.length);
+  let sum = 0;
+  for (let i = 0; i < n; i++) {
+    const d = freq[i] - prev[i];
+    if (d > 0) sum += d;
+    prev[i] = freq[i];
+  }
+  return sum / Math.max(1, n) / 255;
+}
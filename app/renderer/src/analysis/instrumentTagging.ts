@@ -0,0 +1,93 @@
+import { FeatureSample, Instrument, InstrumentActivations, silence } from './InstrumentClassifier';
+
+/**
+ * Describes an audio-tagging model (`<name>.json` next to the `.onnx` file). The model
+ * takes one float32 tensor [1, frames, size] of per-frame features, oldest first, and returns
+ * one score per label (probabilities or logits).
+ */
+export type TaggerManifest = {
+  model: string; // model file, relative to the manifest
+  input: {
+    frames: number;
+    hopSeconds: number; // spacing between input frames
+    features: 'bands' | 'mfcc';
+    size: number; // values per frame; band levels or MFCCs are resampled to this
+  };
+  labels: string[]; // output classes in model order, e.g. AudioSet names
+};
+
+export function parseTaggerManifest(data: unknown): TaggerManifest {
+  if (!data || typeof data !== 'object') throw new Error('Invalid tagger manifest');
+  const { model, input, labels } = data as Record<string, unknown>;
+  if (!input || typeof input !== 'object') throw new Error('Invalid tagger manifest');
+  const { frames, hopSeconds, features, size } = input as Record<string, unknown>;
+  if (
+    typeof model !== 'string' ||
+    !Number.isInteger(frames) || (frames as number) <= 0 ||
+    typeof hopSeconds !== 'number' || hopSeconds <= 0 ||
+    (features !== 'bands' && features !== 'mfcc') ||
+    !Number.isInteger(size) || (size as number) <= 0 ||
+    !Array.isArray(labels) || !labels.every((l) => typeof l === 'string')
+  ) {
+    throw new Error('Invalid tagger manifest');
+  }
+  return { model, input: { frames: frames as number, hopSeconds, features, size: size as number }, labels };
+}
+
+// Model input from a sample window: frames stepped back from the newest sample, zeros before the window starts
+export function taggerInput(window: FeatureSample[], input: TaggerManifest['input']): Float32Array {
+  const out = new Float32Array(input.frames * input.size);
+  if (window.length === 0) return out;
+  const newest = window[window.length - 1].time;
+  let j = window.length - 1;
+  for (let f = input.frames - 1; f >= 0; f--) {
+    const t = newest - (input.frames - 1 - f) * input.hopSeconds;
+    while (j > 0 && window[j].time > t + 1e-6) j--;
+    if (window[j].time > t + 1e-6) break;
+    const values = input.features === 'mfcc' ? window[j].mfcc : window[j].bandLevels;
+    if (values && values.length > 0) out.set(resample(values, input.size), f * input.size);
+  }
+  return out;
+}
+
+// Linear interpolation onto `size` points spanning the same range
+export function resample(values: number[], size: number): number[] {
+  if (values.length === size) return values.slice();
+  const out = new Array<number>(size);
+  for (let i = 0; i < size; i++) {
+    const x = size === 1 ? 0 : (i * (values.length - 1)) / (size - 1);
+    const k = Math.floor(x);
+    const frac = x - k;
+    out[i] = k + 1 < values.length ? values[k] * (1 - frac) + values[k + 1] * frac : values[k];
+  }
+  return out;
+}
+
+// Tagger label -> instrument family; first match wins, so "Bass drum" is drums and "Double bass" is bass
+const FAMILIES: [RegExp, Instrument][] = [
+  [/drum|snare|cymbal|hi-hat|percussion/i, 'drums'],
+  [/bass/i, 'bass'],
+  [/guitar/i, 'guitar'],
+  [/sing|vocal|choir|rapping|humming|yodel/i, 'vocals'],
+  [/piano|keyboard|organ|harpsichord/i, 'keys'],
+  [/string|violin|fiddle|viola|cello|harp/i, 'strings'],
+  [/brass|trumpet|trombone|french horn|tuba/i, 'brass'],
+  [/synth|pad/i, 'pad'],
+];
+
+/**
+ * Collapses tagger scores onto our instruments: each takes its strongest label. Scores outside
+ * 0..1 are treated as logits.
+ */
+export function instrumentActivations(labels: string[], scores: ArrayLike<number>): InstrumentActivations {
+  let logits = false;
+  for (let i = 0; i < scores.length; i++) if (scores[i] < 0 || scores[i] > 1) logits = true;
+  const out = silence();
+  for (let i = 0; i < Math.min(labels.length, scores.length); i++) {
+    const family = FAMILIES.find(([re]) => re.test(labels[i]))?.[1];
+    if (!family) continue;
+    const p = logits ? 1 / (1 + Math.exp(-scores[i])) : scores[i];
+    out[family] = Math.max(out[family], p);
+  }
+  return out;
+}
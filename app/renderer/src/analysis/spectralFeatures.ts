@@ -0,0 +1,97 @@
+import Meyda from 'meyda';
+import type { MeydaAudioFeature, MeydaFeaturesObject, MeydaWindowingFunction } from 'meyda';
+
+export type SpectralFeatures = {
+  time: number; // seconds on the producing clock (AudioContext or buffer time)
+  rms: number; // time-domain RMS of the analysis frame, 0..1
+  centroid: number; // Hz
+  rolloff: number; // Hz, 99% energy
+  flatness: number; // 0 (tonal) .. 1 (noise)
+  flux: number; // positive spectral flux vs previous frame, normalized by bin count
+  mfcc: number[];
+  chroma: number[]; // 12 pitch classes, C..B, max-normalized
+};
+
+export const DEFAULT_FRAME_SIZE = 1024;
+export const DEFAULT_HOP_SIZE = 512;
+
+const MEYDA_FEATURES: MeydaAudioFeature[] = [
+  'rms',
+  'amplitudeSpectrum',
+  'spectralCentroid',
+  'spectralRolloff',
+  'spectralFlatness',
+  'mfcc',
+  'chroma',
+];
+
+// What Meyda.extract returns for MEYDA_FEATURES
+type MeydaFrame = Pick<MeydaFeaturesObject, 'rms' | 'amplitudeSpectrum' | 'spectralCentroid' | 'spectralRolloff' | 'spectralFlatness' | 'mfcc' | 'chroma'>;
+
+/**
+ * Stateful wrapper around Meyda.extract for a fixed frame size. Keeps the previous
+ * amplitude spectrum to compute spectral flux (Meyda's own flux extractor is broken in 5.x).
+ * Used by the AudioWorklet and by offline analysis so both produce identical numbers.
+ */
+export class SpectralExtractor {
+  private prevSpectrum: Float32Array | null = null;
+
+  constructor(private frameSize = DEFAULT_FRAME_SIZE, private sampleRate = 48000) {}
+
+  extract(frame: Float32Array, time: number): SpectralFeatures {
+    const f = meydaExtractor(this.frameSize, this.sampleRate, 'hanning').extract(MEYDA_FEATURES, frame) as MeydaFrame;
+    const spectrum = f.amplitudeSpectrum;
+    const flux = this.computeFlux(spectrum);
+    const binHz = this.sampleRate / this.frameSize;
+    return {
+      time,
+      rms: finiteOr(f.rms, 0),
+      centroid: finiteOr(f.spectralCentroid, 0) * binHz,
+      rolloff: finiteOr(f.spectralRolloff, 0),
+      flatness: Math.max(0, Math.min(1, finiteOr(f.spectralFlatness, 0))),
+      flux,
+      mfcc: f.mfcc.map((v) => finiteOr(v, 0)),
+      chroma: f.chroma.map((v) => finiteOr(v, 0)),
+    };
+  }
+
+  reset() {
+    this.prevSpectrum = null;
+  }
+
+  private computeFlux(spectrum: Float32Array): number {
+    const prev = this.prevSpectrum;
+    let sum = 0;
+    if (prev && prev.length === spectrum.length) {
+      for (let i = 0; i < spectrum.length; i++) {
+        const d = spectrum[i] - prev[i];
+        if (d > 0) sum += d;
+      }
+    }
+    if (!prev || prev.length !== spectrum.length) this.prevSpectrum = new Float32Array(spectrum.length);
+    this.prevSpectrum!.set(spectrum);
+    return sum / spectrum.length;
+  }
+}
+
+const extractors = new Map<string, typeof Meyda>();
+
+// Meyda caches its filter banks on the object `extract` is called on and checks them by size
+// only, so each frame size, sample rate and window gets its own extractor inheriting from the
+// default export; the shared singleton is never configured or called.
+export function meydaExtractor(frameSize: number, sampleRate: number, windowing: MeydaWindowingFunction): typeof Meyda {
+  const key = `${frameSize}:${sampleRate}:${windowing}`;
+  let extractor = extractors.get(key);
+  if (!extractor) {
+    extractor = Object.create(Meyda) as typeof Meyda;
+    extractor.bufferSize = frameSize;
+    extractor.sampleRate = sampleRate;
+    extractor.windowingFunction = windowing;
+    extractors.set(key, extractor);
+  }
+  return extractor;
+}
+
+function finiteOr(v: number, fallback: number): number {
+  return Number.isFinite(v) ? v : fallback;
+}
@@ -0,0 +1,81 @@
+import type { BandModel } from './BandModel';
+
+export type StereoFeatures = {
+  left: number; // RMS 0..1
+  right: number; // RMS 0..1
+  balance: number; // -1 (left) .. 1 (right), by RMS
+  correlation: number; // -1 (out of phase) .. 1 (mono)
+  width: number; // 0 (mono) .. 1 (side only); ~0.5 for uncorrelated channels
+  bandPan: number[]; // -1..1 per band of the active BandLayout; 0 where both sides are silent
+};
+
+// Byte spectra are dB over the analyser range; undo that to compare channel power per band
+const MIN_DB = -100;
+const MAX_DB = -30;
+
+function levelToPower(level: number): number {
+  const db = MIN_DB + level * (MAX_DB - MIN_DB);
+  return Math.pow(10, db / 10);
+}
+
+/**
+ * Stereo image from per-channel time-domain samples and byte spectra. Band pan uses a
+ * power ratio, so a hard-panned source reads ±1 and a centred one 0.
+ */
+export function computeStereoField(
+  leftTime: Float32Array,
+  rightTime: Float32Array,
+  leftFreq: Uint8Array,
+  rightFreq: Uint8Array,
+  bands: BandModel,
+): StereoFeatures {
+  const n = Math.min(leftTime.length, rightTime.length);
+  let ll = 0;
+  let rr = 0;
+  let lr = 0;
+  for (let i = 0; i < n; i++) {
+    const l = leftTime[i];
+    const r = rightTime[i];
+    ll += l * l;
+    rr += r * r;
+    lr += l * r;
+  }
+  const left = Math.sqrt(ll / Math.max(1, n));
+  const right = Math.sqrt(rr / Math.max(1, n));
+  const energy = ll + rr;
+  const silent = energy < 1e-10;
+  // Mid/side energies: M = (L+R)/2, S = (L-R)/2
+  const mid = (ll + rr + 2 * lr) / 4;
+  const side = (ll + rr - 2 * lr) / 4;
+  const correlation = silent ? 1 : lr / Math.sqrt(Math.max(ll * rr, 1e-20));
+
+  const leftLevels = bands.compute(leftFreq);
+  const rightLevels = bands.compute(rightFreq);
+  const floor = levelToPower(0) * 2;
+  const bandPan = leftLevels.map((lv, i) => {
+    const pl = levelToPower(lv);
+    const pr = levelToPower(rightLevels[i]);
+    return pl + pr <= floor ? 0 : (pr - pl) / (pr + pl);
+  });
+
+  return {
+    left,
+    right,
+    balance: silent ? 0 : (right - left) / (right + left),
+    correlation: Math.max(-1, Math.min(1, correlation)),
+    width: silent ? 0 : Math.sqrt(side) / (Math.sqrt(mid) + Math.sqrt(side)),
+    bandPan,
+  };
+}
+
+// Overall position of what is loudest right now: band pans weighted by band level
+export function dominantPan(stereo: StereoFeatures, bandLevels: number[]): number {
+  let sum = 0;
+  let weight = 0;
+  for (let i = 0; i < stereo.bandPan.length && i < bandLevels.length; i++) {
+    const w = bandLevels[i] * bandLevels[i];
+    sum += stereo.bandPan[i] * w;
+    weight += w;
+  }
+  return weight > 0 ? sum / weight : 0;
+}
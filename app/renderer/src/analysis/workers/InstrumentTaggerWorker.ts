@@ -0,0 +1,45 @@
+// Runs in a dedicated Web Worker (imported with ?worker) so model inference never blocks rendering
+import * as ort from 'onnxruntime-web';
+import { parseTaggerManifest, TaggerManifest } from '../instrumentTagging';
+
+export type TaggerRequest = { type: 'load'; manifestUrl: string } | { type: 'classify'; id: number; input: Float32Array };
+
+export type TaggerResponse =
+  | { type: 'ready'; manifest: TaggerManifest }
+  | { type: 'result'; id: number; scores: Float32Array }
+  | { type: 'error'; id?: number; message: string };
+
+// The renderer is not cross-origin isolated, so the WASM backend runs single-threaded inside this worker
+ort.env.wasm.numThreads = 1;
+ort.env.wasm.proxy = false;
+
+let session: ort.InferenceSession | null = null;
+let manifest: TaggerManifest | null = null;
+
+const scope = self as unknown as Worker;
+const post = (msg: TaggerResponse, transfer: Transferable[] = []) => scope.postMessage(msg, transfer);
+
+async function load(manifestUrl: string) {
+  const res = await fetch(manifestUrl);
+  if (!res.ok) throw new Error(`Tagger manifest not found (${res.status})`);
+  const parsed = parseTaggerManifest(await res.json());
+  const modelRes = await fetch(new URL(parsed.model, new URL(manifestUrl, self.location.href)).href);
+  if (!modelRes.ok) throw new Error(`Tagger model not found (${modelRes.status})`);
+  session = await ort.InferenceSession.create(new Uint8Array(await modelRes.arrayBuffer()), { executionProviders: ['wasm'] });
+  manifest = parsed;
+  post({ type: 'ready', manifest: parsed });
+}
+
+async function classify(id: number, input: Float32Array) {
+  if (!session || !manifest) throw new Error('Tagger model not loaded');
+  const tensor = new ort.Tensor('float32', input, [1, manifest.input.frames, manifest.input.size]);
+  const outputs = await session.run({ [session.inputNames[0]]: tensor });
+  const scores = Float32Array.from(outputs[session.outputNames[0]].data as Float32Array);
+  post({ type: 'result', id, scores }, [scores.buffer]);
+}
+
+scope.onmessage = (e: MessageEvent<TaggerRequest>) => {
+  const msg = e.data;
+  const task = msg.type === 'load' ? load(msg.manifestUrl) : classify(msg.id, msg.input);
+  task.catch((err) => post({ type: 'error', id: msg.type === 'classify' ? msg.id : undefined, message: err?.message ?? String(err) }));
+};
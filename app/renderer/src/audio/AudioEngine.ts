@@ -1,17 +1,95 @@
+import { FeatureExtractorNode } from './FeatureExtractorNode';
+import type { SpectralFeatures } from '../analysis/spectralFeatures';
+import { computeRmsFromFreq, computeSpectralFlux } from '../analysis/featureMath';
+import { BandLayout, BandModel, DEFAULT_BAND_LAYOUT, sameBandLayout } from '../analysis/BandModel';
+import { TempoInfo, TempoTracker } from '../analysis/TempoTracker';
+import { DrumOnsetDetector, DrumOnsets } from '../analysis/DrumOnsetDetector';
+import { analyzeAudioBuffer, FeatureTimeline, frameAtTime, hasBeatBetween, onsetsBetween } from '../analysis/OfflineAnalyzer';
+import { PlaylistQueue, QueueItem } from './PlaylistQueue';
+import { ChannelSelection, streamChannelCount } from './InputDevices';
+import { StereoAnalyser } from './StereoAnalyser';
+import { parseMetadata, TrackMetadata } from './trackMetadata';
+import { MidiEvent, midiEventsBetween, MidiSong } from './midiFile';
+import type { StereoFeatures } from '../analysis/stereoField';
+import { AutoGain, AutoGainOptions } from '../analysis/AutoGain';
+import { HarmonyAnalyzer, HarmonyInfo } from '../analysis/HarmonyAnalyzer';
+import { sectionAt, SectionInfo } from '../analysis/StructureAnalyzer';
+
+export { computeBands, computeInstantEnergy, computeRmsFromFreq } from '../analysis/featureMath';
+
 export type AudioFeaturesFrame = {
   time: number;
   rms: number;
-  bands: { low: number; mid: number; high: number };
-  beat: boolean;
+  bands: { low: number; mid: number; high: number }; // derived from bandLevels at fixed crossovers
+  bandLevels?: number[]; // 0..1 per band of the current BandLayout
+  beat: boolean; // predicted beat once the tempo is locked, raw onset beat before that
+  tempo?: TempoInfo;
+  onsets?: DrumOnsets; // per-drum onset strength, 0 when that drum did not hit this frame
+  stereo?: StereoFeatures; // always live, also during timeline playback (the timeline is mono)
+  // Present when auto gain rescaled rms/bands/bandLevels; rawRms is the value before scaling
+  loudness?: { gain: number; levelDb: number; rawRms: number };
+  // Latest AudioWorklet analysis (fixed hop size); absent until the worklet reports
+  spectral?: SpectralFeatures;
+  harmony?: HarmonyInfo; // key and chord from chroma; absent until a key is established
+  section?: SectionInfo; // song section at the playback position; file playback only
+  midi?: MidiEvent[]; // note-ons/offs since the previous frame, while a MIDI file is attached to the playing track
+};
+
+export type PlaybackState = 'idle' | 'loading' | 'stopped' | 'playing' | 'paused' | 'ended' | 'failed';
+
+export type PlaybackEvent = {
+  state: PlaybackState;
+  position: number; // seconds
+  duration: number; // seconds, 0 until decoded
+  error?: string; // why the loaded file cannot play, in the 'failed' state
 };
 
+// The loaded file is not audio the browser can decode
+export class AudioDecodeError extends Error {}
+
 type FrameCallback = (frame: AudioFeaturesFrame) => void;
+type PlaybackCallback = (event: PlaybackEvent) => void;
+type FeaturesCallback = (features: SpectralFeatures) => void;
+type TimelineCallback = (timeline: FeatureTimeline | null) => void;
+type TrackCallback = (item: QueueItem | null) => void;
+type MetadataCallback = (metadata: TrackMetadata | null) => void;
+
+type PreparedTrack = {
+  file: File;
+  metadata: Promise<TrackMetadata>;
+  decoded: Promise<AudioBuffer>; // rejects with AudioDecodeError
+  timeline: Promise<FeatureTimeline | null>;
+};
+
+// A queue track whose source is already scheduled on the context clock
+type ScheduledTrack = {
+  item: QueueItem;
+  buffer: AudioBuffer;
+  source: AudioBufferSourceNode;
+  gain: GainNode;
+  startAt: number; // context time
+  fade: number; // seconds of overlap with the outgoing track
+};
+
+const TRANSITION_POLL_MS = 200;
+// Schedule the next source this long before it is due so timer jitter never causes a gap
+const SCHEDULE_AHEAD_SEC = 1.5;
+// A longer jump in playback position (seek, stall) skips MIDI events instead of replaying them all
+const MIDI_MAX_GAP_SEC = 0.5;
 type VoidCallback = () => void;
 
+export type LiveInputOptions = {
+  channels?: ChannelSelection;
+  gain?: number;
+  monitor?: boolean;
+};
+
 export class AudioEngine {
   private audioContext: AudioContext | null = null;
   private analyser: AnalyserNode | null = null;
   private sourceNode: AudioBufferSourceNode | null = null;
+  private sourceGain: GainNode | null = null;
+  private mixBus: GainNode | null = null; // all file decks sum here before the analyser
   private testOscillator: OscillatorNode | null = null;
   private testGain: GainNode | null = null;
   private outputGain: GainNode | null = null;
@@ -19,59 +97,522 @@ export class AudioEngine {
   private timeData: Uint8Array | null = null;
   private rafId: number | null = null;
   private callbacks: Set<FrameCallback> = new Set();
+  private featureCallbacks: Set<FeaturesCallback> = new Set();
+  private extractor: FeatureExtractorNode | null = null;
+  private extractorReady: Promise<void> | null = null;
   private onEndedCallbacks: Set<VoidCallback> = new Set();
-  private startTimeSec = 0;
-  private pendingFile: File | null = null;
-  private energyHistory: number[] = [];
-  private maxEnergyHistory = 43; // ~0.7s at ~60fps
-  private lastBeatAt = 0;
+  private timelineCallbacks: Set<TimelineCallback> = new Set();
+  private playbackCallbacks: Set<PlaybackCallback> = new Set();
+  private trackCallbacks: Set<TrackCallback> = new Set();
+  private metadataCallbacks: Set<MetadataCallback> = new Set();
+  private metadata: TrackMetadata | null = null;
+  private queue = new PlaylistQueue();
+  private offNextChange = this.queue.onNextChange((next) => this.dropStaleNext(next));
+  private currentItemId: string | null = null;
+  private prepared: { itemId: string; track: PreparedTrack; buffer: AudioBuffer | null } | null = null;
+  private scheduled: ScheduledTrack | null = null;
+  private fadingOut: AudioBufferSourceNode | null = null; // previous deck while a crossfade finishes
+  private transitionTimer: number | null = null;
+  private crossfadeSec = 0;
+  private crossfadeUntil = 0;
+  private startTimeSec = 0; // context time at which playback position 0 would have started
+  private loadedFile: File | null = null;
+  private buffer: AudioBuffer | null = null;
+  private pausedAt = 0; // playback position while not playing
+  private playbackState: PlaybackState = 'idle';
+  private decodePromise: Promise<AudioBuffer> | null = null;
+  private playbackError: string | null = null;
+  private timeline: FeatureTimeline | null = null;
+  private timelineEnabled = true;
+  private lastTimelinePos = 0;
+  private midi: MidiSong | null = null;
+  private midiOffset = 0; // seconds added to the playback position before looking up MIDI events
+  private lastMidiPos = 0;
+  private tempoTracker = new TempoTracker();
+  private drumDetector = new DrumOnsetDetector();
+  private harmony = new HarmonyAnalyzer();
+  private bandLayout: BandLayout = DEFAULT_BAND_LAYOUT;
+  private bandModel: BandModel | null = null; // live model, rebuilt for the analyser's bin count
+  private stereoAnalyser = new StereoAnalyser();
+  private autoGain = new AutoGain();
+  private autoGainEnabled = true;
+  private prevFreqData: Uint8Array | null = null; // previous live spectrum, for onset flux
   private beatSensitivity = 0.6; // 0..1, higher = more sensitive
   private liveStream: MediaStream | null = null;
   private liveSource: MediaStreamAudioSourceNode | null = null;
+  private liveNodes: AudioNode[] = []; // channel splitter/merger between the live source and inputGain
+  private inputGain: GainNode | null = null; // live input level into the analyser
+  private monitorGain: GainNode | null = null; // live input to the speakers; 0 = muted
+  private inputGainValue = 1;
+  private monitorEnabled = false;
 
   async loadFile(file: File): Promise<void> {
-    // Only remember the file; defer heavy decode to start()
+    // Plain file load (not from the queue): no automatic advance when it ends
+    this.loadTrack(file, null);
+  }
+
+  // Decode right away so the offline analysis can run before playback starts
+  private loadTrack(file: File, itemId: string | null, prepared?: PreparedTrack) {
     this.stop();
-    this.pendingFile = file;
+    this.currentItemId = itemId;
+    this.queue.setCurrent(itemId);
+    this.loadedFile = file;
+    this.buffer = null;
+    this.pausedAt = 0;
+    this.setTimeline(null);
+    this.setMetadata(null);
+    this.midi = null;
+    // The previous track's key must not colour this one; tags may seed it again
+    this.harmony.reset();
+    this.setPlaybackState('loading');
+    const track = prepared && prepared.file === file ? prepared : this.prepareTrack(file);
+    this.decodePromise = track.decoded;
+    track.decoded.then(
+      (buffer) => {
+        if (this.loadedFile !== file) return;
+        this.buffer = buffer;
+        if (this.playbackState === 'loading') this.setPlaybackState('stopped');
+      },
+      (err: Error) => {
+        if (this.loadedFile !== file) return;
+        this.setTimeline(null);
+        this.playbackError = err.message;
+        this.setPlaybackState('failed');
+      },
+    );
+    this.adoptMetadata(track);
+    this.adoptTimeline(track);
+    for (const cb of this.trackCallbacks) cb(this.queue.getCurrent());
+  }
+
+  // Decode and analyse a file without touching playback (used for the current and the upcoming track)
+  private prepareTrack(file: File): PreparedTrack {
+    const context = (this.audioContext ||= new AudioContext());
+    const bytes = file.arrayBuffer();
+    // Tags are read before decoding: decodeAudioData detaches the buffer
+    const metadata = bytes.then((b) => parseMetadata(new Uint8Array(b))).catch((): TrackMetadata => ({}));
+    const decoded = metadata.then(() => this.decodeFile(context, file.name, bytes));
+    const timeline = Promise.all([decoded, metadata]).then(
+      ([buffer, meta]) => this.analyzeBuffer(buffer, meta),
+      () => null,
+    );
+    return { file, metadata, decoded, timeline };
+  }
+
+  private async decodeFile(context: AudioContext, name: string, bytes: Promise<ArrayBuffer>): Promise<AudioBuffer> {
+    try {
+      return await context.decodeAudioData(await bytes);
+    } catch (err) {
+      console.warn('Audio decode failed', err);
+      throw new AudioDecodeError(`Cannot decode ${name}`);
+    }
+  }
+
+  private async analyzeBuffer(buffer: AudioBuffer, metadata: TrackMetadata | null): Promise<FeatureTimeline | null> {
+    try {
+      return await analyzeAudioBuffer(buffer, {
+        beatSensitivity: this.beatSensitivity,
+        bandLayout: this.bandLayout,
+        seedBpm: metadata?.bpm,
+        seedKey: metadata?.key,
+      });
+    } catch (err) {
+      console.warn('Offline analysis failed; using live analysis', err);
+      return null;
+    }
+  }
+
+  private adoptTimeline(track: PreparedTrack) {
+    void track.timeline.then((timeline) => {
+      // Ignore results for a file that has since been replaced
+      if (this.loadedFile === track.file) this.setTimeline(timeline);
+    });
+  }
+
+  private adoptMetadata(track: PreparedTrack) {
+    void track.metadata.then((metadata) => {
+      if (this.loadedFile !== track.file) return;
+      // Tagged tempo/key give the live trackers a head start
+      if (metadata.bpm) this.tempoTracker.seed(metadata.bpm);
+      if (metadata.key) this.harmony.seed(metadata.key.key, metadata.key.mode);
+      this.setMetadata(metadata);
+    });
+  }
+
+  private setMetadata(metadata: TrackMetadata | null) {
+    this.metadata = metadata;
+    for (const cb of this.metadataCallbacks) cb(metadata);
+  }
+
+  // Tags of the loaded file; null while loading or when nothing is loaded
+  getMetadata(): TrackMetadata | null {
+    return this.metadata;
+  }
+
+  onMetadata(callback: MetadataCallback): () => void {
+    this.metadataCallbacks.add(callback);
+    return () => this.metadataCallbacks.delete(callback);
+  }
+
+  private setTimeline(timeline: FeatureTimeline | null) {
+    this.timeline = timeline;
+    for (const cb of this.timelineCallbacks) cb(timeline);
+  }
+
+  getTimeline(): FeatureTimeline | null {
+    return this.timeline;
+  }
+
+  // When enabled (default), file playback is driven by the precomputed timeline once ready
+  setTimelineEnabled(enabled: boolean) {
+    this.timelineEnabled = enabled;
+  }
+
+  onTimeline(callback: TimelineCallback): () => void {
+    this.timelineCallbacks.add(callback);
+    return () => this.timelineCallbacks.delete(callback);
+  }
+
+  getBandLayout(): BandLayout {
+    return this.bandLayout;
+  }
+
+  // Changes the band split for live analysis and re-analyses the current track so its timeline matches
+  setBandLayout(layout: BandLayout) {
+    if (sameBandLayout(layout, this.bandLayout)) return;
+    this.bandLayout = layout;
+    this.bandModel = null;
+    if (!this.scheduled) this.prepared = null;
+    const file = this.loadedFile;
+    const buffer = this.buffer;
+    if (!file || !buffer) return;
+    void this.analyzeBuffer(buffer, this.metadata).then((timeline) => {
+      if (this.loadedFile === file && timeline) this.setTimeline(timeline);
+    });
   }
 
+  // --- Queue ---
+
+  getQueue(): PlaylistQueue {
+    return this.queue;
+  }
+
+  loadItem(id: string) {
+    const item = this.queue.get(id);
+    if (!item) return;
+    const prepared = this.prepared?.itemId === id ? this.prepared.track : undefined;
+    this.loadTrack(item.file, item.id, prepared);
+  }
+
+  async playItem(id: string): Promise<void> {
+    if (!this.queue.get(id)) return;
+    this.loadItem(id);
+    await this.start();
+  }
+
+  async next(): Promise<void> {
+    const item = this.queue.peekNext();
+    if (item) await this.playItem(item.id);
+  }
+
+  async previous(): Promise<void> {
+    // Like most players: restart the track unless we are near its beginning
+    if (this.getPosition() > 3) return this.seek(0);
+    const item = this.queue.peekPrevious();
+    if (item) await this.playItem(item.id);
+  }
+
+  // Seconds of equal-power overlap between consecutive queue tracks; 0 = gapless
+  setCrossfade(seconds: number) {
+    this.crossfadeSec = Math.max(0, Math.min(12, seconds));
+    // Re-plan an already scheduled transition with the new length
+    this.cancelScheduledNext();
+  }
+
+  getCrossfade(): number {
+    return this.crossfadeSec;
+  }
+
+  onTrackChange(callback: TrackCallback): () => void {
+    this.trackCallbacks.add(callback);
+    return () => this.trackCallbacks.delete(callback);
+  }
+
+  // Starts playback of the loaded file, resuming from the paused position if any
   async start(): Promise<void> {
     const context = (this.audioContext ||= new AudioContext());
     if (!this.analyser) this.createAnalyser(context);
+    if (this.sourceNode) return;
+
+    // Wait for the decode kicked off by loadFile; rejects with AudioDecodeError
+    const file = this.loadedFile;
+    const buffer = this.buffer ?? (await this.decodePromise);
+    if (!buffer || this.loadedFile !== file || this.sourceNode) return;
+    this.buffer = buffer;
+    if (context.state !== 'running') {
+      await context.resume();
+    }
+    await this.ensureExtractor(context);
+    if (this.sourceNode) return;
+    this.startSource(this.pausedAt < buffer.duration ? this.pausedAt : 0);
+    this.startTick();
+  }
+
+  pause(): void {
+    if (!this.sourceNode) return;
+    this.pausedAt = this.getPosition();
+    this.stopSource();
+    this.setPlaybackState('paused');
+  }
+
+  resume(): Promise<void> {
+    return this.start();
+  }
+
+  seek(seconds: number): void {
+    if (!this.buffer) return;
+    const target = Math.max(0, Math.min(this.buffer.duration, seconds));
+    if (this.sourceNode) {
+      this.stopSource();
+      this.startSource(target);
+    } else {
+      this.pausedAt = target;
+      this.lastTimelinePos = target;
+      if (this.playbackState === 'ended') this.setPlaybackState('paused');
+      else this.emitPlayback();
+    }
+  }
+
+  getPosition(): number {
+    if (this.sourceNode && this.audioContext && this.buffer) {
+      const pos = this.audioContext.currentTime - this.startTimeSec;
+      return Math.max(0, Math.min(this.buffer.duration, pos));
+    }
+    return this.pausedAt;
+  }
+
+  getDuration(): number {
+    return this.buffer?.duration ?? 0;
+  }
+
+  getPlaybackState(): PlaybackState {
+    return this.playbackState;
+  }
+
+  onPlaybackState(callback: PlaybackCallback): () => void {
+    this.playbackCallbacks.add(callback);
+    return () => this.playbackCallbacks.delete(callback);
+  }
+
+  private setPlaybackState(state: PlaybackState) {
+    this.playbackState = state;
+    if (state !== 'failed') this.playbackError = null;
+    this.emitPlayback();
+  }
+
+  private emitPlayback() {
+    const event: PlaybackEvent = { state: this.playbackState, position: this.getPosition(), duration: this.getDuration() };
+    if (this.playbackError) event.error = this.playbackError;
+    for (const cb of this.playbackCallbacks) cb(event);
+  }
+
+  private createDeck(buffer: AudioBuffer): { source: AudioBufferSourceNode; gain: GainNode } {
+    const context = this.audioContext!;
+    const source = context.createBufferSource();
+    source.buffer = buffer;
+    const gain = context.createGain();
+    source.connect(gain);
+    gain.connect(this.mixBus!);
+    return { source, gain };
+  }
+
+  private startSource(offset: number) {
+    if (!this.audioContext || !this.buffer || !this.analyser) return;
+    const { source, gain } = this.createDeck(this.buffer);
+    source.onended = () => this.onSourceEnded(source, gain);
+    this.sourceNode = source;
+    this.sourceGain = gain;
+    this.startTimeSec = this.audioContext.currentTime - offset;
+    this.lastTimelinePos = offset;
+    this.lastMidiPos = offset - 1e-3; // notes exactly at the start position still fire
+    this.crossfadeUntil = 0;
+    source.start(0, offset);
+    this.setPlaybackState('playing');
+    this.startTransitionTimer();
+  }
 
-    // If there is a pending file and no source set up, decode now
-    if (!this.sourceNode && this.pendingFile) {
+  private onSourceEnded(source: AudioBufferSourceNode, gain: GainNode) {
+    try {
+      gain.disconnect();
+    } catch {}
+    if (this.fadingOut === source) this.fadingOut = null;
+    // Sources stopped by pause/seek/stop or already handed over are detached; only a natural end gets here
+    if (this.sourceNode !== source) return;
+    if (this.scheduled) {
+      this.promoteScheduled();
+      return;
+    }
+    this.sourceNode = null;
+    this.sourceGain = null;
+    this.pausedAt = 0;
+    this.stopTransitionTimer();
+    this.setPlaybackState('ended');
+    for (const cb of this.onEndedCallbacks) cb();
+  }
+
+  private stopSource() {
+    this.cancelScheduledNext();
+    this.stopTransitionTimer();
+    if (this.fadingOut) {
+      try {
+        this.fadingOut.stop();
+      } catch {}
+      this.fadingOut = null;
+    }
+    const source = this.sourceNode;
+    const gain = this.sourceGain;
+    if (!source) return;
+    this.sourceNode = null;
+    this.sourceGain = null;
+    try {
+      source.stop();
+    } catch {}
+    try {
+      source.disconnect();
+      gain?.disconnect();
+    } catch {}
+  }
+
+  // --- Gapless / crossfade transitions between queue tracks ---
+
+  private startTransitionTimer() {
+    if (this.transitionTimer == null) this.transitionTimer = window.setInterval(this.checkTransition, TRANSITION_POLL_MS);
+  }
+
+  private stopTransitionTimer() {
+    if (this.transitionTimer != null) window.clearInterval(this.transitionTimer);
+    this.transitionTimer = null;
+  }
+
+  // Runs on a timer rather than in tick so a stalled render loop cannot delay the handover
+  private checkTransition = () => {
+    const context = this.audioContext;
+    if (!context || !this.sourceNode || !this.buffer || this.currentItemId == null) return;
+    if (this.scheduled) {
+      if (context.currentTime >= this.scheduled.startAt) this.promoteScheduled();
+      return;
+    }
+    const nextItem = this.queue.peekNext();
+    if (!nextItem) return;
+    if (nextItem.id === this.currentItemId && this.prepared?.itemId !== nextItem.id) {
+      // Repeat-one: reuse the current decode and timeline
+      const track = {
+        file: nextItem.file,
+        metadata: Promise.resolve(this.metadata ?? {}),
+        decoded: Promise.resolve(this.buffer),
+        timeline: Promise.resolve(this.timeline),
+      };
+      this.prepared = { itemId: nextItem.id, track, buffer: this.buffer };
+    } else if (this.prepared?.itemId !== nextItem.id) {
+      this.prepared = { itemId: nextItem.id, track: this.prepareTrack(nextItem.file), buffer: null };
+      const prepared = this.prepared;
+      // An undecodable next track is not scheduled; it reports its error when loaded
+      prepared.track.decoded.then(
+        (buffer) => {
+          prepared.buffer = buffer;
+        },
+        () => {},
+      );
+    }
+    const remaining = this.buffer.duration - this.getPosition();
+    if (this.prepared.buffer && remaining <= this.crossfadeSec + SCHEDULE_AHEAD_SEC) {
+      this.scheduleNext(nextItem, this.prepared.buffer);
+    }
+  };
+
+  private scheduleNext(item: QueueItem, buffer: AudioBuffer) {
+    const context = this.audioContext!;
+    const endAt = this.startTimeSec + this.buffer!.duration;
+    const fade = Math.min(this.crossfadeSec, this.buffer!.duration / 2, buffer.duration / 2);
+    const startAt = Math.max(context.currentTime + 0.05, endAt - fade);
+    const { source, gain } = this.createDeck(buffer);
+    source.onended = () => this.onSourceEnded(source, gain);
+    if (fade > 0 && this.sourceGain) {
+      const { fadeIn, fadeOut } = equalPowerCurves();
       try {
-        const arrayBuffer = await this.pendingFile.arrayBuffer();
-        const audioBuffer = await context.decodeAudioData(arrayBuffer);
-        const source = context.createBufferSource();
-        source.buffer = audioBuffer;
-        source.connect(this.analyser!);
-        this.sourceNode = source;
-        source.onended = () => {
-          for (const cb of this.onEndedCallbacks) cb();
-        };
-        this.pendingFile = null;
+        gain.gain.setValueCurveAtTime(fadeIn, startAt, fade);
+        this.sourceGain.gain.setValueCurveAtTime(fadeOut, startAt, fade);
       } catch (err) {
-        console.error('Audio decode/start failed', err);
-        return;
+        console.warn('Crossfade automation rejected; falling back to a hard cut', err);
+        gain.gain.cancelScheduledValues(0);
+        gain.gain.value = 1;
       }
     }
-    if (!this.audioContext || !this.sourceNode || !this.analyser) return;
-    if (this.audioContext.state !== 'running') {
-      await this.audioContext.resume();
+    source.start(startAt);
+    this.scheduled = { item, buffer, source, gain, startAt, fade };
+  }
+
+  private cancelScheduledNext() {
+    const next = this.scheduled;
+    if (!next) return;
+    this.scheduled = null;
+    try {
+      next.source.onended = null;
+      next.source.stop();
+      next.source.disconnect();
+      next.gain.disconnect();
+    } catch {}
+    if (this.sourceGain) {
+      // Undo the fade-out planned for the current track
+      this.sourceGain.gain.cancelScheduledValues(0);
+      this.sourceGain.gain.value = 1;
     }
-    this.startTimeSec = this.audioContext.currentTime;
-    this.sourceNode.start();
-    this.startTick();
   }
 
-  stop(): void {
-    if (this.sourceNode) {
-      try {
-        this.sourceNode.stop();
-      } catch {}
+  // Queue edits (remove, reorder, shuffle, repeat) can change what follows; a track already
+  // scheduled or decoded for the old order must not be promoted
+  private dropStaleNext(next: QueueItem | null) {
+    if (this.scheduled && this.scheduled.item.id !== next?.id) this.cancelScheduledNext();
+    if (this.prepared && this.prepared.itemId !== next?.id) this.prepared = null;
+  }
+
+  // The scheduled track has started: make it the current one
+  private promoteScheduled() {
+    const next = this.scheduled;
+    if (!next) return;
+    this.scheduled = null;
+    const prepared = this.prepared?.itemId === next.item.id ? this.prepared.track : null;
+    this.prepared = null;
+    this.fadingOut = this.sourceNode;
+    this.sourceNode = next.source;
+    this.sourceGain = next.gain;
+    this.buffer = next.buffer;
+    this.startTimeSec = next.startAt;
+    this.lastTimelinePos = 0;
+    // Both decks feed the analyser while they overlap; use live analysis until the fade is over
+    this.crossfadeUntil = next.startAt + next.fade;
+    this.currentItemId = next.item.id;
+    this.queue.setCurrent(next.item.id);
+    this.loadedFile = next.item.file;
+    this.decodePromise = Promise.resolve(next.buffer);
+    this.setTimeline(null);
+    this.setMetadata(null);
+    this.midi = null;
+    // The previous track's key must not colour this one; tags may seed it again
+    this.harmony.reset();
+    if (prepared) {
+      this.adoptMetadata(prepared);
+      this.adoptTimeline(prepared);
     }
+    this.setPlaybackState('playing');
+    for (const cb of this.trackCallbacks) cb(next.item);
+  }
+
+  stop(): void {
+    const wasActive = this.playbackState === 'playing' || this.playbackState === 'paused';
+    this.stopSource();
+    this.pausedAt = 0;
+    if (wasActive) this.setPlaybackState('stopped');
     if (this.liveStream) {
       try {
         for (const tr of this.liveStream.getTracks()) tr.stop();
@@ -84,10 +625,13 @@ export class AudioEngine {
     }
     if (this.rafId) cancelAnimationFrame(this.rafId);
     this.rafId = null;
-    this.sourceNode = null;
     if (this.liveSource) {
       try { this.liveSource.disconnect(); } catch {}
     }
+    for (const node of this.liveNodes) {
+      try { node.disconnect(); } catch {}
+    }
+    this.liveNodes = [];
     this.liveStream = null;
     this.liveSource = null;
     this.testOscillator = null;
@@ -98,6 +642,12 @@ export class AudioEngine {
     return () => this.callbacks.delete(callback);
   }
 
+  // Spectral features at the worklet hop rate, independent of the render loop
+  onFeatures(callback: FeaturesCallback): () => void {
+    this.featureCallbacks.add(callback);
+    return () => this.featureCallbacks.delete(callback);
+  }
+
   onEnded(callback: VoidCallback): () => void {
     this.onEndedCallbacks.add(callback);
     return () => this.onEndedCallbacks.delete(callback);
@@ -105,6 +655,7 @@ export class AudioEngine {
 
   dispose(): void {
     this.stop();
+    this.offNextChange();
     if (this.sourceNode) {
       try {
         this.sourceNode.disconnect();
@@ -129,6 +680,12 @@ export class AudioEngine {
       } catch {}
       this.analyser = null;
     }
+    this.stereoAnalyser.dispose();
+    if (this.extractor) {
+      this.extractor.dispose();
+      this.extractor = null;
+      this.extractorReady = null;
+    }
     // Keep AudioContext for reuse to avoid permission prompts
   }
 
@@ -141,11 +698,13 @@ export class AudioEngine {
     const gain = context.createGain();
     gain.gain.value = 0.05; // quiet
     osc.connect(gain);
-    gain.connect(analyser);
+    // Through the mix bus so the tone is both analysed and audible
+    gain.connect(this.mixBus!);
 
     this.testOscillator = osc;
     this.testGain = gain;
     if (context.state !== 'running') await context.resume();
+    await this.ensureExtractor(context);
     osc.start();
     this.startTick();
   }
@@ -174,28 +733,84 @@ export class AudioEngine {
     }
   }
 
-  async startFromMediaStream(stream: MediaStream): Promise<void> {
+  async startFromMediaStream(stream: MediaStream, options: LiveInputOptions = {}): Promise<void> {
     const context = (this.audioContext ||= new AudioContext());
     if (!this.analyser) this.createAnalyser(context);
     this.stop();
+    if (options.gain != null) this.inputGainValue = options.gain;
+    if (options.monitor != null) this.monitorEnabled = options.monitor;
     this.liveStream = stream;
     this.liveSource = context.createMediaStreamSource(stream);
-    this.liveSource.connect(this.analyser!);
+    const input = this.ensureLiveGains(context);
+    const channels = options.channels ?? null;
+    const available = streamChannelCount(stream);
+    if (channels && channels.start + channels.count <= available) {
+      // Pick the requested channel (or pair) out of a multi-channel interface
+      const splitter = context.createChannelSplitter(available);
+      const merger = context.createChannelMerger(channels.count);
+      this.liveSource.connect(splitter);
+      for (let i = 0; i < channels.count; i++) splitter.connect(merger, channels.start + i, i);
+      merger.connect(input);
+      this.liveNodes = [splitter, merger];
+    } else {
+      if (channels) console.warn(`Input has ${available} channels; using all of them`);
+      this.liveSource.connect(input);
+    }
     if (context.state !== 'running') await context.resume();
+    await this.ensureExtractor(context);
     this.startTick();
   }
 
+  // Live chain: source → inputGain → analyser, and inputGain → monitorGain → speakers
+  private ensureLiveGains(context: AudioContext): GainNode {
+    if (!this.inputGain) {
+      this.inputGain = context.createGain();
+      this.monitorGain = context.createGain();
+      this.inputGain.connect(this.analyser!);
+      if (this.stereoAnalyser.input) this.inputGain.connect(this.stereoAnalyser.input);
+      this.inputGain.connect(this.monitorGain);
+      this.monitorGain.connect(this.outputGain!);
+    }
+    this.inputGain.gain.value = this.inputGainValue;
+    this.monitorGain!.gain.value = this.monitorEnabled ? 1 : 0;
+    return this.inputGain;
+  }
+
+  setInputGain(gain: number) {
+    this.inputGainValue = Math.max(0, Math.min(4, gain));
+    if (this.inputGain) this.inputGain.gain.value = this.inputGainValue;
+  }
+
+  // Whether live input is also played through the speakers (off by default to avoid feedback)
+  setMonitor(enabled: boolean) {
+    this.monitorEnabled = enabled;
+    if (this.monitorGain) this.monitorGain.gain.value = enabled ? 1 : 0;
+  }
+
+  getLiveChannelCount(): number {
+    return this.liveStream ? streamChannelCount(this.liveStream) : 0;
+  }
+
   private createAnalyser(context: AudioContext): AnalyserNode {
     if (this.analyser) {
       try {
         this.analyser.disconnect();
+        this.mixBus?.disconnect(this.analyser);
+      } catch {}
+      try {
+        this.inputGain?.disconnect(this.analyser);
       } catch {}
     }
     const analyser = context.createAnalyser();
     analyser.fftSize = 1024; // lighter for dev stability
+    if (!this.mixBus) this.mixBus = context.createGain();
+    this.mixBus.connect(analyser);
+    const stereoInput = this.stereoAnalyser.init(context, analyser.fftSize, 0.85);
+    this.mixBus.connect(stereoInput);
     analyser.smoothingTimeConstant = 0.85;
     this.analyser = analyser;
     this.freqData = new Uint8Array(analyser.frequencyBinCount);
+    this.prevFreqData = new Uint8Array(analyser.frequencyBinCount);
     this.timeData = new Uint8Array(analyser.fftSize);
     // Ensure output chain to speakers
     if (!this.outputGain) {
@@ -205,12 +820,46 @@ export class AudioEngine {
         this.outputGain.connect(context.destination);
       } catch {}
     }
+    // The analyser is a tap, not part of the output path: file decks reach the speakers from the
+    // mix bus, live input only through the monitor gain
     try {
-      analyser.connect(this.outputGain);
+      this.mixBus.connect(this.outputGain);
     } catch {}
+    if (this.inputGain) {
+      try {
+        this.inputGain.connect(analyser);
+        this.inputGain.connect(stereoInput);
+      } catch {}
+    }
+    if (this.extractor?.input) {
+      try {
+        analyser.connect(this.extractor.input);
+      } catch {}
+    }
     return analyser;
   }
 
+  private ensureExtractor(context: AudioContext): Promise<void> {
+    if (this.extractorReady) return this.extractorReady;
+    const extractor = new FeatureExtractorNode();
+    extractor.onFeatures((features) => {
+      this.harmony.update(features.chroma, features.time, features.rms);
+      for (const cb of this.featureCallbacks) cb(features);
+    });
+    this.extractor = extractor;
+    this.extractorReady = extractor
+      .init(context)
+      .then((node) => {
+        if (this.analyser) this.analyser.connect(node);
+      })
+      .catch((err) => {
+        // Keep the analyser-only path working if the worklet cannot load
+        console.warn('Feature extractor worklet unavailable', err);
+        this.extractor = null;
+      });
+    return this.extractorReady;
+  }
+
   setVolume(volume: number): void {
     if (!this.audioContext) return;
     const clamped = Math.max(0, Math.min(1, volume));
@@ -230,95 +879,112 @@ export class AudioEngine {
   private tick = () => {
     if (!this.analyser || !this.freqData || !this.timeData || !this.audioContext) return;
 
+    const time = this.audioContext.currentTime - this.startTimeSec;
+    const crossfading = this.audioContext.currentTime < this.crossfadeUntil;
+    const sampleRate = this.audioContext.sampleRate;
+    if (!this.bandModel || this.bandModel.binCount !== this.freqData.length || this.bandModel.sampleRate !== sampleRate) {
+      this.bandModel = new BandModel(this.bandLayout, this.freqData.length, sampleRate);
+    }
+    const stereo = this.stereoAnalyser.read(this.bandModel) ?? undefined;
+    if (this.timelineEnabled && this.timeline && this.sourceNode && !crossfading) {
+      // File playback: read the precomputed frame at the playback position
+      const frame: AudioFeaturesFrame = {
+        ...frameAtTime(this.timeline, time),
+        time,
+        beat: hasBeatBetween(this.timeline, this.lastTimelinePos, time),
+        onsets: onsetsBetween(this.timeline, this.lastTimelinePos, time),
+        stereo,
+        section: sectionAt(this.timeline.structure, time),
+        midi: this.midiEventsAt(time),
+      };
+      this.lastTimelinePos = time;
+      this.emitFrame(frame);
+      this.rafId = requestAnimationFrame(this.tick);
+      return;
+    }
+
     this.analyser.getByteFrequencyData(this.freqData);
-    this.analyser.getByteTimeDomainData(this.timeData);
-    const { low, mid, high } = computeBands(this.freqData);
+    const bandLevels = this.bandModel.compute(this.freqData);
+    const { low, mid, high } = this.bandModel.summarize(bandLevels);
     const rms = computeRmsFromFreq(this.freqData);
-    const time = this.audioContext.currentTime - this.startTimeSec;
-    const energy = computeInstantEnergy(this.timeData);
-    const { isBeat } = this.detectBeat(energy, this.audioContext.currentTime);
+    const flux = computeSpectralFlux(this.freqData, this.prevFreqData!);
+    const { beat, ...tempo } = this.tempoTracker.update(this.audioContext.currentTime, flux);
+    const onsets = this.drumDetector.detect(this.freqData, sampleRate, this.audioContext.currentTime);
+
+    const spectral = this.extractor?.getLatest() ?? undefined;
+    const harmony = this.harmony.info() ?? undefined;
+
+    const midi = this.midiEventsAt(time);
 
-    const frame: AudioFeaturesFrame = { time, rms, bands: { low, mid, high }, beat: isBeat };
-    for (const cb of this.callbacks) cb(frame);
+    const frame: AudioFeaturesFrame = { time, rms, bands: { low, mid, high }, bandLevels, beat, tempo, onsets, stereo, spectral, harmony, midi };
+    this.emitFrame(frame);
 
     this.rafId = requestAnimationFrame(this.tick);
   };
 
-  setBeatSensitivity(s: number) {
-    this.beatSensitivity = Math.max(0, Math.min(1, s));
+  private midiEventsAt(time: number): MidiEvent[] | undefined {
+    if (!this.midi || !this.sourceNode) return undefined;
+    const from = this.lastMidiPos;
+    this.lastMidiPos = time;
+    if (time < from || time - from > MIDI_MAX_GAP_SEC) return [];
+    return midiEventsBetween(this.midi, from + this.midiOffset, time + this.midiOffset);
   }
 
-  private detectBeat(energy: number, nowSec: number): { isBeat: boolean } {
-    // Maintain rolling statistics
-    this.energyHistory.push(energy);
-    if (this.energyHistory.length > this.maxEnergyHistory) this.energyHistory.shift();
-    if (this.energyHistory.length < 8) return { isBeat: false };
+  // MIDI for the loaded track, played against its position; cleared when another track loads
+  setMidi(song: MidiSong | null, offsetSeconds = 0) {
+    this.midi = song;
+    this.midiOffset = offsetSeconds;
+    this.lastMidiPos = this.getPosition();
+  }
 
-    const mean = averageArray(this.energyHistory);
-    let variance = 0;
-    for (const e of this.energyHistory) {
-      const d = e - mean;
-      variance += d * d;
-    }
-    variance /= this.energyHistory.length;
-    const std = Math.sqrt(Math.max(variance, 1e-8));
+  getMidi(): MidiSong | null {
+    return this.midi;
+  }
 
-    // Sensitivity mapping: higher sensitivity → lower threshold multiplier
-    const k = 2.0 - 1.5 * this.beatSensitivity; // 0.5..2.0
-    const threshold = mean + k * std;
-    const minInterval = 0.12; // seconds
-    const canTrigger = nowSec - this.lastBeatAt > minInterval;
-    const isBeat = canTrigger && energy > threshold;
-    if (isBeat) this.lastBeatAt = nowSec;
-    return { isBeat };
+  // Positive values play MIDI events earlier (the MIDI starts before the audio)
+  setMidiOffset(seconds: number) {
+    this.midiOffset = seconds;
   }
-}
 
-export function computeRmsFromFreq(freq: Uint8Array): number {
-  // Normalize 0..255 to 0..1 and compute RMS proxy
-  let sumSquares = 0;
-  const n = freq.length;
-  for (let i = 0; i < n; i++) {
-    const v = freq[i] / 255;
-    sumSquares += v * v;
+  private emitFrame(frame: AudioFeaturesFrame) {
+    const out = this.autoGainEnabled ? this.autoGain.process(frame, this.audioContext!.currentTime) : frame;
+    for (const cb of this.callbacks) cb(out);
   }
-  const rms = Math.sqrt(sumSquares / n);
-  return rms;
-}
 
-export function computeBands(freq: Uint8Array): { low: number; mid: number; high: number } {
-  // Split bins into thirds as a simple heuristic
-  const n = freq.length;
-  const oneThird = Math.floor(n / 3);
-  const low = average(freq, 0, oneThird);
-  const mid = average(freq, oneThird, 2 * oneThird);
-  const high = average(freq, 2 * oneThird, n);
-  return { low, mid, high };
-}
+  // Loudness normalisation of analysis features only; outputGain is unaffected
+  setAutoGainEnabled(enabled: boolean) {
+    this.autoGainEnabled = enabled;
+    if (!enabled) this.autoGain.reset();
+  }
 
-function average(arr: Uint8Array, from: number, to: number): number {
-  const len = Math.max(1, to - from);
-  let sum = 0;
-  for (let i = from; i < to; i++) sum += arr[i];
-  return sum / len / 255; // normalize 0..1
-}
+  isAutoGainEnabled(): boolean {
+    return this.autoGainEnabled;
+  }
 
-export function computeInstantEnergy(timeData: Uint8Array): number {
-  // Convert 0..255 centered around ~128 to -1..1
-  const n = timeData.length;
-  let sum = 0;
-  for (let i = 0; i < n; i++) {
-    const s = (timeData[i] - 128) / 128;
-    sum += s * s;
+  configureAutoGain(options: Partial<AutoGainOptions>) {
+    this.autoGain.configure(options);
   }
-  return sum / n;
-}
 
-function averageArray(arr: number[]): number {
-  if (arr.length === 0) return 0;
-  let s = 0;
-  for (const v of arr) s += v;
-  return s / arr.length;
-}
+  setBeatSensitivity(s: number) {
+    this.beatSensitivity = Math.max(0, Math.min(1, s));
+    this.tempoTracker.setSensitivity(this.beatSensitivity);
+    this.drumDetector.setSensitivity(this.beatSensitivity);
+  }
 
+  // Prime the live tempo tracker with a known BPM (e.g. from file tags)
+  seedTempo(bpm: number) {
+    this.tempoTracker.seed(bpm);
+  }
+}
 
+// Equal-power crossfade: gains follow sin/cos so summed power stays constant
+function equalPowerCurves(steps = 64): { fadeIn: Float32Array; fadeOut: Float32Array } {
+  const fadeIn = new Float32Array(steps);
+  const fadeOut = new Float32Array(steps);
+  for (let i = 0; i < steps; i++) {
+    const x = (i / (steps - 1)) * (Math.PI / 2);
+    fadeIn[i] = Math.sin(x);
+    fadeOut[i] = Math.cos(x);
+  }
+  return { fadeIn, fadeOut };
+}
@@ -0,0 +1,69 @@
+import workletUrl from './worklets/FeatureExtractorProcessor.ts?worker&url';
+import type { SpectralFeatures } from '../analysis/spectralFeatures';
+import type { FeatureExtractorOptions } from './worklets/FeatureExtractorProcessor';
+
+type FeaturesCallback = (features: SpectralFeatures) => void;
+
+// addModule must run once per context; remember which contexts already have the processor
+const loadedContexts = new WeakSet<BaseAudioContext>();
+
+/**
+ * Main-thread handle for the feature-extractor AudioWorklet. Analysis runs on the audio
+ * thread at a fixed hop size, so results keep arriving even when requestAnimationFrame stalls.
+ */
+export class FeatureExtractorNode {
+  private node: AudioWorkletNode | null = null;
+  private callbacks: Set<FeaturesCallback> = new Set();
+  private latest: SpectralFeatures | null = null;
+
+  async init(context: BaseAudioContext, options: FeatureExtractorOptions = {}): Promise<AudioWorkletNode> {
+    if (this.node) return this.node;
+    if (!loadedContexts.has(context)) {
+      await context.audioWorklet.addModule(workletUrl);
+      loadedContexts.add(context);
+    }
+    const node = new AudioWorkletNode(context, 'feature-extractor', {
+      numberOfInputs: 1,
+      numberOfOutputs: 0,
+      processorOptions: options,
+    });
+    node.port.onmessage = (e: MessageEvent) => {
+      if (e.data?.type !== 'features') return;
+      const features = e.data.features as SpectralFeatures;
+      this.latest = features;
+      for (const cb of this.callbacks) cb(features);
+    };
+    this.node = node;
+    return node;
+  }
+
+  get input(): AudioNode | null {
+    return this.node;
+  }
+
+  getLatest(): SpectralFeatures | null {
+    return this.latest;
+  }
+
+  onFeatures(callback: FeaturesCallback): () => void {
+    this.callbacks.add(callback);
+    return () => this.callbacks.delete(callback);
+  }
+
+  reset() {
+    this.latest = null;
+    this.node?.port.postMessage({ type: 'reset' });
+  }
+
+  dispose() {
+    if (this.node) {
+      this.node.port.onmessage = null;
+      try {
+        this.node.disconnect();
+      } catch {}
+    }
+    this.node = null;
+    this.latest = null;
+    this.callbacks.clear();
+  }
+}
@@ -0,0 +1,93 @@
+// Pseudo device id for system audio captured through getDisplayMedia
+export const SYSTEM_AUDIO_DEVICE = 'system';
+
+export type InputDevice = {
+  deviceId: string;
+  label: string;
+  channels: number; // best guess from capabilities; 2 when the browser does not say
+};
+
+// Contiguous channels taken from a multi-channel input; null = downmix all channels
+export type ChannelSelection = { start: number; count: 1 | 2 } | null;
+
+export type LiveInputSettings = {
+  deviceId: string | null; // null = browser default microphone
+  channels: ChannelSelection;
+  gain: number; // linear input gain before the analyser, 0..4
+  monitor: boolean; // route the input to the speakers as well
+};
+
+const STORAGE_KEY = 'liveInput';
+
+export const DEFAULT_LIVE_INPUT: LiveInputSettings = { deviceId: null, channels: null, gain: 1, monitor: false };
+
+export function loadLiveInputSettings(): LiveInputSettings {
+  try {
+    const raw = localStorage.getItem(STORAGE_KEY);
+    if (!raw) return DEFAULT_LIVE_INPUT;
+    const data = JSON.parse(raw);
+    const ch = data.channels;
+    return {
+      deviceId: typeof data.deviceId === 'string' ? data.deviceId : null,
+      channels: ch && Number.isInteger(ch.start) && ch.start >= 0 && (ch.count === 1 || ch.count === 2) ? { start: ch.start, count: ch.count } : null,
+      gain: typeof data.gain === 'number' ? Math.max(0, Math.min(4, data.gain)) : 1,
+      monitor: data.monitor === true,
+    };
+  } catch {
+    return DEFAULT_LIVE_INPUT;
+  }
+}
+
+export function saveLiveInputSettings(settings: LiveInputSettings) {
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(settings));
+  } catch {}
+}
+
+/**
+ * Audio inputs known to the browser. Labels stay empty until the page has had microphone
+ * permission once, so ask for a throwaway stream first when they are missing.
+ */
+export async function listInputDevices(): Promise<InputDevice[]> {
+  let devices = await navigator.mediaDevices.enumerateDevices();
+  if (devices.some((d) => d.kind === 'audioinput' && !d.label)) {
+    try {
+      const probe = await navigator.mediaDevices.getUserMedia({ audio: true });
+      for (const tr of probe.getTracks()) tr.stop();
+      devices = await navigator.mediaDevices.enumerateDevices();
+    } catch {}
+  }
+  return devices
+    .filter((d) => d.kind === 'audioinput')
+    .map((d, i) => {
+      let channels = 2;
+      try {
+        const caps = (d as InputDeviceInfo).getCapabilities?.();
+        if (caps?.channelCount?.max) channels = caps.channelCount.max;
+      } catch {}
+      return { deviceId: d.deviceId, label: d.label || `Input ${i + 1}`, channels };
+    });
+}
+
+export async function openInputStream(deviceId: string | null): Promise<MediaStream> {
+  if (deviceId === SYSTEM_AUDIO_DEVICE) {
+    const stream = await navigator.mediaDevices.getDisplayMedia({ audio: true, video: false });
+    if (stream.getAudioTracks().length === 0) throw new Error('No system audio in the shared source');
+    return stream;
+  }
+  return navigator.mediaDevices.getUserMedia({
+    audio: {
+      deviceId: deviceId ? { exact: deviceId } : undefined,
+      channelCount: { ideal: 32 },
+      echoCancellation: false,
+      noiseSuppression: false,
+      autoGainControl: false,
+    },
+  });
+}
+
+// Channel count of the first audio track, as reported by the browser
+export function streamChannelCount(stream: MediaStream): number {
+  const track = stream.getAudioTracks()[0];
+  return track?.getSettings().channelCount ?? 2;
+}
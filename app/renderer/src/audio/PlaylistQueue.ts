@@ -0,0 +1,159 @@
+export type RepeatMode = 'off' | 'all' | 'one';
+
+export type QueueItem = {
+  id: string;
+  name: string;
+  file: File;
+};
+
+type ChangeCallback = () => void;
+
+let nextItemId = 1;
+
+/**
+ * Ordered track list with a cursor, shuffle and repeat. Pure bookkeeping: AudioEngine asks it
+ * what plays next and tells it when a track actually started.
+ */
+export class PlaylistQueue {
+  private items: QueueItem[] = [];
+  private currentId: string | null = null;
+  private shuffle = false;
+  private shuffleOrder: string[] = []; // play order of ids while shuffle is on
+  private repeat: RepeatMode = 'off';
+  private callbacks: Set<ChangeCallback> = new Set();
+
+  constructor(private random: () => number = Math.random) {}
+
+  add(files: File[]): QueueItem[] {
+    const added = files.map((file) => ({ id: `q${nextItemId++}`, name: file.name, file }));
+    this.items.push(...added);
+    if (this.shuffle) {
+      // Insert new tracks at random positions after the current one
+      const from = this.currentId ? this.shuffleOrder.indexOf(this.currentId) + 1 : 0;
+      for (const item of added) {
+        const at = from + Math.floor(this.random() * (this.shuffleOrder.length - from + 1));
+        this.shuffleOrder.splice(at, 0, item.id);
+      }
+    }
+    this.emit();
+    return added;
+  }
+
+  remove(id: string) {
+    const idx = this.items.findIndex((i) => i.id === id);
+    if (idx < 0) return;
+    this.items.splice(idx, 1);
+    this.shuffleOrder = this.shuffleOrder.filter((x) => x !== id);
+    if (this.currentId === id) this.currentId = null;
+    this.emit();
+  }
+
+  move(id: string, toIndex: number) {
+    const idx = this.items.findIndex((i) => i.id === id);
+    if (idx < 0) return;
+    const [item] = this.items.splice(idx, 1);
+    const to = Math.max(0, Math.min(this.items.length, toIndex));
+    this.items.splice(to, 0, item);
+    this.emit();
+  }
+
+  clear() {
+    this.items = [];
+    this.shuffleOrder = [];
+    this.currentId = null;
+    this.emit();
+  }
+
+  getItems(): readonly QueueItem[] {
+    return this.items;
+  }
+
+  get(id: string): QueueItem | null {
+    return this.items.find((i) => i.id === id) ?? null;
+  }
+
+  getCurrent(): QueueItem | null {
+    return this.currentId ? this.get(this.currentId) : null;
+  }
+
+  setCurrent(id: string | null) {
+    if (id != null && !this.get(id)) return;
+    this.currentId = id;
+    this.emit();
+  }
+
+  isShuffle(): boolean {
+    return this.shuffle;
+  }
+
+  setShuffle(on: boolean) {
+    this.shuffle = on;
+    if (on) {
+      // Fisher–Yates over the remaining tracks; the current track stays first
+      const ids = this.items.map((i) => i.id).filter((id) => id !== this.currentId);
+      for (let i = ids.length - 1; i > 0; i--) {
+        const j = Math.floor(this.random() * (i + 1));
+        [ids[i], ids[j]] = [ids[j], ids[i]];
+      }
+      this.shuffleOrder = this.currentId ? [this.currentId, ...ids] : ids;
+    } else {
+      this.shuffleOrder = [];
+    }
+    this.emit();
+  }
+
+  getRepeat(): RepeatMode {
+    return this.repeat;
+  }
+
+  setRepeat(mode: RepeatMode) {
+    this.repeat = mode;
+    this.emit();
+  }
+
+  // Track that follows the current one, honoring shuffle/repeat; does not move the cursor
+  peekNext(): QueueItem | null {
+    if (this.items.length === 0) return null;
+    const current = this.getCurrent();
+    if (current && this.repeat === 'one') return current;
+    const order = this.playOrder();
+    if (!current) return this.get(order[0]);
+    const idx = order.indexOf(current.id);
+    if (idx + 1 < order.length) return this.get(order[idx + 1]);
+    return this.repeat === 'all' ? this.get(order[0]) : null;
+  }
+
+  peekPrevious(): QueueItem | null {
+    if (this.items.length === 0) return null;
+    const order = this.playOrder();
+    const current = this.getCurrent();
+    if (!current) return this.get(order[0]);
+    const idx = order.indexOf(current.id);
+    if (idx > 0) return this.get(order[idx - 1]);
+    return this.repeat === 'all' ? this.get(order[order.length - 1]) : current;
+  }
+
+  onChange(callback: ChangeCallback): () => void {
+    this.callbacks.add(callback);
+    return () => this.callbacks.delete(callback);
+  }
+
+  // Fires after a change that leaves a different track (or none) next in line
+  onNextChange(callback: (next: QueueItem | null) => void): () => void {
+    let nextId = this.peekNext()?.id ?? null;
+    return this.onChange(() => {
+      const next = this.peekNext();
+      if ((next?.id ?? null) === nextId) return;
+      nextId = next?.id ?? null;
+      callback(next);
+    });
+  }
+
+  private playOrder(): string[] {
+    return this.shuffle ? this.shuffleOrder : this.items.map((i) => i.id);
+  }
+
+  private emit() {
+    for (const cb of this.callbacks) cb();
+  }
+}
@@ -0,0 +1,64 @@
+import type { BandModel } from '../analysis/BandModel';
+import { computeStereoField, StereoFeatures } from '../analysis/stereoField';
+
+/**
+ * Left/right AnalyserNodes behind a channel splitter, tapped in parallel with the mono analyser.
+ * Mono sources are up-mixed to both sides so they read as centred rather than hard left.
+ */
+export class StereoAnalyser {
+  private splitter: ChannelSplitterNode | null = null;
+  private left: AnalyserNode | null = null;
+  private right: AnalyserNode | null = null;
+  private leftTime = new Float32Array(0);
+  private rightTime = new Float32Array(0);
+  private leftFreq = new Uint8Array(0);
+  private rightFreq = new Uint8Array(0);
+
+  init(context: BaseAudioContext, fftSize = 1024, smoothing = 0.85): AudioNode {
+    if (this.splitter) return this.splitter;
+    const splitter = context.createChannelSplitter(2);
+    try {
+      splitter.channelInterpretation = 'speakers';
+    } catch {}
+    const make = () => {
+      const a = context.createAnalyser();
+      a.fftSize = fftSize;
+      a.smoothingTimeConstant = smoothing;
+      return a;
+    };
+    this.left = make();
+    this.right = make();
+    splitter.connect(this.left, 0);
+    splitter.connect(this.right, 1);
+    this.leftTime = new Float32Array(fftSize);
+    this.rightTime = new Float32Array(fftSize);
+    this.leftFreq = new Uint8Array(fftSize / 2);
+    this.rightFreq = new Uint8Array(fftSize / 2);
+    this.splitter = splitter;
+    return splitter;
+  }
+
+  get input(): AudioNode | null {
+    return this.splitter;
+  }
+
+  read(bands: BandModel): StereoFeatures | null {
+    if (!this.left || !this.right) return null;
+    this.left.getFloatTimeDomainData(this.leftTime);
+    this.right.getFloatTimeDomainData(this.rightTime);
+    this.left.getByteFrequencyData(this.leftFreq);
+    this.right.getByteFrequencyData(this.rightFreq);
+    return computeStereoField(this.leftTime, this.rightTime, this.leftFreq, this.rightFreq, bands);
+  }
+
+  dispose() {
+    for (const node of [this.splitter, this.left, this.right]) {
+      try {
+        node?.disconnect();
+      } catch {}
+    }
+    this.splitter = null;
+    this.left = null;
+    this.right = null;
+  }
+}
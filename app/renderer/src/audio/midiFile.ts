@@ -0,0 +1,219 @@
+import type { DrumOnsets } from '../analysis/DrumOnsetDetector';
+
+export type MidiNote = {
+  track: number;
+  channel: number; // 0..15
+  pitch: number; // MIDI note number
+  velocity: number; // 1..127
+  start: number; // seconds
+  end: number; // seconds
+};
+
+export type MidiEvent = {
+  type: 'on' | 'off';
+  time: number; // seconds on the song clock
+  track: number;
+  channel: number;
+  pitch: number;
+  velocity: number; // note-on velocity, also on the matching off
+};
+
+export type MidiSong = {
+  format: number;
+  trackNames: string[];
+  notes: MidiNote[]; // by start time
+  events: MidiEvent[]; // note-ons and note-offs by time, offs first on ties
+  duration: number; // seconds, end of the last note or track
+};
+
+export class MidiFormatError extends Error {}
+
+// General MIDI percussion channel (channel 10, zero-based)
+export const GM_DRUM_CHANNEL = 9;
+const DEFAULT_TEMPO = 500000; // microseconds per quarter note (120 BPM)
+
+type TempoChange = { tick: number; usPerQuarter: number };
+
+/**
+ * Parses a Standard MIDI File (format 0 or 1) into notes timed in seconds through the
+ * file's tempo map. Only notes (and the tempo/track-name meta events needed for them) are kept.
+ */
+export function parseMidi(bytes: Uint8Array): MidiSong {
+  const r = new Reader(bytes);
+  if (r.ascii(4) !== 'MThd') throw new MidiFormatError('Not a MIDI file');
+  const headerLen = r.u32();
+  const format = r.u16();
+  const trackCount = r.u16();
+  const division = r.u16();
+  r.skip(headerLen - 6);
+  if (format > 1) throw new MidiFormatError(`Unsupported MIDI format ${format}`);
+
+  const tempos: TempoChange[] = [];
+  const trackNames: string[] = [];
+  const raw: { track: number; channel: number; pitch: number; velocity: number; startTick: number; endTick: number }[] = [];
+  let lastTick = 0;
+
+  for (let t = 0; t < trackCount && !r.done; t++) {
+    const id = r.ascii(4);
+    const len = r.u32();
+    const end = r.pos + len;
+    if (id !== 'MTrk') {
+      r.pos = end;
+      continue;
+    }
+    trackNames[t] = '';
+    // Open notes per channel*128+pitch; overlapping repeats close first-in, first-out
+    const open = new Map<number, { velocity: number; tick: number }[]>();
+    let tick = 0;
+    let status = 0;
+    while (r.pos < end) {
+      tick += r.vlq();
+      let byte = r.u8();
+      if (byte < 0x80) {
+        // Running status: reuse the previous status byte, this byte is the first data byte
+        r.pos--;
+        byte = status;
+      } else if (byte < 0xf0) {
+        status = byte;
+      }
+      if (byte === 0xff) {
+        const type = r.u8();
+        const metaLen = r.vlq();
+        if (type === 0x51 && metaLen === 3) tempos.push({ tick, usPerQuarter: (r.u8() << 16) | (r.u8() << 8) | r.u8() });
+        else if (type === 0x03) trackNames[t] = r.ascii(metaLen);
+        else r.skip(metaLen);
+        if (type === 0x2f) break;
+        continue;
+      }
+      if (byte === 0xf0 || byte === 0xf7) {
+        r.skip(r.vlq());
+        continue;
+      }
+      const kind = byte & 0xf0;
+      const channel = byte & 0x0f;
+      if (kind === 0xc0 || kind === 0xd0) {
+        r.u8();
+        continue;
+      }
+      const d1 = r.u8();
+      const d2 = r.u8();
+      if (kind !== 0x80 && kind !== 0x90) continue;
+      const key = channel * 128 + d1;
+      if (kind === 0x90 && d2 > 0) {
+        const list = open.get(key) ?? [];
+        list.push({ velocity: d2, tick });
+        open.set(key, list);
+      } else {
+        const on = open.get(key)?.shift();
+        if (on) raw.push({ track: t, channel, pitch: d1, velocity: on.velocity, startTick: on.tick, endTick: tick });
+      }
+    }
+    // Notes never released end with their track
+    for (const [key, list] of open) {
+      for (const on of list) raw.push({ track: t, channel: key >> 7, pitch: key & 127, velocity: on.velocity, startTick: on.tick, endTick: tick });
+    }
+    lastTick = Math.max(lastTick, tick);
+    r.pos = end;
+  }
+
+  const toSeconds = tickClock(division, tempos);
+  const notes: MidiNote[] = raw
+    .map((n) => ({ track: n.track, channel: n.channel, pitch: n.pitch, velocity: n.velocity, start: toSeconds(n.startTick), end: toSeconds(n.endTick) }))
+    .sort((a, b) => a.start - b.start || a.pitch - b.pitch);
+  const events: MidiEvent[] = [];
+  for (const n of notes) {
+    const base = { track: n.track, channel: n.channel, pitch: n.pitch, velocity: n.velocity };
+    events.push({ type: 'on', time: n.start, ...base }, { type: 'off', time: n.end, ...base });
+  }
+  events.sort((a, b) => a.time - b.time || (a.type === b.type ? 0 : a.type === 'off' ? -1 : 1));
+  return { format, trackNames, notes, events, duration: toSeconds(lastTick) };
+}
+
+// Events with time in (from, to], like the timeline helpers; a render frame never drops a note between frames
+export function midiEventsBetween(song: MidiSong, from: number, to: number): MidiEvent[] {
+  const events = song.events;
+  let lo = 0;
+  let hi = events.length;
+  while (lo < hi) {
+    const mid = (lo + hi) >> 1;
+    if (events[mid].time <= from) lo = mid + 1;
+    else hi = mid;
+  }
+  const out: MidiEvent[] = [];
+  for (let i = lo; i < events.length && events[i].time <= to; i++) out.push(events[i]);
+  return out;
+}
+
+// GM percussion notes as drum onsets (velocity / 127); null when no drum note starts
+export function midiDrumOnsets(events: MidiEvent[]): DrumOnsets | null {
+  let onsets: DrumOnsets | null = null;
+  for (const e of events) {
+    if (e.type !== 'on' || e.channel !== GM_DRUM_CHANNEL) continue;
+    const kind = e.pitch === 35 || e.pitch === 36 ? 'kick' : e.pitch === 38 || e.pitch === 40 || e.pitch === 37 ? 'snare' : e.pitch === 42 || e.pitch === 44 || e.pitch === 46 ? 'hat' : null;
+    if (!kind) continue;
+    onsets ??= { kick: 0, snare: 0, hat: 0 };
+    onsets[kind] = Math.max(onsets[kind], e.velocity / 127);
+  }
+  return onsets;
+}
+
+// Tick -> seconds through the tempo map (or the SMPTE frame rate when the division is time-based)
+function tickClock(division: number, tempos: TempoChange[]): (tick: number) => number {
+  if (division & 0x8000) {
+    const fps = 256 - (division >> 8);
+    const ticksPerFrame = division & 0xff;
+    return (tick) => tick / (fps * ticksPerFrame);
+  }
+  const ppq = division || 480;
+  const changes = [...tempos].sort((a, b) => a.tick - b.tick);
+  if (changes.length === 0 || changes[0].tick > 0) changes.unshift({ tick: 0, usPerQuarter: DEFAULT_TEMPO });
+  // Seconds at each change, so lookups only integrate the last segment
+  const starts: number[] = [0];
+  for (let i = 1; i < changes.length; i++) {
+    starts.push(starts[i - 1] + ((changes[i].tick - changes[i - 1].tick) * changes[i - 1].usPerQuarter) / (ppq * 1e6));
+  }
+  return (tick) => {
+    let i = changes.length - 1;
+    while (i > 0 && changes[i].tick > tick) i--;
+    return starts[i] + ((tick - changes[i].tick) * changes[i].usPerQuarter) / (ppq * 1e6);
+  };
+}
+
+class Reader {
+  pos = 0;
+
+  constructor(private bytes: Uint8Array) {}
+
+  get done() {
+    return this.pos >= this.bytes.length;
+  }
+
+  u8(): number {
+    if (this.pos >= this.bytes.length) throw new MidiFormatError('Truncated MIDI file');
+    return this.bytes[this.pos++];
+  }
+  u16(): number {
+    return (this.u8() << 8) | this.u8();
+  }
+  u32(): number {
+    return ((this.u8() << 24) | (this.u8() << 16) | (this.u8() << 8) | this.u8()) >>> 0;
+  }
+  // Variable-length quantity: 7 bits per byte, high bit set on all but the last
+  vlq(): number {
+    let v = 0;
+    for (let i = 0; i < 4; i++) {
+      const b = this.u8();
+      v = (v << 7) | (b & 0x7f);
+      if (!(b & 0x80)) break;
+    }
+    return v;
+  }
+  ascii(n: number): string {
+    let s = '';
+    for (let i = 0; i < n; i++) s += String.fromCharCode(this.u8());
+    return s;
+  }
+  skip(n: number) {
+    this.pos += n;
+  }
+}
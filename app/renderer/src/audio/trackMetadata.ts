@@ -0,0 +1,399 @@
+import type { KeyMode } from '../analysis/HarmonyAnalyzer';
+
+export type TrackPicture = { mime: string; data: Uint8Array };
+
+export type TrackMetadata = {
+  title?: string;
+  artist?: string;
+  album?: string;
+  bpm?: number;
+  key?: { key: number; mode: KeyMode }; // parsed from the key tag when it is readable
+  picture?: TrackPicture; // front cover when tagged as such, else the first picture
+};
+
+const latin1 = new TextDecoder('latin1');
+const utf8 = new TextDecoder('utf-8');
+
+/**
+ * Reads tags from the start of an audio file: ID3v2 (MP3 and others), FLAC metadata blocks,
+ * Ogg Vorbis/Opus comment headers and MP4/M4A `ilst` atoms. Unknown or damaged input yields {}.
+ */
+export function parseMetadata(bytes: Uint8Array): TrackMetadata {
+  try {
+    if (ascii(bytes, 0, 3) === 'ID3') return parseId3(bytes);
+    if (ascii(bytes, 0, 4) === 'fLaC') return parseFlac(bytes);
+    if (ascii(bytes, 0, 4) === 'OggS') return parseOgg(bytes);
+    if (ascii(bytes, 4, 8) === 'ftyp') return parseMp4(bytes);
+  } catch (err) {
+    console.warn('Tag parsing failed', err);
+  }
+  return {};
+}
+
+// --- ID3v2.2 / 2.3 / 2.4 ---
+
+function parseId3(bytes: Uint8Array): TrackMetadata {
+  const version = bytes[3];
+  const flags = bytes[5];
+  const size = syncsafe(bytes, 6);
+  let body = bytes.subarray(10, Math.min(bytes.length, 10 + size));
+  // Tag-wide unsynchronisation (v2.4 flags it per frame instead)
+  if (flags & 0x80 && version < 4) body = unsynchronise(body);
+  let pos = 0;
+  if (flags & 0x40 && version >= 3) pos = version === 4 ? syncsafe(body, 0) : u32be(body, 0) + 4;
+
+  const meta: TrackMetadata = {};
+  const idLen = version === 2 ? 3 : 4;
+  const headerLen = version === 2 ? 6 : 10;
+  while (pos + headerLen <= body.length) {
+    const id = ascii(body, pos, pos + idLen);
+    if (!/^[A-Z0-9]+$/.test(id)) break; // padding
+    const frameSize = version === 2 ? (body[pos + 3] << 16) | (body[pos + 4] << 8) | body[pos + 5] : version === 4 ? syncsafe(body, pos + 4) : u32be(body, pos + 4);
+    const formatFlags = version === 2 ? 0 : body[pos + 9];
+    let data = body.subarray(pos + headerLen, Math.min(body.length, pos + headerLen + frameSize));
+    pos += headerLen + frameSize;
+    if (version === 4) {
+      if (formatFlags & 0x0c) continue; // compressed or encrypted
+      if (formatFlags & 0x02) data = unsynchronise(data);
+      if (formatFlags & 0x40) data = data.subarray(1); // group id
+      if (formatFlags & 0x01) data = data.subarray(4); // data length indicator
+    } else if (version === 3) {
+      if (formatFlags & 0xc0) continue; // compressed or encrypted
+      if (formatFlags & 0x20) data = data.subarray(1); // group id
+    }
+    switch (id) {
+      case 'TIT2':
+      case 'TT2':
+        meta.title ??= id3Text(data);
+        break;
+      case 'TPE1':
+      case 'TP1':
+        meta.artist ??= id3Text(data);
+        break;
+      case 'TALB':
+      case 'TAL':
+        meta.album ??= id3Text(data);
+        break;
+      case 'TBPM':
+      case 'TBP':
+        meta.bpm ??= parseBpm(id3Text(data));
+        break;
+      case 'TKEY':
+      case 'TKE':
+        meta.key ??= parseKeyTag(id3Text(data) ?? '') ?? undefined;
+        break;
+      case 'APIC':
+      case 'PIC': {
+        const pic = id3Picture(data, version === 2);
+        if (pic && (!meta.picture || pic.front)) meta.picture = { mime: pic.mime, data: pic.data };
+        break;
+      }
+    }
+  }
+  return meta;
+}
+
+function id3Text(data: Uint8Array): string | undefined {
+  if (data.length < 1) return undefined;
+  const text = decodeText(data.subarray(1), data[0]);
+  // v2.4 separates multiple values with NUL; keep the first
+  const first = text.split('\u0000')[0].trim();
+  return first || undefined;
+}
+
+function id3Picture(data: Uint8Array, v22: boolean): { mime: string; data: Uint8Array; front: boolean } | null {
+  const encoding = data[0];
+  let pos = 1;
+  let mime: string;
+  if (v22) {
+    const format = ascii(data, 1, 4).toLowerCase();
+    mime = format === 'png' ? 'image/png' : 'image/jpeg';
+    pos = 4;
+  } else {
+    const end = data.indexOf(0, pos);
+    if (end < 0) return null;
+    mime = ascii(data, pos, end) || 'image/jpeg';
+    if (!mime.includes('/')) mime = `image/${mime.toLowerCase()}`;
+    pos = end + 1;
+  }
+  const pictureType = data[pos++];
+  pos = skipTerminated(data, pos, encoding);
+  if (pos >= data.length) return null;
+  return { mime, data: data.slice(pos), front: pictureType === 3 };
+}
+
+// Skip a NUL-terminated string in the given ID3 text encoding (UTF-16 ends on an aligned 0x0000)
+function skipTerminated(data: Uint8Array, pos: number, encoding: number): number {
+  if (encoding === 1 || encoding === 2) {
+    while (pos + 1 < data.length && (data[pos] !== 0 || data[pos + 1] !== 0)) pos += 2;
+    return pos + 2;
+  }
+  while (pos < data.length && data[pos] !== 0) pos++;
+  return pos + 1;
+}
+
+function decodeText(data: Uint8Array, encoding: number): string {
+  switch (encoding) {
+    case 1: {
+      // UTF-16 with BOM
+      if (data[0] === 0xfe && data[1] === 0xff) return new TextDecoder('utf-16be').decode(data.subarray(2));
+      if (data[0] === 0xff && data[1] === 0xfe) return new TextDecoder('utf-16le').decode(data.subarray(2));
+      return new TextDecoder('utf-16le').decode(data);
+    }
+    case 2:
+      return new TextDecoder('utf-16be').decode(data);
+    case 3:
+      return utf8.decode(data);
+    default:
+      return latin1.decode(data);
+  }
+}
+
+function unsynchronise(data: Uint8Array): Uint8Array {
+  const out = new Uint8Array(data.length);
+  let n = 0;
+  for (let i = 0; i < data.length; i++) {
+    out[n++] = data[i];
+    if (data[i] === 0xff && data[i + 1] === 0x00) i++;
+  }
+  return out.subarray(0, n);
+}
+
+// --- FLAC metadata blocks and Vorbis comments ---
+
+function parseFlac(bytes: Uint8Array): TrackMetadata {
+  const meta: TrackMetadata = {};
+  let pos = 4;
+  while (pos + 4 <= bytes.length) {
+    const header = bytes[pos];
+    const type = header & 0x7f;
+    const len = (bytes[pos + 1] << 16) | (bytes[pos + 2] << 8) | bytes[pos + 3];
+    const block = bytes.subarray(pos + 4, Math.min(bytes.length, pos + 4 + len));
+    if (type === 4) applyVorbisComments(meta, block);
+    else if (type === 6) {
+      const pic = flacPicture(block);
+      if (pic && (!meta.picture || pic.front)) meta.picture = { mime: pic.mime, data: pic.data };
+    }
+    pos += 4 + len;
+    if (header & 0x80) break; // last metadata block
+  }
+  return meta;
+}
+
+function applyVorbisComments(meta: TrackMetadata, block: Uint8Array) {
+  const view = new DataView(block.buffer, block.byteOffset, block.byteLength);
+  let pos = 4 + view.getUint32(0, true); // vendor string
+  const count = view.getUint32(pos, true);
+  pos += 4;
+  for (let i = 0; i < count && pos + 4 <= block.length; i++) {
+    const len = view.getUint32(pos, true);
+    const entry = utf8.decode(block.subarray(pos + 4, pos + 4 + len));
+    pos += 4 + len;
+    const eq = entry.indexOf('=');
+    if (eq < 0) continue;
+    const name = entry.slice(0, eq).toUpperCase();
+    const value = entry.slice(eq + 1).trim();
+    if (!value) continue;
+    if (name === 'TITLE') meta.title ??= value;
+    else if (name === 'ARTIST') meta.artist ??= value;
+    else if (name === 'ALBUM') meta.album ??= value;
+    else if (name === 'BPM' || name === 'TEMPO') meta.bpm ??= parseBpm(value);
+    else if (name === 'INITIALKEY' || name === 'KEY') meta.key ??= parseKeyTag(value) ?? undefined;
+    else if (name === 'METADATA_BLOCK_PICTURE') {
+      const pic = flacPicture(base64(value));
+      if (pic && (!meta.picture || pic.front)) meta.picture = { mime: pic.mime, data: pic.data };
+    }
+  }
+}
+
+function flacPicture(block: Uint8Array): { mime: string; data: Uint8Array; front: boolean } | null {
+  if (block.length < 32) return null;
+  const view = new DataView(block.buffer, block.byteOffset, block.byteLength);
+  const type = view.getUint32(0);
+  const mimeLen = view.getUint32(4);
+  const mime = ascii(block, 8, 8 + mimeLen);
+  let pos = 8 + mimeLen;
+  pos += 4 + view.getUint32(pos); // description
+  pos += 16; // width, height, depth, colours
+  const len = view.getUint32(pos);
+  pos += 4;
+  if (pos + len > block.length) return null;
+  return { mime: mime || 'image/jpeg', data: block.slice(pos, pos + len), front: type === 3 };
+}
+
+// --- Ogg Vorbis / Opus: the comment header is the second packet ---
+
+function parseOgg(bytes: Uint8Array): TrackMetadata {
+  const packets: Uint8Array[] = [];
+  let chunks: Uint8Array[] = [];
+  let pos = 0;
+  while (pos + 27 <= bytes.length && ascii(bytes, pos, pos + 4) === 'OggS' && packets.length < 2) {
+    const segments = bytes[pos + 26];
+    let dataPos = pos + 27 + segments;
+    for (let s = 0; s < segments && packets.length < 2; s++) {
+      const lace = bytes[pos + 27 + s];
+      chunks.push(bytes.subarray(dataPos, dataPos + lace));
+      dataPos += lace;
+      if (lace < 255) {
+        packets.push(concat(chunks));
+        chunks = [];
+      }
+    }
+    pos = dataPos;
+  }
+  const meta: TrackMetadata = {};
+  const tags = packets[1];
+  if (!tags) return meta;
+  if (ascii(tags, 1, 7) === 'vorbis' && tags[0] === 3) applyVorbisComments(meta, tags.subarray(7));
+  else if (ascii(tags, 0, 8) === 'OpusTags') applyVorbisComments(meta, tags.subarray(8));
+  return meta;
+}
+
+// --- MP4 / M4A: moov > udta > meta > ilst ---
+
+function parseMp4(bytes: Uint8Array): TrackMetadata {
+  const meta: TrackMetadata = {};
+  const moov = findBox(bytes, 0, bytes.length, 'moov');
+  const udta = moov && findBox(bytes, moov.start, moov.end, 'udta');
+  const metaBox = udta && findBox(bytes, udta.start, udta.end, 'meta');
+  if (!metaBox) return meta;
+  // ISO `meta` is a full box (4 bytes version/flags); QuickTime-style files omit them
+  const metaStart = ascii(bytes, metaBox.start + 4, metaBox.start + 8) === 'hdlr' ? metaBox.start : metaBox.start + 4;
+  const ilst = findBox(bytes, metaStart, metaBox.end, 'ilst');
+  if (!ilst) return meta;
+  for (const item of boxes(bytes, ilst.start, ilst.end)) {
+    if (item.type === '----') {
+      // Freeform item: mean / name / data
+      let name = '';
+      let value: Uint8Array | null = null;
+      for (const child of boxes(bytes, item.start, item.end)) {
+        if (child.type === 'name') name = utf8.decode(bytes.subarray(child.start + 4, child.end)).toUpperCase();
+        else if (child.type === 'data') value = bytes.subarray(child.start + 8, child.end);
+      }
+      if (!value) continue;
+      if (name === 'INITIALKEY' || name === 'KEY') meta.key ??= parseKeyTag(utf8.decode(value)) ?? undefined;
+      else if (name === 'BPM') meta.bpm ??= parseBpm(utf8.decode(value));
+      continue;
+    }
+    const data = findBox(bytes, item.start, item.end, 'data');
+    if (!data) continue;
+    const kind = u32be(bytes, data.start) & 0xffffff;
+    const payload = bytes.subarray(data.start + 8, data.end);
+    switch (item.type) {
+      case '©nam':
+        meta.title ??= utf8.decode(payload).trim() || undefined;
+        break;
+      case '©ART':
+      case 'aART':
+        meta.artist ??= utf8.decode(payload).trim() || undefined;
+        break;
+      case '©alb':
+        meta.album ??= utf8.decode(payload).trim() || undefined;
+        break;
+      case 'tmpo':
+        if (payload.length >= 2) meta.bpm ??= parseBpm(String((payload[0] << 8) | payload[1]));
+        break;
+      case 'covr':
+        meta.picture ??= { mime: kind === 14 ? 'image/png' : 'image/jpeg', data: payload.slice() };
+        break;
+    }
+  }
+  return meta;
+}
+
+type Box = { type: string; start: number; end: number }; // start/end of the payload
+
+function* boxes(bytes: Uint8Array, from: number, to: number): Generator<Box> {
+  let pos = from;
+  while (pos + 8 <= to) {
+    let size = u32be(bytes, pos);
+    const type = latin1.decode(bytes.subarray(pos + 4, pos + 8));
+    let header = 8;
+    if (size === 1) {
+      size = u32be(bytes, pos + 8) * 2 ** 32 + u32be(bytes, pos + 12);
+      header = 16;
+    } else if (size === 0) {
+      size = to - pos;
+    }
+    if (size < header) return;
+    yield { type, start: pos + header, end: Math.min(to, pos + size) };
+    pos += size;
+  }
+}
+
+function findBox(bytes: Uint8Array, from: number, to: number, type: string): Box | null {
+  for (const box of boxes(bytes, from, to)) if (box.type === type) return box;
+  return null;
+}
+
+// --- Tag values ---
+
+const NOTE_INDEX: Record<string, number> = { C: 0, D: 2, E: 4, F: 5, G: 7, A: 9, B: 11 };
+
+/**
+ * Understands "Am", "F# minor", "Bbmaj", Camelot ("8A" = A minor, "8B" = C major)
+ * and Open Key ("1m" = A minor, "1d" = C major). Returns null for anything else.
+ */
+export function parseKeyTag(text: string): { key: number; mode: KeyMode } | null {
+  const t = text.trim();
+  const camelot = /^(\d{1,2})\s*([AB])$/i.exec(t);
+  if (camelot) {
+    const n = Number(camelot[1]);
+    if (n < 1 || n > 12) return null;
+    const major = mod12((n - 8) * 7);
+    return camelot[2].toUpperCase() === 'B' ? { key: major, mode: 'major' } : { key: mod12(major + 9), mode: 'minor' };
+  }
+  const openKey = /^(\d{1,2})\s*([dm])$/.exec(t);
+  if (openKey) {
+    const n = Number(openKey[1]);
+    if (n < 1 || n > 12) return null;
+    const major = mod12((n - 1) * 7);
+    return openKey[2] === 'd' ? { key: major, mode: 'major' } : { key: mod12(major + 9), mode: 'minor' };
+  }
+  const named = /^([A-Ga-g])\s*([#♯b♭]?)\s*(m|min|minor|maj|major|M)?$/.exec(t);
+  if (!named) return null;
+  const accidental = named[2] === '#' || named[2] === '♯' ? 1 : named[2] === 'b' || named[2] === '♭' ? -1 : 0;
+  const quality = named[3] ?? '';
+  const minor = quality === 'm' || quality.toLowerCase().startsWith('min');
+  return { key: mod12(NOTE_INDEX[named[1].toUpperCase()] + accidental), mode: minor ? 'minor' : 'major' };
+}
+
+function parseBpm(text: string | undefined): number | undefined {
+  const bpm = parseFloat(text ?? '');
+  return bpm > 0 && bpm < 400 ? bpm : undefined;
+}
+
+// --- Bytes ---
+
+function ascii(bytes: Uint8Array, from: number, to: number): string {
+  return latin1.decode(bytes.subarray(from, Math.min(to, bytes.length)));
+}
+
+function u32be(bytes: Uint8Array, pos: number): number {
+  return ((bytes[pos] << 24) | (bytes[pos + 1] << 16) | (bytes[pos + 2] << 8) | bytes[pos + 3]) >>> 0;
+}
+
+function syncsafe(bytes: Uint8Array, pos: number): number {
+  return ((bytes[pos] & 0x7f) << 21) | ((bytes[pos + 1] & 0x7f) << 14) | ((bytes[pos + 2] & 0x7f) << 7) | (bytes[pos + 3] & 0x7f);
+}
+
+function concat(chunks: Uint8Array[]): Uint8Array {
+  const out = new Uint8Array(chunks.reduce((n, c) => n + c.length, 0));
+  let pos = 0;
+  for (const c of chunks) {
+    out.set(c, pos);
+    pos += c.length;
+  }
+  return out;
+}
+
+function base64(text: string): Uint8Array {
+  const bin = atob(text.replace(/\s+/g, ''));
+  const out = new Uint8Array(bin.length);
+  for (let i = 0; i < bin.length; i++) out[i] = bin.charCodeAt(i);
+  return out;
+}
+
+function mod12(n: number): number {
+  return ((n % 12) + 12) % 12;
+}
@@ -0,0 +1,83 @@
+export type WavAudio = {
+  sampleRate: number;
+  channels: Float32Array[]; // -1..1 per channel
+};
+
+export class WavFormatError extends Error {}
+
+const FORMAT_PCM = 1;
+const FORMAT_FLOAT = 3;
+const FORMAT_EXTENSIBLE = 0xfffe;
+
+/**
+ * Decodes RIFF/WAVE PCM (8/16/24/32-bit integer) and 32/64-bit float files. Used where no
+ * AudioContext is available to decode, e.g. the Node-side evaluation scripts.
+ */
+export function decodeWav(bytes: Uint8Array): WavAudio {
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  const tag = (pos: number) => String.fromCharCode(bytes[pos], bytes[pos + 1], bytes[pos + 2], bytes[pos + 3]);
+  if (bytes.length < 12 || tag(0) !== 'RIFF' || tag(8) !== 'WAVE') throw new WavFormatError('Not a WAV file');
+
+  let format = 0;
+  let channelCount = 0;
+  let sampleRate = 0;
+  let bits = 0;
+  let data: { start: number; length: number } | null = null;
+  for (let pos = 12; pos + 8 <= bytes.length; ) {
+    const id = tag(pos);
+    const size = view.getUint32(pos + 4, true);
+    const body = pos + 8;
+    if (id === 'fmt ' && size >= 16) {
+      format = view.getUint16(body, true);
+      channelCount = view.getUint16(body + 2, true);
+      sampleRate = view.getUint32(body + 4, true);
+      bits = view.getUint16(body + 14, true);
+      // Extensible headers carry the real format in the first two bytes of the sub-format GUID
+      if (format === FORMAT_EXTENSIBLE && size >= 26) format = view.getUint16(body + 24, true);
+    } else if (id === 'data') {
+      data = { start: body, length: Math.min(size, bytes.length - body) };
+    }
+    pos = body + size + (size & 1); // chunks are word-aligned
+  }
+  if (!data || channelCount === 0 || sampleRate === 0) throw new WavFormatError('WAV file has no fmt or data chunk');
+  const float = format === FORMAT_FLOAT && (bits === 32 || bits === 64);
+  const int = format === FORMAT_PCM && (bits === 8 || bits === 16 || bits === 24 || bits === 32);
+  if (!float && !int) throw new WavFormatError(`Unsupported WAV encoding (format ${format}, ${bits}-bit)`);
+
+  const bytesPerSample = bits / 8;
+  const frameCount = Math.floor(data.length / (bytesPerSample * channelCount));
+  const channels = Array.from({ length: channelCount }, () => new Float32Array(frameCount));
+  let pos = data.start;
+  for (let i = 0; i < frameCount; i++) {
+    for (let c = 0; c < channelCount; c++) {
+      channels[c][i] = readSample(view, pos, bits, float);
+      pos += bytesPerSample;
+    }
+  }
+  return { sampleRate, channels };
+}
+
+function readSample(view: DataView, pos: number, bits: number, float: boolean): number {
+  if (float) return bits === 32 ? view.getFloat32(pos, true) : view.getFloat64(pos, true);
+  switch (bits) {
+    case 8:
+      return (view.getUint8(pos) - 128) / 128; // 8-bit WAV is unsigned
+    case 16:
+      return view.getInt16(pos, true) / 32768;
+    case 24: {
+      const v = view.getUint8(pos) | (view.getUint8(pos + 1) << 8) | (view.getInt8(pos + 2) << 16);
+      return v / 8388608;
+    }
+    default:
+      return view.getInt32(pos, true) / 2147483648;
+  }
+}
+
+// Average of all channels
+export function mixdown(audio: WavAudio): Float32Array {
+  const [first, ...rest] = audio.channels;
+  if (rest.length === 0) return first;
+  const out = new Float32Array(first.length);
+  for (const ch of audio.channels) for (let i = 0; i < out.length; i++) out[i] += ch[i] / audio.channels.length;
+  return out;
+}
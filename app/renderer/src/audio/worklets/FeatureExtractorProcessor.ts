@@ -0,0 +1,79 @@
+// Runs inside AudioWorkletGlobalScope. Bundled separately by Vite (imported with ?worker&url).
+import { DEFAULT_FRAME_SIZE, DEFAULT_HOP_SIZE, SpectralExtractor } from '../../analysis/spectralFeatures';
+
+// AudioWorkletGlobalScope is not part of the DOM lib typings
+declare const sampleRate: number;
+declare const currentTime: number;
+declare class AudioWorkletProcessor {
+  readonly port: MessagePort;
+  constructor(options?: AudioWorkletNodeOptions);
+}
+declare function registerProcessor(name: string, ctor: typeof AudioWorkletProcessor): void;
+
+export type FeatureExtractorOptions = {
+  frameSize?: number; // power of two
+  hopSize?: number; // samples between analysis frames
+};
+
+class FeatureExtractorProcessor extends AudioWorkletProcessor {
+  private frameSize: number;
+  private hopSize: number;
+  private ring: Float32Array;
+  private frame: Float32Array;
+  private writeIndex = 0;
+  private samplesSinceHop = 0;
+  private filled = 0;
+  private extractor: SpectralExtractor;
+
+  constructor(options?: AudioWorkletNodeOptions) {
+    super(options);
+    const opts = (options?.processorOptions ?? {}) as FeatureExtractorOptions;
+    this.frameSize = opts.frameSize ?? DEFAULT_FRAME_SIZE;
+    this.hopSize = opts.hopSize ?? DEFAULT_HOP_SIZE;
+    this.ring = new Float32Array(this.frameSize);
+    this.frame = new Float32Array(this.frameSize);
+    this.extractor = new SpectralExtractor(this.frameSize, sampleRate);
+    this.port.onmessage = (e: MessageEvent) => {
+      if (e.data?.type === 'reset') this.reset();
+    };
+  }
+
+  process(inputs: Float32Array[][]): boolean {
+    const input = inputs[0];
+    if (!input || input.length === 0) return true;
+    const channels = input.length;
+    const n = input[0].length;
+    for (let i = 0; i < n; i++) {
+      // Downmix to mono
+      let s = 0;
+      for (let c = 0; c < channels; c++) s += input[c][i];
+      this.ring[this.writeIndex] = s / channels;
+      this.writeIndex = (this.writeIndex + 1) % this.frameSize;
+      if (this.filled < this.frameSize) this.filled++;
+      if (++this.samplesSinceHop >= this.hopSize) {
+        this.samplesSinceHop = 0;
+        if (this.filled === this.frameSize) this.emit(currentTime + (i + 1) / sampleRate);
+      }
+    }
+    return true;
+  }
+
+  private emit(time: number) {
+    // Unroll the ring so the oldest sample comes first
+    const head = this.frameSize - this.writeIndex;
+    this.frame.set(this.ring.subarray(this.writeIndex), 0);
+    this.frame.set(this.ring.subarray(0, this.writeIndex), head);
+    const features = this.extractor.extract(this.frame, time);
+    this.port.postMessage({ type: 'features', features });
+  }
+
+  private reset() {
+    this.ring.fill(0);
+    this.writeIndex = 0;
+    this.samplesSinceHop = 0;
+    this.filled = 0;
+    this.extractor.reset();
+  }
+}
+
+registerProcessor('feature-extractor', FeatureExtractorProcessor);
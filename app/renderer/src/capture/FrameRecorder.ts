@@ -0,0 +1,52 @@
+import type { AudioFeaturesFrame } from '../audio/AudioEngine';
+import { Capture, CaptureDecision, CaptureHeader, CaptureRecord, createHeader } from './frameFormat';
+
+type FrameSource = { onFrame(callback: (frame: AudioFeaturesFrame) => void): () => void };
+type DecisionSource = { onDecision(callback: (decision: CaptureDecision) => void): () => void };
+
+/**
+ * Collects the engine's frame stream (and optionally the scene's instrument/effect decisions)
+ * with millisecond timestamps relative to start(). Encode the result with frameFormat.
+ */
+export class FrameRecorder {
+  private records: CaptureRecord[] = [];
+  private header: CaptureHeader | null = null;
+  private startedAt = 0;
+  private unsubscribers: (() => void)[] = [];
+
+  constructor(private now: () => number = () => performance.now()) {}
+
+  start(frames: FrameSource, decisions?: DecisionSource | null, source?: string) {
+    this.stop();
+    this.records = [];
+    this.header = createHeader(source);
+    this.startedAt = this.now();
+    this.unsubscribers.push(
+      frames.onFrame((frame) => this.records.push({ kind: 'frame', t: this.now() - this.startedAt, frame })),
+    );
+    if (decisions) {
+      this.unsubscribers.push(
+        decisions.onDecision((decision) => this.records.push({ kind: 'decision', t: this.now() - this.startedAt, decision })),
+      );
+    }
+  }
+
+  // Stops listening and returns everything recorded since start(); null if never started
+  stop(): Capture | null {
+    for (const off of this.unsubscribers) off();
+    this.unsubscribers = [];
+    if (!this.header) return null;
+    const capture = { header: this.header, records: this.records };
+    this.header = null;
+    this.records = [];
+    return capture;
+  }
+
+  isRecording(): boolean {
+    return this.header != null;
+  }
+
+  getRecordCount(): number {
+    return this.records.length;
+  }
+}
@@ -0,0 +1,108 @@
+import type { AudioFeaturesFrame } from '../audio/AudioEngine';
+import type { Capture, CaptureDecision, CaptureRecord } from './frameFormat';
+
+type FrameCallback = (frame: AudioFeaturesFrame) => void;
+type DecisionCallback = (decision: CaptureDecision) => void;
+type VoidCallback = () => void;
+
+/**
+ * Plays a recorded capture back with its original timing, without any audio device.
+ * Exposes the same onFrame subscription as AudioEngine so the scene wiring stays identical.
+ */
+export class FrameReplaySource {
+  private records: CaptureRecord[];
+  private cursor = 0; // next record to emit
+  private position = 0; // ms into the capture
+  private playingSince: number | null = null; // clock time matching position 0 while playing
+  private rafId: number | null = null;
+  private frameCallbacks: Set<FrameCallback> = new Set();
+  private decisionCallbacks: Set<DecisionCallback> = new Set();
+  private endedCallbacks: Set<VoidCallback> = new Set();
+
+  constructor(capture: Capture, private now: () => number = () => performance.now()) {
+    this.records = [...capture.records].sort((a, b) => a.t - b.t);
+  }
+
+  getDuration(): number {
+    return this.records.length ? this.records[this.records.length - 1].t : 0;
+  }
+
+  getPosition(): number {
+    return this.playingSince != null ? this.now() - this.playingSince : this.position;
+  }
+
+  isPlaying(): boolean {
+    return this.playingSince != null;
+  }
+
+  play() {
+    if (this.playingSince != null) return;
+    if (this.cursor >= this.records.length) this.seek(0);
+    this.playingSince = this.now() - this.position;
+    this.loop();
+  }
+
+  pause() {
+    if (this.playingSince == null) return;
+    this.position = this.getPosition();
+    this.playingSince = null;
+    if (this.rafId != null) cancelAnimationFrame(this.rafId);
+    this.rafId = null;
+  }
+
+  // Jumps without emitting the skipped records
+  seek(ms: number) {
+    const target = Math.max(0, Math.min(this.getDuration(), ms));
+    this.position = target;
+    if (this.playingSince != null) this.playingSince = this.now() - target;
+    this.cursor = this.records.findIndex((r) => r.t >= target);
+    if (this.cursor < 0) this.cursor = this.records.length;
+  }
+
+  stop() {
+    this.pause();
+    this.seek(0);
+  }
+
+  // Emits every record up to `ms`; the render loop calls this, tests can call it directly
+  advanceTo(ms: number) {
+    while (this.cursor < this.records.length && this.records[this.cursor].t <= ms) {
+      const rec = this.records[this.cursor++];
+      if (rec.kind === 'frame') for (const cb of this.frameCallbacks) cb(rec.frame);
+      else for (const cb of this.decisionCallbacks) cb(rec.decision);
+    }
+    this.position = ms;
+    if (this.cursor >= this.records.length) {
+      this.pause();
+      for (const cb of this.endedCallbacks) cb();
+    }
+  }
+
+  onFrame(callback: FrameCallback): () => void {
+    this.frameCallbacks.add(callback);
+    return () => this.frameCallbacks.delete(callback);
+  }
+
+  onDecision(callback: DecisionCallback): () => void {
+    this.decisionCallbacks.add(callback);
+    return () => this.decisionCallbacks.delete(callback);
+  }
+
+  onEnded(callback: VoidCallback): () => void {
+    this.endedCallbacks.add(callback);
+    return () => this.endedCallbacks.delete(callback);
+  }
+
+  dispose() {
+    this.pause();
+    this.frameCallbacks.clear();
+    this.decisionCallbacks.clear();
+    this.endedCallbacks.clear();
+  }
+
+  private loop = () => {
+    if (this.playingSince == null) return;
+    this.advanceTo(this.getPosition());
+    if (this.playingSince != null) this.rafId = requestAnimationFrame(this.loop);
+  };
+}
@@ -0,0 +1,51 @@
+import type { AudioFeaturesFrame } from '../audio/AudioEngine';
+
+type FrameCallback = (frame: AudioFeaturesFrame) => void;
+type FrameSource = { onFrame(callback: FrameCallback): () => void };
+
+/**
+ * The frame stream the scene follows: the engine's, or a replay's while one is attached.
+ * The engine keeps analysing live input and the test tone during a replay, so its frames
+ * are dropped here rather than mixed into the recorded ones.
+ */
+export class FrameSwitch {
+  private callbacks: Set<FrameCallback> = new Set();
+  private offLive: () => void;
+  private offReplay: (() => void) | null = null;
+
+  constructor(live: FrameSource) {
+    this.offLive = live.onFrame((frame) => {
+      if (!this.offReplay) this.emit(frame);
+    });
+  }
+
+  isReplaying(): boolean {
+    return this.offReplay != null;
+  }
+
+  // Follows `replay` instead of the live source until endReplay
+  startReplay(replay: FrameSource) {
+    this.endReplay();
+    this.offReplay = replay.onFrame((frame) => this.emit(frame));
+  }
+
+  endReplay() {
+    this.offReplay?.();
+    this.offReplay = null;
+  }
+
+  onFrame(callback: FrameCallback) {
+    this.callbacks.add(callback);
+    return () => this.callbacks.delete(callback);
+  }
+
+  dispose() {
+    this.endReplay();
+    this.offLive();
+    this.callbacks.clear();
+  }
+
+  private emit(frame: AudioFeaturesFrame) {
+    for (const cb of this.callbacks) cb(frame);
+  }
+}
@@ -0,0 +1,264 @@
+import type { AudioFeaturesFrame } from '../audio/AudioEngine';
+
+export const CAPTURE_FORMAT = 'mv-frames';
+export const CAPTURE_VERSION = 1;
+export const CAPTURE_EXTENSION = 'mvcap'; // binary variant; the JSONL variant uses .jsonl
+
+export type CaptureHeader = {
+  format: typeof CAPTURE_FORMAT;
+  version: number;
+  createdAt: string; // ISO timestamp
+  source?: string; // track name or "Live Input"
+};
+
+// Scene-side choices made while the frames played, so a replay can be compared against them
+// `instrument` is the single-label field of captures made before multi-label detection
+export type CaptureDecision = { instruments?: { instrument: string; confidence: number }[]; instrument?: string; effect?: string };
+
+export type CaptureRecord =
+  | { kind: 'frame'; t: number; frame: AudioFeaturesFrame } // t: ms since recording started
+  | { kind: 'decision'; t: number; decision: CaptureDecision };
+
+export type Capture = {
+  header: CaptureHeader;
+  records: CaptureRecord[];
+};
+
+export class CaptureFormatError extends Error {}
+
+export function createHeader(source?: string): CaptureHeader {
+  return { format: CAPTURE_FORMAT, version: CAPTURE_VERSION, createdAt: new Date().toISOString(), source };
+}
+
+function checkHeader(value: unknown): CaptureHeader {
+  const header = (value && typeof value === 'object' ? value : {}) as Record<string, unknown>;
+  if (header.format !== CAPTURE_FORMAT) throw new CaptureFormatError('Not a frame capture');
+  if (typeof header.version !== 'number' || header.version > CAPTURE_VERSION) {
+    throw new CaptureFormatError(`Unsupported capture version ${header.version}`);
+  }
+  return {
+    format: CAPTURE_FORMAT,
+    version: header.version,
+    createdAt: typeof header.createdAt === 'string' ? header.createdAt : '',
+    source: typeof header.source === 'string' ? header.source : undefined,
+  };
+}
+
+// --- JSONL: header on the first line, one record per following line ---
+
+export function encodeJsonl(capture: Capture): string {
+  const lines = [JSON.stringify(capture.header)];
+  for (const r of capture.records) lines.push(JSON.stringify(r));
+  return lines.join('\n') + '\n';
+}
+
+export function decodeJsonl(text: string): Capture {
+  const lines = text.split('\n').filter((l) => l.trim().length > 0);
+  if (lines.length === 0) throw new CaptureFormatError('Empty capture');
+  const header = checkHeader(JSON.parse(lines[0]));
+  const records: CaptureRecord[] = [];
+  for (let i = 1; i < lines.length; i++) {
+    const r = JSON.parse(lines[i]);
+    if (r?.kind === 'frame' || r?.kind === 'decision') records.push(r);
+  }
+  return { header, records };
+}
+
+// --- Binary: fixed layout for the hot numeric fields, JSON for everything else ---
+//
+// file    := "MVFC" u16 version u16 reserved u32 headerLen header(utf8 JSON) record*
+// record  := u8 kind f64 t u32 len payload
+// frame   := f32 time f32 rms f32 low f32 mid f32 high u8 beat u16 nLevels f32[nLevels] u32 extraLen extra(utf8 JSON)
+// decision:= utf8 JSON
+
+const MAGIC = [0x4d, 0x56, 0x46, 0x43]; // "MVFC"
+const KIND_FRAME = 1;
+const KIND_DECISION = 2;
+const CORE_KEYS = new Set(['time', 'rms', 'bands', 'beat', 'bandLevels']);
+
+class ByteWriter {
+  private buf = new Uint8Array(1 << 16);
+  private view = new DataView(this.buf.buffer);
+  length = 0;
+
+  private reserve(n: number) {
+    if (this.length + n <= this.buf.length) return;
+    let size = this.buf.length * 2;
+    while (size < this.length + n) size *= 2;
+    const next = new Uint8Array(size);
+    next.set(this.buf.subarray(0, this.length));
+    this.buf = next;
+    this.view = new DataView(next.buffer);
+  }
+
+  u8(v: number) {
+    this.reserve(1);
+    this.view.setUint8(this.length, v);
+    this.length += 1;
+  }
+  u16(v: number) {
+    this.reserve(2);
+    this.view.setUint16(this.length, v, true);
+    this.length += 2;
+  }
+  u32(v: number) {
+    this.reserve(4);
+    this.view.setUint32(this.length, v, true);
+    this.length += 4;
+  }
+  f32(v: number) {
+    this.reserve(4);
+    this.view.setFloat32(this.length, v, true);
+    this.length += 4;
+  }
+  f64(v: number) {
+    this.reserve(8);
+    this.view.setFloat64(this.length, v, true);
+    this.length += 8;
+  }
+  bytes(b: Uint8Array) {
+    this.reserve(b.length);
+    this.buf.set(b, this.length);
+    this.length += b.length;
+  }
+  // Back-patch a u32 written earlier (record lengths)
+  patchU32(at: number, v: number) {
+    this.view.setUint32(at, v, true);
+  }
+  result(): Uint8Array {
+    return this.buf.slice(0, this.length);
+  }
+}
+
+class ByteReader {
+  private view: DataView;
+  offset = 0;
+
+  constructor(private buf: Uint8Array) {
+    this.view = new DataView(buf.buffer, buf.byteOffset, buf.byteLength);
+  }
+
+  private need(n: number) {
+    if (this.offset + n > this.buf.length) throw new CaptureFormatError('Truncated capture');
+  }
+  u8() {
+    this.need(1);
+    return this.view.getUint8(this.offset++);
+  }
+  u16() {
+    this.need(2);
+    const v = this.view.getUint16(this.offset, true);
+    this.offset += 2;
+    return v;
+  }
+  u32() {
+    this.need(4);
+    const v = this.view.getUint32(this.offset, true);
+    this.offset += 4;
+    return v;
+  }
+  f32() {
+    this.need(4);
+    const v = this.view.getFloat32(this.offset, true);
+    this.offset += 4;
+    return v;
+  }
+  f64() {
+    this.need(8);
+    const v = this.view.getFloat64(this.offset, true);
+    this.offset += 8;
+    return v;
+  }
+  bytes(n: number) {
+    this.need(n);
+    const b = this.buf.subarray(this.offset, this.offset + n);
+    this.offset += n;
+    return b;
+  }
+  get done() {
+    return this.offset >= this.buf.length;
+  }
+}
+
+const encoder = new TextEncoder();
+const decoder = new TextDecoder();
+
+function writeFrame(w: ByteWriter, frame: AudioFeaturesFrame) {
+  w.f32(frame.time);
+  w.f32(frame.rms);
+  w.f32(frame.bands.low);
+  w.f32(frame.bands.mid);
+  w.f32(frame.bands.high);
+  w.u8(frame.beat ? 1 : 0);
+  const levels = frame.bandLevels ?? [];
+  w.u16(levels.length);
+  for (const v of levels) w.f32(v);
+  const extra: Record<string, unknown> = {};
+  for (const [k, v] of Object.entries(frame)) if (!CORE_KEYS.has(k) && v !== undefined) extra[k] = v;
+  const json = Object.keys(extra).length > 0 ? encoder.encode(JSON.stringify(extra)) : new Uint8Array(0);
+  w.u32(json.length);
+  w.bytes(json);
+}
+
+function readFrame(r: ByteReader): AudioFeaturesFrame {
+  const time = r.f32();
+  const rms = r.f32();
+  const bands = { low: r.f32(), mid: r.f32(), high: r.f32() };
+  const beat = r.u8() === 1;
+  const n = r.u16();
+  const frame: AudioFeaturesFrame = { time, rms, bands, beat };
+  if (n > 0) {
+    const levels = new Array<number>(n);
+    for (let i = 0; i < n; i++) levels[i] = r.f32();
+    frame.bandLevels = levels;
+  }
+  const extraLen = r.u32();
+  if (extraLen > 0) Object.assign(frame, JSON.parse(decoder.decode(r.bytes(extraLen))));
+  return frame;
+}
+
+export function encodeBinary(capture: Capture): Uint8Array {
+  const w = new ByteWriter();
+  for (const b of MAGIC) w.u8(b);
+  w.u16(CAPTURE_VERSION);
+  w.u16(0);
+  const header = encoder.encode(JSON.stringify(capture.header));
+  w.u32(header.length);
+  w.bytes(header);
+  for (const rec of capture.records) {
+    w.u8(rec.kind === 'frame' ? KIND_FRAME : KIND_DECISION);
+    w.f64(rec.t);
+    const lenAt = w.length;
+    w.u32(0);
+    const start = w.length;
+    if (rec.kind === 'frame') writeFrame(w, rec.frame);
+    else w.bytes(encoder.encode(JSON.stringify(rec.decision)));
+    w.patchU32(lenAt, w.length - start);
+  }
+  return w.result();
+}
+
+export function decodeBinary(data: Uint8Array): Capture {
+  const r = new ByteReader(data);
+  for (const b of MAGIC) if (r.u8() !== b) throw new CaptureFormatError('Not a binary frame capture');
+  const version = r.u16();
+  r.u16();
+  const header = checkHeader({ ...JSON.parse(decoder.decode(r.bytes(r.u32()))), version });
+  const records: CaptureRecord[] = [];
+  while (!r.done) {
+    const kind = r.u8();
+    const t = r.f64();
+    const len = r.u32();
+    const payload = new ByteReader(r.bytes(len));
+    // Unknown record kinds from newer writers are skipped by length
+    if (kind === KIND_FRAME) records.push({ kind: 'frame', t, frame: readFrame(payload) });
+    else if (kind === KIND_DECISION) records.push({ kind: 'decision', t, decision: JSON.parse(decoder.decode(payload.bytes(len))) });
+  }
+  return { header, records };
+}
+
+// Picks the decoder by content: binary captures start with the magic bytes
+export function decodeCapture(data: Uint8Array): Capture {
+  const isBinary = data.length >= 4 && MAGIC.every((b, i) => data[i] === b);
+  return isBinary ? decodeBinary(data) : decodeJsonl(decoder.decode(data));
+}
@@ -2,34 +2,90 @@ import React, { useEffect, useRef, useState } from 'react';
 import { createRoot } from 'react-dom/client';
 import { AudioEngine, AudioFeaturesFrame } from './audio/AudioEngine';
 import { SceneView } from './three/SceneView';
-import { PRESETS, getPresetById, VisualPreset } from './ui/presets';
+import { PRESETS, getPresetById, SavedPreset, VisualPreset } from './ui/presets';
+import { parseLayers } from './three/VisualLayer';
+import { ModRoute, ModTarget, parseRoutes } from './three/modulation';
+import { BAND_COUNTS, BandLayout, BandScale, parseBandLayout } from './analysis/BandModel';
+import { chordName, keyName } from './analysis/HarmonyAnalyzer';
+import { ClassifierKind, Instrument, loadClassifierKind, saveClassifierKind } from './analysis/InstrumentClassifier';
+import { DEFAULT_TAGGER_MANIFEST, hasTaggerModel } from './analysis/OnnxInstrumentClassifier';
+import { loadShapeFiles } from './three/instrumentShapes';
+import { TransportBar } from './ui/TransportBar';
+import { PlaylistPanel } from './ui/PlaylistPanel';
+import { LiveInputPanel } from './ui/LiveInputPanel';
+import { CaptureControls } from './ui/CaptureControls';
+import { FrameSwitch } from './capture/FrameSwitch';
+import { ShapePicker } from './ui/ShapePicker';
+import { ModulationPanel } from './ui/ModulationPanel';
+import { ThemeEditor } from './ui/ThemeEditor';
+import { TrackOverlay } from './ui/TrackOverlay';
+import type { TrackMetadata } from './audio/trackMetadata';
+import { themeFromArtwork } from './three/artPalette';
+import { PALETTE_THEMES, presetTheme, themeToData } from './three/themes';
+import type { CrystalTheme } from './three/CrystalSphere';
+import { parseMidi } from './audio/midiFile';
 
 function App() {
   const containerRef = useRef<HTMLDivElement | null>(null);
   const sceneRef = useRef<SceneView | null>(null);
-  const engineRef = useRef<AudioEngine | null>(null);
+  const [engine] = useState(() => new AudioEngine());
+  const engineRef = useRef<AudioEngine | null>(engine);
+  const [frames] = useState(() => new FrameSwitch(engine));
   const [isPlaying, setIsPlaying] = useState(false);
   const [isTone, setIsTone] = useState(false);
   const [toneFreq, setToneFreq] = useState(220);
   const [volume, setVolume] = useState(0.8);
   const [beatSensitivity, setBeatSensitivity] = useState(0.6);
   const [presetId, setPresetId] = useState<string>('aurora');
+  const [bandLayout, setBandLayout] = useState<BandLayout>(() => getPresetById('aurora').bandLayout);
   const [isRecording, setIsRecording] = useState(false);
   const captureDirRef = useRef<string | null>(null);
   const frameIdxRef = useRef<number>(0);
   const [fileName, setFileName] = useState<string | null>(null);
+  const [isAnalyzing, setIsAnalyzing] = useState(false);
+  const [duration, setDuration] = useState(0);
   const [error, setError] = useState<string | null>(null);
+  const [showLiveInput, setShowLiveInput] = useState(false);
+  const [harmonyLabel, setHarmonyLabel] = useState<string | null>(null);
+  const [sectionLabel, setSectionLabel] = useState<string | null>(null);
+  const [metadata, setMetadata] = useState<TrackMetadata | null>(null);
+  const [midiName, setMidiName] = useState<string | null>(null);
+  const [autoGain, setAutoGain] = useState(() => engine.isAutoGainEnabled());
+  const [classifier, setClassifier] = useState<ClassifierKind>(loadClassifierKind);
+  const [hasModel, setHasModel] = useState(false);
+  const [routes, setRoutes] = useState<ModRoute[]>(() => getPresetById('aurora').routes);
+  const [modTargets, setModTargets] = useState<ModTarget[]>([]);
+  const [showModulation, setShowModulation] = useState(false);
+  const [theme, setTheme] = useState<CrystalTheme>(() => PALETTE_THEMES[getPresetById('aurora').palette]);
+  const [showThemeEditor, setShowThemeEditor] = useState(false);
 
   useEffect(() => {
     if (!containerRef.current) return;
-    sceneRef.current = new SceneView(containerRef.current);
-    return () => sceneRef.current?.dispose();
+    const scene = new SceneView(containerRef.current);
+    sceneRef.current = scene;
+    scene.setLayers(getPresetById(presetId).layers);
+    scene.setStarDensity(getPresetById(presetId).starDensity);
+    scene.setTheme(theme, 0);
+    scene.setModulationRoutes(routes);
+    setModTargets(scene.getModulationTargets());
+    if (classifier !== 'heuristic') void applyClassifier(classifier);
+    hasTaggerModel().then(setHasModel);
+    // Custom silhouettes from earlier sessions
+    for (const [instrument, file] of Object.entries(loadShapeFiles())) {
+      scene.setInstrumentShape(instrument as Instrument, file!).catch((err) => console.warn(`Stored ${instrument} shape unusable`, err));
+    }
+    return () => scene.dispose();
   }, []);
 
   useEffect(() => {
     const engine = (engineRef.current ||= new AudioEngine());
-    const off = engine.onFrame((frame: AudioFeaturesFrame) => {
-      sceneRef.current?.updateFromAudio(frame.rms, frame.bands.low, frame.bands.mid, frame.bands.high, frame.beat);
+    // Through the switch, so a running feature replay is the only thing driving the scene
+    const off = frames.onFrame((frame: AudioFeaturesFrame) => {
+      sceneRef.current?.updateFromFrame(frame);
+      // Same string on most frames, so React skips the re-render
+      const h = frame.harmony;
+      setHarmonyLabel(h ? `${keyName(h.key, h.mode)} · ${chordName(h.chordRoot, h.chordQuality)}` : null);
+      setSectionLabel(frame.section?.label ?? null);
       // Save frames while recording
       if (isRecording && captureDirRef.current) {
         const dataURL = sceneRef.current?.captureFrame();
@@ -43,12 +99,45 @@ function App() {
     const offEnded = engine.onEnded(() => {
       setIsPlaying(false);
     });
+    const offTimeline = engine.onTimeline(() => setIsAnalyzing(false));
+    const offTrack = engine.onTrackChange((item) => {
+      // The engine drops the MIDI of the previous track
+      setMidiName(null);
+      sceneRef.current?.resetHarmony();
+      if (item) setFileName(item.name);
+    });
+    const offPlayback = engine.onPlaybackState((e) => {
+      setDuration(e.duration);
+      if (e.state === 'playing') setIsPlaying(true);
+      else if (e.state !== 'loading') setIsPlaying(false);
+      if (e.error) setError(e.error);
+    });
     return () => {
       off();
       offEnded();
+      offTimeline();
+      offPlayback();
+      offTrack();
     };
   }, [isRecording]);
 
+  // Tags drive the overlay; embedded cover art gives each track its own palette
+  useEffect(() => {
+    const off = engine.onMetadata((meta) => {
+      setMetadata(meta);
+      if (!meta?.picture) {
+        sceneRef.current?.setArtworkTheme(null);
+        return;
+      }
+      void themeFromArtwork(meta.picture, meta.album ?? meta.title).then((theme) => {
+        if (engine.getMetadata() === meta) sceneRef.current?.setArtworkTheme(theme);
+      });
+    });
+    return () => {
+      off();
+    };
+  }, [engine]);
+
   // Prevent file-drop from navigating away (Electron default browser behavior)
   useEffect(() => {
     const prevent = (e: DragEvent) => {
@@ -67,9 +156,40 @@ function App() {
     };
   }, []);
 
-  const onPickFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+  // The model loads in a worker; when it is missing the scene keeps the heuristics and the select follows
+  const applyClassifier = async (kind: ClassifierKind) => {
+    setClassifier(kind);
+    const active = await sceneRef.current?.setClassifier(kind);
+    if (active && active !== kind) {
+      setClassifier(active);
+      setError('Instrument model unavailable; using heuristics');
+    }
+  };
+
+  // Attach a Standard MIDI File to the loaded track; its notes then arrive on every frame
+  const onPickMidi = async (e: React.ChangeEvent<HTMLInputElement>) => {
     const file = e.target.files?.[0];
+    e.target.value = '';
     if (!file) return;
+    try {
+      const song = parseMidi(new Uint8Array(await file.arrayBuffer()));
+      engineRef.current?.setMidi(song);
+      setMidiName(`${file.name} (${song.notes.length} notes)`);
+      setError(null);
+    } catch (err: any) {
+      setError(err?.message ?? 'Invalid MIDI file');
+    }
+  };
+
+  const onPickFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const files = Array.from(e.target.files ?? []);
+    if (files.length === 0) return;
+    const queue = engineRef.current!.getQueue();
+    const added = queue.add(files);
+    e.target.value = '';
+    // Keep the current track; only load when nothing from the queue is loaded yet
+    if (queue.getCurrent()) return;
+    const file = added[0].file;
     setFileName(file.name);
     setError(null);
     // Stop test tone if running
@@ -78,7 +198,8 @@ function App() {
       setIsTone(false);
     }
     try {
-      await engineRef.current!.loadFile(file);
+      engineRef.current!.loadItem(added[0].id);
+      setIsAnalyzing(true);
     } catch (e: any) {
       setError(e?.message ?? 'Failed to load audio');
     }
@@ -94,11 +215,26 @@ function App() {
         setError(e?.message ?? 'Failed to start');
       }
     } else {
-      engineRef.current.stop();
+      engineRef.current.pause();
       setIsPlaying(false);
     }
   };
 
+  const applyRoutes = (next: ModRoute[]) => {
+    setRoutes(next);
+    sceneRef.current?.setModulationRoutes(next);
+  };
+
+  const applyTheme = (next: CrystalTheme, transitionSeconds = 1) => {
+    setTheme(next);
+    sceneRef.current?.setTheme(next, transitionSeconds);
+  };
+
+  const applyBandLayout = (layout: BandLayout) => {
+    setBandLayout(layout);
+    engineRef.current?.setBandLayout(layout);
+  };
+
   const onToggleTone = async () => {
     if (!engineRef.current) return;
     if (!isTone) {
@@ -119,22 +255,53 @@ function App() {
           const p: VisualPreset = getPresetById(id);
           setBeatSensitivity(p.beatSensitivity);
           engineRef.current?.setBeatSensitivity(p.beatSensitivity);
-          // Star density update
-          (sceneRef.current as any)?.setStarDensity?.(p.starDensity);
+          sceneRef.current?.setLayers(p.layers);
+          sceneRef.current?.setStarDensity(p.starDensity);
+          applyTheme(PALETTE_THEMES[p.palette]);
+          applyBandLayout(p.bandLayout);
+          applyRoutes(p.routes);
         }}>
           {PRESETS.map((p) => (
             <option key={p.id} value={p.id}>{p.name}</option>
           ))}
         </select>
-        <input type="file" accept="audio/*" onChange={onPickFile} style={{ color: '#9fb3ff' }} />
+        <select value={bandLayout.scale} title="Band scale" onChange={(e) => applyBandLayout({ ...bandLayout, scale: e.target.value as BandScale })}>
+          <option value="log">Log bands</option>
+          <option value="mel">Mel bands</option>
+          <option value="bark">Bark bands</option>
+        </select>
+        <select value={bandLayout.count} title="Band count" onChange={(e) => applyBandLayout({ ...bandLayout, count: Number(e.target.value) })}>
+          {BAND_COUNTS.map((n) => (
+            <option key={n} value={n}>{n}</option>
+          ))}
+        </select>
+        <select value={classifier} title="Instrument detection" onChange={(e) => {
+          const kind = e.target.value as ClassifierKind;
+          saveClassifierKind(kind);
+          void applyClassifier(kind);
+        }}>
+          <option value="heuristic">Heuristic instruments</option>
+          <option value="onnx" disabled={!hasModel} title={hasModel ? undefined : `No tagger model at public/${DEFAULT_TAGGER_MANIFEST}`}>ML instruments (ONNX)</option>
+        </select>
+        <input type="file" accept="audio/*" multiple onChange={onPickFile} style={{ color: '#9fb3ff' }} />
+        <label style={{ display: 'flex', alignItems: 'center', gap: 4 }} title={midiName ?? 'Attach a MIDI file to the loaded track'}>
+          MIDI
+          <input type="file" accept=".mid,.midi,audio/midi" onChange={onPickMidi} disabled={!fileName || fileName === 'Live Input'} style={{ color: '#9fb3ff', width: 190 }} />
+        </label>
+        <ShapePicker sceneRef={sceneRef} onError={setError} />
         <button onClick={async () => {
-          const preset = {
+          const layers = (sceneRef.current?.getLayers() ?? []).filter((l) => l.enabled).map((l) => l.id);
+          const preset: SavedPreset = {
             name: getPresetById(presetId).name,
             palette: getPresetById(presetId).palette,
             beatSensitivity,
             starDensity: (getPresetById(presetId).starDensity),
-            nebulaEnabled: false,
+            nebulaEnabled: layers.includes('nebula'),
             volume,
+            bandLayout,
+            layers,
+            routes,
+            theme: themeToData(theme),
           };
           const path = await window.ipcBridge.saveTextFile('preset.json', JSON.stringify(preset, null, 2));
           if (!path) setError('Save cancelled');
@@ -153,33 +320,24 @@ function App() {
               engineRef.current?.setVolume(data.volume);
             }
             if (typeof data.starDensity === 'number') {
-              (sceneRef.current as any)?.setStarDensity?.(data.starDensity);
+              sceneRef.current?.setStarDensity(data.starDensity);
             }
+            // A saved custom theme wins over the named palette
+            const savedTheme = presetTheme(data);
+            if (savedTheme) applyTheme(savedTheme);
+            const layout = parseBandLayout(data.bandLayout);
+            if (layout) applyBandLayout(layout);
+            const layers = parseLayers(data.layers);
+            if (layers) sceneRef.current?.setLayers(layers);
+            const savedRoutes = parseRoutes(data.routes);
+            if (savedRoutes) applyRoutes(savedRoutes);
           } catch {
             setError('Invalid preset file');
           }
         }}>Load Preset</button>
-        <button onClick={async () => {
-          try {
-            // System audio via display media (Chromium macOS may allow system audio capture)
-            // Fallback to microphone if system audio is unavailable
-            const constraints: any = { audio: { echoCancellation: false, noiseSuppression: false, sampleRate: 48000 } };
-            let stream: MediaStream | null = null;
-            if ((navigator.mediaDevices as any).getDisplayMedia) {
-              try {
-                stream = await (navigator.mediaDevices as any).getDisplayMedia({ audio: true, video: false });
-              } catch {}
-            }
-            if (!stream) {
-              stream = await navigator.mediaDevices.getUserMedia(constraints);
-            }
-            await engineRef.current?.startFromMediaStream(stream);
-            setIsPlaying(true);
-            setFileName('Live Input');
-          } catch (e: any) {
-            setError(e?.message ?? 'Live capture failed');
-          }
-        }}>Live Capture</button>
+        <button onClick={() => setShowLiveInput((v) => !v)}>Live Capture</button>
+        <button onClick={() => setShowModulation((v) => !v)}>Modulation</button>
+        <button onClick={() => setShowThemeEditor((v) => !v)}>Theme</button>
         <button onClick={onToggle} disabled={!fileName} style={{ padding: '6px 10px', borderRadius: 6, background: '#1e2b57', color: '#dfe7ff', border: '1px solid #32406f' }}>
           {isPlaying ? 'Pause' : 'Play'}
         </button>
@@ -199,6 +357,17 @@ function App() {
             }}
           />
         </label>
+        <label style={{ display: 'flex', alignItems: 'center', gap: 4 }} title="Normalise analysis loudness (does not change volume)">
+          <input
+            type="checkbox"
+            checked={autoGain}
+            onChange={(e) => {
+              setAutoGain(e.target.checked);
+              engineRef.current?.setAutoGainEnabled(e.target.checked);
+            }}
+          />
+          Auto gain
+        </label>
         <button onClick={async () => {
           if (!(window as any).ipcBridge || typeof (window as any).ipcBridge.selectCaptureDir !== 'function') {
             setError('Recording requires a full app reload to initialize the capture bridge. Please stop and start dev, then try again.');
@@ -226,6 +395,7 @@ function App() {
             if (!ok) setError('ffmpeg failed. Ensure ffmpeg is installed and in PATH.');
           }} style={{ padding: '6px 10px', borderRadius: 6, background: '#1e2b57', color: '#dfe7ff', border: '1px solid #32406f' }}>Encode Video</button>
         )}
+        <CaptureControls engine={engine} frames={frames} sceneRef={sceneRef} sourceName={fileName} onError={setError} />
         <label style={{ display: 'flex', alignItems: 'center', gap: 6 }}>
           <span>Beat</span>
           <input
@@ -256,9 +426,32 @@ function App() {
         />
         <span style={{ width: 60, textAlign: 'right' }}>{toneFreq} Hz</span>
         <span style={{ opacity: 0.7 }}>{fileName ?? 'No file'}</span>
+        {harmonyLabel && <span style={{ opacity: 0.6 }} title="Estimated key · chord">{harmonyLabel}</span>}
+        {sectionLabel && <span style={{ opacity: 0.6 }} title="Song section">{sectionLabel}</span>}
+        {isAnalyzing && <span style={{ opacity: 0.5 }}>Analyzing…</span>}
         {error && <span style={{ color: '#ff5577' }}>Error: {error}</span>}
       </div>
-      <div ref={containerRef} style={{ flex: 1, minHeight: 200, borderTop: '1px solid rgba(255,255,255,0.06)' }} />
+      {showLiveInput && (
+        <LiveInputPanel
+          engine={engine}
+          onStarted={() => {
+            setIsPlaying(true);
+            setFileName('Live Input');
+            setError(null);
+          }}
+          onError={setError}
+        />
+      )}
+      {showThemeEditor && <ThemeEditor theme={theme} onChange={applyTheme} onError={setError} />}
+      {showModulation && <ModulationPanel routes={routes} targets={modTargets} onChange={applyRoutes} />}
+      {duration > 0 && fileName !== 'Live Input' && <TransportBar engine={engineRef.current} duration={duration} />}
+      <div style={{ flex: 1, minHeight: 200, display: 'flex' }}>
+        <div style={{ flex: 1, minHeight: 200, display: 'flex', position: 'relative' }}>
+          <div ref={containerRef} style={{ flex: 1, minHeight: 200, borderTop: '1px solid rgba(255,255,255,0.06)' }} />
+          {fileName !== 'Live Input' && <TrackOverlay metadata={metadata} />}
+        </div>
+        <PlaylistPanel engine={engine} />
+      </div>
     </div>
   );
 }
@@ -1,4 +1,5 @@
 import * as THREE from 'three';
+import type { LayerContext, LayerFrame, VisualLayer } from './VisualLayer';
 
 const auroraFrag = `
 precision highp float;
@@ -7,6 +8,8 @@ uniform vec2 uRes;
 uniform float uLow;
 uniform float uMid;
 uniform float uHigh;
+uniform vec3 uColor;
+uniform vec3 uTint;
 
 // Simple fbm noise
 float hash(vec2 p){return fract(sin(dot(p,vec2(127.1,311.7)))*43758.5453);} 
@@ -29,17 +32,18 @@ void main(){
   float flow = fbm(p*2.5 - t*1.2 + n);
   float energy = uLow*0.6 + uMid*0.3 + uHigh*0.1;
   float mask = smoothstep(0.2, 0.8, flow + energy*0.8);
-  vec3 col = mix(vec3(0.02,0.0,0.05), vec3(0.1,0.8,1.0), mask);
+  vec3 col = mix(uTint*0.1, uColor, mask);
   col.r += uHigh*0.3; col.g += uMid*0.2; col.b += uLow*0.1;
   gl_FragColor = vec4(col, 0.85);
 }
 `;
 
-export class AuroraLayer {
+export class AuroraLayer implements VisualLayer {
+  readonly id = 'aurora';
   private mesh: THREE.Mesh | null = null;
   private material: THREE.ShaderMaterial | null = null;
 
-  init(scene: THREE.Scene, width: number, height: number) {
+  init({ root, width, height }: LayerContext) {
     const geom = new THREE.PlaneGeometry(10, 10, 1, 1);
     this.material = new THREE.ShaderMaterial({
       transparent: true,
@@ -50,28 +54,34 @@ export class AuroraLayer {
         uLow: { value: 0 },
         uMid: { value: 0 },
         uHigh: { value: 0 },
+        uColor: { value: new THREE.Color() },
+        uTint: { value: new THREE.Color() },
       },
       fragmentShader: auroraFrag,
     });
     this.mesh = new THREE.Mesh(geom, this.material);
     this.mesh.position.z = -2.0;
-    scene.add(this.mesh);
+    root.add(this.mesh);
   }
 
-  update(dt: number, time: number, low: number, mid: number, high: number) {
+  update(frame: LayerFrame) {
     if (!this.material) return;
-    this.material.uniforms.uTime.value = time;
-    this.material.uniforms.uLow.value = low;
-    this.material.uniforms.uMid.value = mid;
-    this.material.uniforms.uHigh.value = high;
+    this.material.uniforms.uTime.value = frame.time;
+    this.material.uniforms.uLow.value = frame.low;
+    this.material.uniforms.uMid.value = frame.mid;
+    this.material.uniforms.uHigh.value = frame.high;
+    // Curtains in the first palette colour over the nebula tint
+    (this.material.uniforms.uColor.value as THREE.Color).copy(frame.theme.colors[0]);
+    (this.material.uniforms.uTint.value as THREE.Color).copy(frame.theme.nebulaTint);
   }
 
-  setSize(width: number, height: number) {
+  resize({ width, height }: LayerContext) {
     if (this.material) (this.material.uniforms.uRes.value as THREE.Vector2).set(width, height);
   }
 
-  dispose(scene: THREE.Scene) {
-    if (this.mesh) scene.remove(this.mesh);
+  dispose() {
+    this.mesh?.removeFromParent();
+    this.mesh?.geometry.dispose();
     this.mesh = null;
     if (this.material) this.material.dispose();
     this.material = null;
@@ -1,73 +1,165 @@
 import * as THREE from 'three';
+import { EffectScheduler, EffectSpec } from './EffectScheduler';
+import { InstancePool } from './InstancePool';
+import type { ModTarget } from './modulation';
+import type { LayerContext, LayerFrame, VisualLayer } from './VisualLayer';
 
 export type CrystalTheme = {
   name: string;
   colors: THREE.Color[];
   coreColor: THREE.Color;
   edgeColor: THREE.Color;
+  nebulaTint: THREE.Color; // backdrop colour of the nebula and aurora layers
 };
 
 export type EffectState = 'idle' | 'resonance' | 'prism' | 'rift' | 'spikes';
+export type EffectKind = Exclude<EffectState, 'idle'>;
 
-export class CrystalSphere {
+const BASE_BLOOM = 1.2;
+
+// Bloom is added to BASE_BLOOM while an effect is on screen; the rift overrides the others
+export const CRYSTAL_EFFECTS: Record<EffectKind, EffectSpec> = {
+  resonance: { priority: 1, bloom: 0.1, fadeIn: 0.2, fadeOut: 1.0 },
+  prism: { priority: 2, bloom: 0.15, fadeIn: 0.15, fadeOut: 0.8 },
+  spikes: { priority: 2, bloom: 0.2, fadeIn: 0.1, fadeOut: 0.6 },
+  rift: { priority: 3, bloom: 0.4, fadeIn: 0.1, fadeOut: 1.2 },
+};
+
+export const CRYSTAL_THEMES: CrystalTheme[] = [
+  {
+    name: 'Crystal Resonance',
+    colors: [new THREE.Color(0x00ffff), new THREE.Color(0x00aaff), new THREE.Color(0x80aaff)],
+    coreColor: new THREE.Color(0x00ffff),
+    edgeColor: new THREE.Color(0x40a0ff),
+    nebulaTint: new THREE.Color(0x1a3a80),
+  },
+  {
+    name: 'Prism Flare',
+    colors: [
+      new THREE.Color(0xff8080),
+      new THREE.Color(0xffff80),
+      new THREE.Color(0x80ff80),
+      new THREE.Color(0x80ffff),
+      new THREE.Color(0x8080ff),
+      new THREE.Color(0xff80ff),
+    ],
+    coreColor: new THREE.Color(0xffa0a0),
+    edgeColor: new THREE.Color(0xffffff),
+    nebulaTint: new THREE.Color(0x5a3a78),
+  },
+  {
+    name: 'Galactic Rift',
+    colors: [new THREE.Color(0x9400d3), new THREE.Color(0xff00ff), new THREE.Color(0x8a2be2)],
+    coreColor: new THREE.Color(0xdda0dd),
+    edgeColor: new THREE.Color(0x9370db),
+    nebulaTint: new THREE.Color(0x3a1050),
+  },
+  {
+    name: 'Solar Spikes',
+    colors: [new THREE.Color(0xffc107), new THREE.Color(0xff5722), new THREE.Color(0xff9800)],
+    coreColor: new THREE.Color(0xffd54f),
+    edgeColor: new THREE.Color(0xffb300),
+    nebulaTint: new THREE.Color(0x60200a),
+  },
+];
+
+// Per-colour linear blend; palettes of different length are cycled to the longer one
+export function blendThemes(a: CrystalTheme, b: CrystalTheme, t: number): CrystalTheme {
+  const n = Math.max(a.colors.length, b.colors.length);
+  const colors: THREE.Color[] = [];
+  for (let i = 0; i < n; i++) colors.push(a.colors[i % a.colors.length].clone().lerp(b.colors[i % b.colors.length], t));
+  return {
+    name: t < 0.5 ? a.name : b.name,
+    colors,
+    coreColor: a.coreColor.clone().lerp(b.coreColor, t),
+    edgeColor: a.edgeColor.clone().lerp(b.edgeColor, t),
+    nebulaTint: a.nebulaTint.clone().lerp(b.nebulaTint, t),
+  };
+}
+
+type SpikeState = { rotation: THREE.Quaternion; direction: THREE.Vector3; distance: number; speed: number; seed: number; life: number; length: number; radius: number; hue: number; opacity: number };
+type RayState = { life: number; phase: number };
+type RingState = { life: number; delay: number; radius: number };
+
+// Fixed effect budgets; emissions beyond them are dropped until instances expire
+const SPIKE_CAPACITY = 2048;
+const RAY_CAPACITY = 4096;
+const RING_CAPACITY = 256;
+const RIFT_CAPACITY = 2000;
+
+const ORIGIN = new THREE.Vector3();
+const UP = new THREE.Vector3(0, 1, 0);
+const QUARTER_X = new THREE.Quaternion().setFromAxisAngle(new THREE.Vector3(1, 0, 0), Math.PI / 2);
+const HALF_X = new THREE.Quaternion().setFromAxisAngle(new THREE.Vector3(1, 0, 0), Math.PI);
+
+// Same orientation as `lookAt(dir)` followed by a local x rotation, without an Object3D
+function aim(out: THREE.Quaternion, dir: THREE.Vector3, roll: THREE.Quaternion, scratch: THREE.Matrix4): THREE.Quaternion {
+  return out.setFromRotationMatrix(scratch.lookAt(dir, ORIGIN, UP)).multiply(roll);
+}
+
+function additive(side: THREE.Side = THREE.FrontSide): THREE.MeshBasicMaterial {
+  return new THREE.MeshBasicMaterial({ transparent: true, blending: THREE.AdditiveBlending, side, depthWrite: false });
+}
+
+export class CrystalSphere implements VisualLayer {
+  readonly id = 'crystal';
+  readonly targets: ModTarget[] = [
+    { id: 'bloom', label: 'Bloom strength', base: 0, min: -1.2, max: 2 },
+    { id: 'rotation', label: 'Rotation speed', base: 0.15, min: 0, max: 3 },
+    { id: 'hue', label: 'Hue shift', base: 0, min: -1, max: 1 },
+  ];
   group: THREE.Group | null = null;
   private particles: THREE.Points | null = null;
   private wireframe: THREE.LineSegments | null = null;
   private energyCore: THREE.Mesh | null = null;
   private twinkleFactors: number[] = [];
 
-  private effectGroups = {
-    resonance: new THREE.Group(),
-    prism: new THREE.Group(),
-    rift: new THREE.Group(),
-    spikes: new THREE.Group(),
-  };
-
-  private _bloomStrength = 1.2;
-  get bloomStrength(): number { return this._bloomStrength; }
-
-  private themes: CrystalTheme[] = [
-    {
-      name: 'Crystal Resonance',
-      colors: [new THREE.Color(0x00ffff), new THREE.Color(0x00aaff), new THREE.Color(0x80aaff)],
-      coreColor: new THREE.Color(0x00ffff),
-      edgeColor: new THREE.Color(0x40a0ff),
-    },
-    {
-      name: 'Prism Flare',
-      colors: [
-        new THREE.Color(0xff8080),
-        new THREE.Color(0xffff80),
-        new THREE.Color(0x80ff80),
-        new THREE.Color(0x80ffff),
-        new THREE.Color(0x8080ff),
-        new THREE.Color(0xff80ff),
-      ],
-      coreColor: new THREE.Color(0xffa0a0),
-      edgeColor: new THREE.Color(0xffffff),
-    },
-    {
-      name: 'Galactic Rift',
-      colors: [new THREE.Color(0x9400d3), new THREE.Color(0xff00ff), new THREE.Color(0x8a2be2)],
-      coreColor: new THREE.Color(0xdda0dd),
-      edgeColor: new THREE.Color(0x9370db),
-    },
-    {
-      name: 'Solar Spikes',
-      colors: [new THREE.Color(0xffc107), new THREE.Color(0xff5722), new THREE.Color(0xff9800)],
-      coreColor: new THREE.Color(0xffd54f),
-      edgeColor: new THREE.Color(0xffb300),
-    },
-  ];
+  // Effects draw from fixed pools built in init: one instanced mesh each, plus one rift cloud
+  private spikes: InstancePool<SpikeState> | null = null;
+  private rays: InstancePool<RayState> | null = null;
+  private rings: InstancePool<RingState> | null = null;
+  private rift: THREE.Points | null = null;
+  private riftVelocity = new Float32Array(RIFT_CAPACITY * 3);
+  private riftLife = new Float32Array(RIFT_CAPACITY);
+  private riftSpin = new Float32Array(RIFT_CAPACITY);
+  private riftCursor = 0; // next particle to respawn; bursts overwrite the oldest
+  private riftUsed = 0;
+  private riftFade = 1; // the cloud's own fade; the effect envelope scales it further
+
+  // Up to two effects overlap: a new one fades in while the displaced one fades out
+  private effects = new EffectScheduler<EffectKind>(CRYSTAL_EFFECTS, 2);
+
+  private bloomOffset = 0; // from the 'crystal.bloom' target
+  private hue = 0; // palette hue offset in turns, from the 'crystal.hue' target
+  private colors: THREE.Color[] = []; // theme colours rotated by `hue`, as the particles show them
+
+  get bloomStrength(): number {
+    return BASE_BLOOM + this.bloomOffset + this.effects.bloom((kind) => (this.hasInstances(kind) ? 1 : 0));
+  }
 
-  private themeIndex = 0;
-  private activeEffect: EffectState = 'idle';
+  private theme: CrystalTheme = CRYSTAL_THEMES[0];
+  // Cross-fade between themes: from -> to over transitionSeconds
+  private transition: { from: CrystalTheme; to: CrystalTheme; elapsed: number; duration: number } | null = null;
+  private pan = 0; // -1..1 stereo position the group drifts toward
+  private sparkle = 0; // hi-hat driven boost on top of the twinkle, decays quickly
+  // Reused by emitters and per-instance updates, so effects allocate nothing per frame
+  private vectorScratch = new THREE.Vector3();
+  private axisScratch = new THREE.Vector3();
+  private matrixScratch = new THREE.Matrix4();
+  private quaternionScratch = new THREE.Quaternion();
+  private scaleScratch = new THREE.Vector3();
+  private colorScratch = new THREE.Color();
+  private hslScratch = { h: 0, s: 0, l: 0 };
+
+  constructor(private radius = 0.9, private icoDetail = 5) {
+    this.effects.onEnd((kind) => this.clearEffect(kind));
+  }
 
-  init(scene: THREE.Scene, radius = 0.9, icoDetail = 5) {
+  init(ctx: LayerContext) {
     if (this.group) return;
     this.group = new THREE.Group();
 
-    const ico = new THREE.IcosahedronGeometry(radius, icoDetail);
+    const ico = new THREE.IcosahedronGeometry(this.radius, this.icoDetail);
     const pos = (ico.attributes.position.array as unknown as number[]);
     const pPos: number[] = [];
     const pCol: number[] = [];
@@ -98,76 +190,106 @@ export class CrystalSphere {
       blending: THREE.AdditiveBlending,
     });
     this.wireframe = new THREE.LineSegments(new THREE.WireframeGeometry(ico), wm);
+    ico.dispose();
 
     // Remove inner core ball per request – do not create; keep API tolerant
     this.energyCore = null;
 
     this.group.add(this.particles, this.wireframe);
-    this.group.add(this.effectGroups.resonance, this.effectGroups.prism, this.effectGroups.rift, this.effectGroups.spikes);
-    scene.add(this.group);
+    this.createEffects(this.group);
+    ctx.root.add(this.group);
 
-    this.applyTheme(this.themes[this.themeIndex]);
+    this.applyTheme(this.theme);
+  }
+
+  private createEffects(group: THREE.Group) {
+    // Unit shapes, sized per instance through the instance matrix
+    this.rings = new InstancePool(new THREE.TorusGeometry(1.0, 0.02, 12, 72), additive(THREE.DoubleSide), RING_CAPACITY, () => ({ life: 0, delay: 0, radius: 1 }));
+    this.rays = new InstancePool(new THREE.CylinderGeometry(0.004, 0.004, 5.5, 6), additive(), RAY_CAPACITY, () => ({ life: 0, phase: 0 }));
+    this.spikes = new InstancePool(new THREE.ConeGeometry(1, 1, 6, 1, true), additive(THREE.DoubleSide), SPIKE_CAPACITY, () => ({
+      rotation: new THREE.Quaternion(), direction: new THREE.Vector3(), distance: 0, speed: 0, seed: 0, life: 0, length: 1, radius: 1, hue: 0, opacity: 0,
+    }));
+    const rg = new THREE.BufferGeometry();
+    rg.setAttribute('position', new THREE.BufferAttribute(new Float32Array(RIFT_CAPACITY * 3), 3).setUsage(THREE.DynamicDrawUsage));
+    rg.setAttribute('color', new THREE.BufferAttribute(new Float32Array(RIFT_CAPACITY * 3), 3));
+    rg.setDrawRange(0, 0);
+    this.rift = new THREE.Points(rg, new THREE.PointsMaterial({
+      size: 0.05,
+      vertexColors: true,
+      blending: THREE.AdditiveBlending,
+      transparent: true,
+      opacity: 1,
+      depthWrite: false,
+    }));
+    this.rift.visible = false;
+    this.rift.frustumCulled = false;
+    group.add(this.rings.mesh, this.rays.mesh, this.rift, this.spikes.mesh);
   }
 
   private applyTheme(theme: CrystalTheme) {
-    if (!this.particles || !this.wireframe || !this.energyCore) return;
+    if (!this.particles || !this.wireframe) return;
+    while (this.colors.length < theme.colors.length) this.colors.push(new THREE.Color());
+    this.colors.length = theme.colors.length;
+    this.colors.forEach((c, i) => c.copy(theme.colors[i]).offsetHSL(this.hue, 0, 0));
     const colAttr = (this.particles.geometry.getAttribute('color') as THREE.BufferAttribute);
     for (let i = 0; i < colAttr.count; i++) {
-      const c = theme.colors[i % theme.colors.length];
+      const c = this.colors[i % this.colors.length];
       colAttr.setXYZ(i, c.r, c.g, c.b);
     }
     colAttr.needsUpdate = true;
-    (this.wireframe.material as THREE.LineBasicMaterial).color.set(theme.edgeColor);
+    (this.wireframe.material as THREE.LineBasicMaterial).color.copy(theme.edgeColor).offsetHSL(this.hue, 0, 0);
     if (this.energyCore) (this.energyCore.material as THREE.MeshBasicMaterial).color.set(theme.coreColor);
   }
 
-  setThemeByEnergyInstrument(energy: number, instrument: 'none' | 'drums' | 'bass' | 'guitar') {
-    // Map instrument/energy to theme index for subtle variation
-    let idx = 0;
-    if (instrument === 'bass') idx = 0;
-    else if (instrument === 'guitar') idx = 1;
-    else if (instrument === 'drums') idx = 2;
-    if (energy > 0.35) idx = (idx + 1) % this.themes.length;
-    if (idx !== this.themeIndex) {
-      this.themeIndex = idx;
-      this.applyTheme(this.themes[this.themeIndex]);
+  getTheme(): CrystalTheme {
+    return this.theme;
+  }
+
+  // Switch palettes, cross-fading over transitionSeconds (0 applies immediately)
+  setTheme(theme: CrystalTheme, transitionSeconds = 0) {
+    if (transitionSeconds <= 0) {
+      this.transition = null;
+      this.theme = theme;
+      this.applyTheme(theme);
+      return;
     }
+    this.transition = { from: this.theme, to: theme, elapsed: 0, duration: transitionSeconds };
+  }
+
+  setPan(pan: number) {
+    this.pan = Math.max(-1, Math.min(1, pan));
+  }
+
+  // Brief extra sparkle on the twinkling particles (0..1), e.g. on hi-hat onsets
+  twinkle(strength: number) {
+    this.sparkle = Math.max(this.sparkle, Math.min(1, strength));
   }
 
   triggerNextEffect() {
-    const order: EffectState[] = ['resonance', 'prism', 'rift', 'spikes'];
-    const next = order[(order.indexOf(this.activeEffect) + 1) % order.length];
+    const order: EffectKind[] = ['resonance', 'prism', 'rift', 'spikes'];
+    const active = this.getActiveEffect();
+    const next = order[(active === 'idle' ? 0 : order.indexOf(active) + 1) % order.length];
     this.triggerEffect(next);
   }
 
-  triggerEffect(kind: EffectState) {
+  // Starts an effect with its opening burst; whatever it displaces fades out underneath
+  triggerEffect(kind: EffectKind) {
     if (!this.group) return;
-    // Ensure exclusivity: clear other effects before triggering
-    this.clearAllEffects();
-    const theme = this.themes[this.themeIndex];
+    this.effects.start(kind);
+    const theme = this.theme;
     switch (kind) {
       case 'resonance':
         this.emitResonance(theme, 3);
-        this._bloomStrength = 1.3;
-        this.activeEffect = 'resonance';
         break;
       case 'prism':
         this.emitPrism(theme, 120);
-        this._bloomStrength = 1.35;
-        this.activeEffect = 'prism';
         break;
       case 'rift':
         this.emitRift(theme, 2000);
-        this._bloomStrength = 1.6;
-        this.activeEffect = 'rift';
         break;
       case 'spikes':
         // spikes triggered immediately; leave active for update to animate
         this.createSpikes(36);
-        this._bloomStrength = 1.4;
-        this.activeEffect = 'spikes';
-        break;
-      default:
         break;
     }
   }
@@ -180,243 +302,291 @@ export class CrystalSphere {
   }
 
   private createSpikes(count: number, low = 0.2, mid = 0.2, high = 0.2) {
-    const theme = this.themes[this.themeIndex];
+    const pool = this.spikes;
+    if (!pool) return; // disabled layer
+    const theme = this.theme;
     for (let i = 0; i < count; i++) {
-      const len = 0.6 + Math.random() * 1.1 + high * 0.8;
-      const g = new THREE.ConeGeometry(0.02 + high * 0.06, len, 6, 1, true);
-      const colorPick = theme.colors[i % theme.colors.length].clone();
+      const index = pool.spawn();
+      if (index < 0) break;
+      const spike = pool.state(index);
+      const colorPick = this.colorScratch.copy(theme.colors[i % theme.colors.length]);
       // tint by bands
       colorPick.r = Math.min(1, colorPick.r + high * 0.4);
       colorPick.g = Math.min(1, colorPick.g + mid * 0.3);
       colorPick.b = Math.min(1, colorPick.b + low * 0.2);
-      const m = new THREE.MeshBasicMaterial({
-        color: colorPick,
-        transparent: true,
-        opacity: 0.0,
-        blending: THREE.AdditiveBlending,
-        side: THREE.DoubleSide,
-        depthWrite: false,
-      });
-      const spike = new THREE.Mesh(g, m);
-      const dir = new THREE.Vector3().randomDirection();
-      spike.position.set(0, 0, 0);
-      spike.lookAt(dir);
-      spike.rotateX(Math.PI);
-      const speed = 0.35 + Math.random() * 1.0;
-      const seed = Math.random();
-      (spike as any).userData = { life: 1.0, speed, seed, baseLen: len };
-      this.effectGroups.spikes.add(spike);
+      spike.hue = colorPick.getHSL(this.hslScratch).h;
+      aim(spike.rotation, this.axisScratch.randomDirection(), HALF_X, this.matrixScratch);
+      spike.direction.set(0, 0, 1).applyQuaternion(spike.rotation);
+      spike.distance = 0;
+      spike.length = 0.6 + Math.random() * 1.1 + high * 0.8;
+      spike.radius = 0.02 + high * 0.06;
+      spike.speed = 0.35 + Math.random() * 1.0;
+      spike.seed = Math.random();
+      spike.life = 1.0;
+      spike.opacity = 0;
+      pool.setColor(index, colorPick);
+      pool.setOpacity(index, 0);
     }
   }
 
-  update(dt: number, time: number, low: number, mid: number, high: number, rms: number, beat: boolean) {
+  /**
+   * Instrument confidences shape the idle motion together: drums deepen the beat pulse, bass
+   * swells the body, sustained parts (pad, strings, vocals) slow the spin and melodic ones
+   * (keys, guitar, brass) brighten the twinkle.
+   */
+  update(frame: LayerFrame) {
+    const { dt, time, rms, high } = frame;
+    this.advanceTransition(dt);
     if (!this.group || !this.particles) return;
+    const inst = frame.instruments;
+    const sustained = Math.max(inst.pad, inst.strings, inst.vocals);
+    const melodic = Math.max(inst.keys, inst.guitar, inst.brass);
+    this.bloomOffset = frame.modulation.get('crystal.bloom');
+    const hue = frame.modulation.get('crystal.hue');
+    if (Math.abs(hue - this.hue) > 1e-3) {
+      this.hue = hue;
+      this.applyTheme(this.theme);
+    }
     // idle rotation
-    this.group.rotation.y += 0.15 * dt;
+    this.group.rotation.y += frame.modulation.get('crystal.rotation') * (1 - 0.5 * sustained) * dt;
+    // ease toward the stereo position so pan jitter does not shake the scene
+    this.group.position.x += (this.pan * 0.6 - this.group.position.x) * Math.min(1, dt * 2);
     // inner core removed
 
+    // Wireframe flashes on the predicted beat and decays across it
+    if (this.wireframe) {
+      const pulse = Math.pow(1 - (frame.tempo?.phase ?? 0), 4) * (frame.tempo?.confidence ?? 0) * (1 + inst.drums * 0.8);
+      (this.wireframe.material as THREE.LineBasicMaterial).opacity = 0.12 + sustained * 0.06 + pulse * 0.25;
+      this.group.scale.setScalar(1 + pulse * 0.03 + inst.bass * rms * 0.08);
+    }
+
     // sparkle colors driven by theme and twinkle factors
     const colAttr = (this.particles.geometry.getAttribute('color') as THREE.BufferAttribute);
-    const theme = this.themes[this.themeIndex];
     for (let i = 0; i < colAttr.count; i++) {
       const tw = this.twinkleFactors[i] ?? 0;
       if (tw > 0) {
         const pulse = Math.sin(tw * time + i * 0.1) * 0.5 + 0.5;
-        const bright = 1 + pulse * (1.5 + high * 2.0);
-        const c = theme.colors[i % theme.colors.length];
+        const bright = 1 + pulse * (1.5 + high * 2.0 + melodic) + this.sparkle * 2.5;
+        const c = this.colors[i % this.colors.length];
         colAttr.setXYZ(i, c.r * bright, c.g * bright, c.b * bright);
       }
     }
     colAttr.needsUpdate = true;
+    this.sparkle = Math.max(0, this.sparkle - dt * 6);
 
-    // Animate effects
+    // Animate effects, each scaled by its scheduler envelope
+    this.effects.update(dt);
+    if (this.rings) this.rings.opacity = this.fade('resonance');
+    if (this.rays) this.rays.opacity = this.fade('prism');
+    if (this.spikes) this.spikes.opacity = this.fade('spikes');
     this.updateResonance(dt);
     this.updatePrism(dt);
     this.updateRift(dt);
     this.updateSpikes(dt, time);
   }
 
-  private updateResonance(dt: number) {
-    const group = this.effectGroups.resonance;
-    if (!group.children.length) return;
-    const survivors: THREE.Object3D[] = [];
-    for (const w of group.children as THREE.Mesh[]) {
-      const ud = (w as any).userData as { life: number; delay: number };
-      if (ud.delay > 0) { ud.delay -= dt; survivors.push(w); continue; }
-      ud.life -= dt * 0.6;
-      const p = 1 - ud.life;
-      w.scale.setScalar(0.1 + p * 1.4);
-      (w.material as THREE.MeshBasicMaterial).opacity = Math.max(0, Math.sin(ud.life * Math.PI));
-      if (ud.life > 0) survivors.push(w); else { w.geometry.dispose(); (w.material as THREE.Material).dispose?.(); }
+  // Palette cross-fades keep running while the layer is disabled, so other layers follow the theme
+  advanceTransition(dt: number) {
+    const tr = this.transition;
+    if (!tr) return;
+    tr.elapsed += dt;
+    const t = Math.min(1, tr.elapsed / tr.duration);
+    this.theme = t >= 1 ? tr.to : blendThemes(tr.from, tr.to, t);
+    this.applyTheme(this.theme);
+    if (t >= 1) this.transition = null;
+  }
+
+  dispose() {
+    this.clearAllEffects();
+    if (!this.group) return;
+    for (const obj of [this.particles, this.wireframe, this.rift]) {
+      obj?.geometry.dispose();
+      (obj?.material as THREE.Material | undefined)?.dispose();
     }
-    group.children = survivors;
-    if (!group.children.length) this._bloomStrength = 1.2;
+    for (const pool of [this.rings, this.rays, this.spikes]) pool?.dispose();
+    this.group.removeFromParent();
+    this.group = null;
+    this.particles = null;
+    this.wireframe = null;
+    this.rift = null;
+    this.rings = this.rays = null;
+    this.spikes = null;
+  }
+
+  private updateResonance(dt: number) {
+    const pool = this.rings;
+    if (!pool?.count) return;
+    pool.update((ring, i) => {
+      if (ring.delay > 0) { ring.delay -= dt; return true; }
+      ring.life -= dt * 0.6;
+      const k = 0.1 + (1 - ring.life) * 1.4;
+      pool.setMatrix(i, this.matrixScratch.compose(ORIGIN, QUARTER_X, this.scaleScratch.set(k * ring.radius, k * ring.radius, k)));
+      pool.setOpacity(i, Math.max(0, Math.sin(ring.life * Math.PI)));
+      return ring.life > 0;
+    });
   }
 
   private updatePrism(dt: number) {
-    const group = this.effectGroups.prism;
-    if (!group.children.length) return;
-    const survivors: THREE.Object3D[] = [];
-    for (const r of group.children as THREE.Mesh[]) {
-      const ud = (r as any).userData as { life: number; phase: number };
-      ud.phase += dt * 3.5;
-      const m = r.material as THREE.MeshBasicMaterial;
-      if (ud.phase < 1) m.opacity = ud.phase; else { ud.life -= dt * 0.9; m.opacity = Math.max(0, ud.life); }
-      if (ud.life > 0) survivors.push(r); else { r.geometry.dispose(); m.dispose(); }
-    }
-    group.children = survivors;
-    if (!group.children.length) this._bloomStrength = 1.2;
+    const pool = this.rays;
+    if (!pool?.count) return;
+    pool.update((ray, i) => {
+      ray.phase += dt * 3.5;
+      if (ray.phase < 1) pool.setOpacity(i, ray.phase); else { ray.life -= dt * 0.9; pool.setOpacity(i, Math.max(0, ray.life)); }
+      return ray.life > 0;
+    });
   }
 
   private updateRift(dt: number) {
-    const group = this.effectGroups.rift;
-    if (!group.children.length) return;
-    const neb = group.children[0] as THREE.Points | undefined;
-    if (!neb) return;
+    const neb = this.rift;
+    if (!neb?.visible) return;
     const posAttr = neb.geometry.getAttribute('position') as THREE.BufferAttribute;
-    const uArr = (neb.geometry as any).userData as { life: number; velocity: THREE.Vector3; rotationSpeed: number }[];
-    for (let i = 0; i < uArr.length; i++) {
-      const pd = uArr[i];
-      pd.life -= dt;
-      if (pd.life > 0) {
-        const vec = new THREE.Vector3(posAttr.getX(i), posAttr.getY(i), posAttr.getZ(i));
-        vec.add(pd.velocity.clone().multiplyScalar(dt));
-        vec.applyAxisAngle(pd.velocity, pd.rotationSpeed);
+    for (let i = 0; i < this.riftUsed; i++) {
+      this.riftLife[i] -= dt;
+      if (this.riftLife[i] > 0) {
+        const velocity = this.axisScratch.fromArray(this.riftVelocity, i * 3);
+        const vec = this.vectorScratch.fromBufferAttribute(posAttr, i);
+        vec.addScaledVector(velocity, dt);
+        vec.applyAxisAngle(velocity, this.riftSpin[i]);
         posAttr.setXYZ(i, vec.x, vec.y, vec.z);
       }
     }
     posAttr.needsUpdate = true;
-    const m = neb.material as THREE.PointsMaterial;
-    m.opacity -= dt * 0.4;
-    if (m.opacity <= 0) {
-      group.remove(neb);
-      neb.geometry.dispose();
-      m.dispose();
-      this._bloomStrength = 1.2;
-    }
+    this.riftFade -= dt * 0.4;
+    (neb.material as THREE.PointsMaterial).opacity = Math.max(0, this.riftFade) * this.fade('rift');
+    if (this.riftFade <= 0) this.hideRift();
+  }
+
+  private hideRift() {
+    if (!this.rift) return;
+    this.rift.visible = false;
+    this.rift.geometry.setDrawRange(0, 0);
+    this.riftUsed = 0;
+    this.riftCursor = 0;
   }
 
   private updateSpikes(dt: number, time: number) {
-    const group = this.effectGroups.spikes;
-    if (!group.children.length) return;
-    const survivors: THREE.Object3D[] = [];
-    for (const s of group.children as THREE.Mesh[]) {
-      const ud = (s as any).userData as { life: number; speed: number; seed: number; baseLen: number };
-      ud.life -= dt * 0.8;
-      s.position.add(s.getWorldDirection(new THREE.Vector3()).multiplyScalar(ud.speed * dt));
-      const m = s.material as THREE.MeshBasicMaterial;
+    const pool = this.spikes;
+    if (!pool?.count) return;
+    pool.update((spike, i) => {
+      spike.life -= dt * 0.8;
+      spike.distance += spike.speed * dt;
       // random per-spike color modulation
-      const hsl = { h: 0, s: 0, l: 0 } as any;
-      m.color.getHSL(hsl);
-      hsl.h = (hsl.h + (ud.seed * 0.3 + time * 0.07)) % 1;
-      m.color.setHSL(hsl.h, 0.85, 0.55);
+      spike.hue = (spike.hue + (spike.seed * 0.3 + time * 0.07)) % 1;
+      pool.setColor(i, this.colorScratch.setHSL(spike.hue, 0.85, 0.55));
       // length wobble
-      const wobble = 0.85 + Math.sin(time * (1.2 + ud.seed * 2.0)) * 0.15;
-      s.scale.y = wobble;
-      m.opacity = Math.min(1, m.opacity + dt * 2);
-      m.opacity = Math.max(0, Math.min(1, Math.min(m.opacity, ud.life)));
-      if (ud.life > 0) survivors.push(s); else { s.geometry.dispose(); m.dispose(); }
+      const wobble = 0.85 + Math.sin(time * (1.2 + spike.seed * 2.0)) * 0.15;
+      const position = this.vectorScratch.copy(spike.direction).multiplyScalar(spike.distance);
+      pool.setMatrix(i, this.matrixScratch.compose(position, spike.rotation, this.scaleScratch.set(spike.radius, spike.length * wobble, spike.radius)));
+      spike.opacity = Math.max(0, Math.min(1, spike.opacity + dt * 2, spike.life));
+      pool.setOpacity(i, spike.opacity);
+      return spike.life > 0;
+    });
+  }
+
+  // Envelope of a scheduled effect; emissions outside the scheduler show at full strength
+  private fade(kind: EffectKind): number {
+    return this.effects.isRunning(kind) ? this.effects.envelope(kind) : 1;
+  }
+
+  private hasInstances(kind: EffectKind): boolean {
+    switch (kind) {
+      case 'resonance': return !!this.rings?.count;
+      case 'prism': return !!this.rays?.count;
+      case 'spikes': return !!this.spikes?.count;
+      case 'rift': return !!this.rift?.visible;
     }
-    group.children = survivors;
-    if (!group.children.length && this.activeEffect === 'spikes') this._bloomStrength = 1.2;
   }
 
-  clearAllEffects() {
-    const groups = [this.effectGroups.resonance, this.effectGroups.prism, this.effectGroups.rift, this.effectGroups.spikes];
-    for (const g of groups) {
-      for (const obj of [...g.children]) {
-        if ((obj as any).geometry) (obj as any).geometry.dispose?.();
-        if ((obj as any).material) (obj as any).material.dispose?.();
-        g.remove(obj);
-      }
+  private clearEffect(kind: EffectKind) {
+    switch (kind) {
+      case 'resonance': this.rings?.clear(); break;
+      case 'prism': this.rays?.clear(); break;
+      case 'spikes': this.spikes?.clear(); break;
+      case 'rift': this.hideRift(); break;
     }
-    this.activeEffect = 'idle';
   }
 
-  setExclusiveEffect(kind: EffectState) {
-    if (kind === 'idle') { this.clearAllEffects(); return; }
-    if (this.activeEffect === kind && this.isAnyEffectActive()) return;
+  // Removes every effect at once, without fading
+  clearAllEffects() {
+    this.effects.reset();
+    for (const kind of Object.keys(CRYSTAL_EFFECTS) as EffectKind[]) this.clearEffect(kind);
+  }
+
+  // Makes `kind` the primary effect (cross-fading from the current one); 'idle' fades everything out
+  setEffect(kind: EffectState) {
+    if (kind === 'idle') { this.effects.stopAll(); return; }
+    if (this.effects.primary() === kind && this.hasInstances(kind)) return;
     this.triggerEffect(kind);
   }
 
   isAnyEffectActive(): boolean {
-    return this.effectGroups.resonance.children.length > 0 || this.effectGroups.prism.children.length > 0 || this.effectGroups.rift.children.length > 0 || this.effectGroups.spikes.children.length > 0;
+    return !!(this.rings?.count || this.rays?.count || this.spikes?.count || this.rift?.visible);
   }
 
-  getActiveEffect(): EffectState { return this.activeEffect; }
+  // The effect music reinforces: the most recently started one that is not fading out
+  getActiveEffect(): EffectState { return this.effects.primary() ?? 'idle'; }
 
   // --- Emission helpers (music-triggered quantities supplied by caller) ---
   emitResonance(theme?: CrystalTheme, rings = 3) {
-    const th = theme ?? this.themes[this.themeIndex];
+    const pool = this.rings;
+    if (!pool) return; // disabled layer
+    const th = theme ?? this.theme;
     for (let i = 0; i < rings; i++) {
-      const g = new THREE.TorusGeometry(1.0 + i * 0.22, 0.02, 12, 72);
-      const m = new THREE.MeshBasicMaterial({
-        color: th.colors[i % th.colors.length],
-        transparent: true,
-        opacity: 1,
-        blending: THREE.AdditiveBlending,
-        side: THREE.DoubleSide,
-        depthWrite: false,
-      });
-      const w = new THREE.Mesh(g, m);
-      w.rotation.x = Math.PI / 2;
-      w.scale.setScalar(0.1);
-      (w as any).userData = { life: 1, delay: i * 0.06 };
-      this.effectGroups.resonance.add(w);
+      const index = pool.spawn();
+      if (index < 0) break;
+      const ring = pool.state(index);
+      ring.life = 1;
+      ring.delay = i * 0.06;
+      ring.radius = 1.0 + i * 0.22;
+      pool.setMatrix(index, this.matrixScratch.compose(ORIGIN, QUARTER_X, this.scaleScratch.set(0.1 * ring.radius, 0.1 * ring.radius, 0.1)));
+      pool.setColor(index, th.colors[i % th.colors.length]);
+      pool.setOpacity(index, 1);
     }
   }
 
   emitPrism(theme?: CrystalTheme, rays = 100) {
-    const th = theme ?? this.themes[this.themeIndex];
+    const pool = this.rays;
+    if (!pool) return; // disabled layer
+    const th = theme ?? this.theme;
+    const rotation = this.quaternionScratch;
     for (let i = 0; i < rays; i++) {
-      const g = new THREE.CylinderGeometry(0.004, 0.004, 5.5, 6);
-      const m = new THREE.MeshBasicMaterial({
-        color: th.colors[i % th.colors.length],
-        transparent: true,
-        opacity: 0,
-        blending: THREE.AdditiveBlending,
-        depthWrite: false,
-      });
-      const ray = new THREE.Mesh(g, m);
-      const dir = new THREE.Vector3().randomDirection();
-      ray.position.set(0, 0, 0);
-      ray.lookAt(dir);
-      ray.rotateX(Math.PI / 2);
-      (ray as any).userData = { life: 1, phase: 0 };
-      this.effectGroups.prism.add(ray);
+      const index = pool.spawn();
+      if (index < 0) break;
+      const ray = pool.state(index);
+      ray.life = 1;
+      ray.phase = 0;
+      aim(rotation, this.axisScratch.randomDirection(), QUARTER_X, this.matrixScratch);
+      pool.setMatrix(index, this.matrixScratch.makeRotationFromQuaternion(rotation));
+      pool.setColor(index, th.colors[i % th.colors.length]);
+      pool.setOpacity(index, 0);
     }
   }
 
+  // Bursts reuse the oldest particles of one fixed cloud, which fades as a whole
   emitRift(theme?: CrystalTheme, count = 1800) {
-    const th = theme ?? this.themes[this.themeIndex];
-    const pos = new Float32Array(count * 3);
-    const col = new Float32Array(count * 3);
-    const uD: { life: number; velocity: THREE.Vector3; rotationSpeed: number }[] = [];
-    for (let i = 0; i < count; i++) {
-      const c = th.colors[i % th.colors.length];
-      col[i * 3 + 0] = c.r; col[i * 3 + 1] = c.g; col[i * 3 + 2] = c.b;
-      uD.push({
-        life: 1.2 + Math.random() * 1.2,
-        velocity: new THREE.Vector3(Math.random() - 0.5, Math.random() - 0.5, Math.random() - 0.5)
-          .normalize().multiplyScalar(Math.random() * 3 + 1.5),
-        rotationSpeed: (Math.random() - 0.5) * 0.04,
-      });
+    const neb = this.rift;
+    if (!neb) return; // disabled layer
+    const th = theme ?? this.theme;
+    const posAttr = neb.geometry.getAttribute('position') as THREE.BufferAttribute;
+    const colAttr = neb.geometry.getAttribute('color') as THREE.BufferAttribute;
+    const n = Math.min(count, RIFT_CAPACITY);
+    for (let k = 0; k < n; k++) {
+      const i = (this.riftCursor + k) % RIFT_CAPACITY;
+      const c = th.colors[k % th.colors.length];
+      colAttr.setXYZ(i, c.r, c.g, c.b);
+      posAttr.setXYZ(i, 0, 0, 0);
+      this.riftLife[i] = 1.2 + Math.random() * 1.2;
+      this.axisScratch.set(Math.random() - 0.5, Math.random() - 0.5, Math.random() - 0.5)
+        .normalize().multiplyScalar(Math.random() * 3 + 1.5).toArray(this.riftVelocity, i * 3);
+      this.riftSpin[i] = (Math.random() - 0.5) * 0.04;
     }
-    const bg = new THREE.BufferGeometry();
-    bg.setAttribute('position', new THREE.Float32BufferAttribute(pos, 3));
-    bg.setAttribute('color', new THREE.Float32BufferAttribute(col, 3));
-    (bg as any).userData = uD;
-    const mat = new THREE.PointsMaterial({
-      size: 0.05,
-      vertexColors: true,
-      blending: THREE.AdditiveBlending,
-      transparent: true,
-      opacity: 1,
-      depthWrite: false,
-    });
-    const neb = new THREE.Points(bg, mat);
-    this.effectGroups.rift.add(neb);
+    this.riftCursor = (this.riftCursor + n) % RIFT_CAPACITY;
+    this.riftUsed = Math.min(RIFT_CAPACITY, this.riftUsed + n);
+    neb.geometry.setDrawRange(0, this.riftUsed);
+    posAttr.needsUpdate = true;
+    colAttr.needsUpdate = true;
+    this.riftFade = 1;
+    (neb.material as THREE.PointsMaterial).opacity = this.fade('rift');
+    neb.visible = true;
   }
 }
-
-
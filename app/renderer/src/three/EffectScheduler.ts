@@ -0,0 +1,121 @@
+/**
+ * How an effect enters and leaves the scene. When starting an effect would exceed the
+ * concurrency limit, the running effect with the lowest priority (then the oldest) fades out.
+ */
+export type EffectSpec = {
+  priority: number;
+  bloom: number; // added to the base bloom strength at full envelope
+  fadeIn: number; // seconds
+  fadeOut: number; // seconds
+};
+
+export type EffectStage = 'in' | 'hold' | 'out';
+
+type Running<K> = { kind: K; level: number; stage: EffectStage; started: number };
+
+/**
+ * Layers effects with in/out envelopes instead of cutting one off for the next: a started effect
+ * ramps to 1, holds, and ramps back to 0 when stopped or displaced, after which `onEnd` fires.
+ * Effects that are fading out do not count toward `maxConcurrent`.
+ */
+export class EffectScheduler<K extends string> {
+  private running: Running<K>[] = [];
+  private serial = 0;
+  private endCallbacks: Set<(kind: K) => void> = new Set();
+
+  constructor(private specs: Record<K, EffectSpec>, public maxConcurrent = 2) {}
+
+  // Starts an effect, or brings back one that is fading out; it becomes the primary effect
+  start(kind: K) {
+    let entry = this.running.find((e) => e.kind === kind);
+    if (!entry) {
+      entry = { kind, level: 0, stage: 'in', started: 0 };
+      this.running.push(entry);
+    } else if (entry.stage === 'out') {
+      entry.stage = 'in';
+    }
+    entry.started = ++this.serial;
+    this.enforceLimit(entry);
+  }
+
+  stop(kind: K) {
+    const entry = this.running.find((e) => e.kind === kind);
+    if (entry) entry.stage = 'out';
+  }
+
+  stopAll() {
+    for (const entry of this.running) entry.stage = 'out';
+  }
+
+  // Forgets every effect at once, without fades or end callbacks
+  reset() {
+    this.running = [];
+  }
+
+  update(dt: number) {
+    const ended: K[] = [];
+    for (const entry of this.running) {
+      const spec = this.specs[entry.kind];
+      if (entry.stage === 'in') {
+        entry.level = spec.fadeIn > 0 ? Math.min(1, entry.level + dt / spec.fadeIn) : 1;
+        if (entry.level >= 1) entry.stage = 'hold';
+      } else if (entry.stage === 'out') {
+        entry.level = spec.fadeOut > 0 ? Math.max(0, entry.level - dt / spec.fadeOut) : 0;
+        if (entry.level <= 0) ended.push(entry.kind);
+      }
+    }
+    if (ended.length === 0) return;
+    this.running = this.running.filter((e) => !ended.includes(e.kind));
+    for (const kind of ended) for (const cb of this.endCallbacks) cb(kind);
+  }
+
+  // Current envelope, 0..1 (0 when not running)
+  envelope(kind: K): number {
+    return this.running.find((e) => e.kind === kind)?.level ?? 0;
+  }
+
+  isRunning(kind: K): boolean {
+    return this.running.some((e) => e.kind === kind);
+  }
+
+  // The most recently started effect that is not fading out
+  primary(): K | null {
+    let best: Running<K> | null = null;
+    for (const entry of this.running) if (entry.stage !== 'out' && (!best || entry.started > best.started)) best = entry;
+    return best?.kind ?? null;
+  }
+
+  list(): { kind: K; level: number; stage: EffectStage }[] {
+    return this.running.map(({ kind, level, stage }) => ({ kind, level, stage }));
+  }
+
+  /**
+   * Strongest bloom contribution among running effects, each scaled by its envelope and by
+   * `weight` (e.g. 0 while an effect has nothing on screen).
+   */
+  bloom(weight: (kind: K) => number = () => 1): number {
+    let bloom = 0;
+    for (const entry of this.running) bloom = Math.max(bloom, this.specs[entry.kind].bloom * entry.level * weight(entry.kind));
+    return bloom;
+  }
+
+  onEnd(callback: (kind: K) => void): () => void {
+    this.endCallbacks.add(callback);
+    return () => this.endCallbacks.delete(callback);
+  }
+
+  private enforceLimit(keep: Running<K>) {
+    for (;;) {
+      const live = this.running.filter((e) => e.stage !== 'out');
+      if (live.length <= this.maxConcurrent) return;
+      let victim: Running<K> | null = null;
+      for (const entry of live) {
+        if (entry === keep) continue;
+        const spec = this.specs[entry.kind];
+        if (!victim || spec.priority < this.specs[victim.kind].priority || (spec.priority === this.specs[victim.kind].priority && entry.started < victim.started)) victim = entry;
+      }
+      if (!victim) return;
+      victim.stage = 'out';
+    }
+  }
+}
@@ -0,0 +1,115 @@
+import * as THREE from 'three';
+
+// Multiplies the material opacity by a per-instance `instanceOpacity` attribute
+function withInstanceOpacity(material: THREE.MeshBasicMaterial) {
+  material.onBeforeCompile = (shader) => {
+    shader.vertexShader = shader.vertexShader
+      .replace('#include <common>', 'attribute float instanceOpacity;\nvarying float vInstanceOpacity;\n#include <common>')
+      .replace('#include <begin_vertex>', '#include <begin_vertex>\n\tvInstanceOpacity = instanceOpacity;');
+    shader.fragmentShader = shader.fragmentShader
+      .replace('#include <common>', 'varying float vInstanceOpacity;\n#include <common>')
+      .replace('vec4 diffuseColor = vec4( diffuse, opacity );', 'vec4 diffuseColor = vec4( diffuse, opacity * vInstanceOpacity );');
+  };
+}
+
+/**
+ * Fixed-capacity set of short-lived instances drawn by one InstancedMesh, each with its own
+ * matrix, colour and opacity. Live instances are kept packed at the front, so spawning and
+ * expiring them allocates nothing and the mesh stays a single draw call. `createState` builds
+ * the per-instance bookkeeping once per slot; spawned slots reuse it.
+ */
+export class InstancePool<S> {
+  readonly mesh: THREE.InstancedMesh;
+  private states: S[];
+  private colors: THREE.InstancedBufferAttribute;
+  private opacities: THREE.InstancedBufferAttribute;
+  private live = 0;
+
+  constructor(geometry: THREE.BufferGeometry, material: THREE.MeshBasicMaterial, readonly capacity: number, createState: () => S) {
+    this.mesh = new THREE.InstancedMesh(geometry, material, capacity);
+    this.mesh.instanceMatrix.setUsage(THREE.DynamicDrawUsage);
+    this.colors = new THREE.InstancedBufferAttribute(new Float32Array(capacity * 3), 3).setUsage(THREE.DynamicDrawUsage);
+    this.mesh.instanceColor = this.colors;
+    this.opacities = new THREE.InstancedBufferAttribute(new Float32Array(capacity), 1).setUsage(THREE.DynamicDrawUsage);
+    geometry.setAttribute('instanceOpacity', this.opacities);
+    withInstanceOpacity(material);
+    this.mesh.count = 0;
+    this.mesh.frustumCulled = false; // instances move every frame; the bounds would go stale
+    this.states = Array.from({ length: capacity }, createState);
+  }
+
+  get count(): number {
+    return this.live;
+  }
+
+  // Claims the next free slot for the caller to fill in, or -1 when the pool is full
+  spawn(): number {
+    if (this.live >= this.capacity) return -1;
+    const index = this.live++;
+    this.mesh.count = this.live;
+    return index;
+  }
+
+  state(index: number): S {
+    return this.states[index];
+  }
+
+  // Scales every instance's opacity, e.g. to fade the whole pool in or out
+  set opacity(value: number) {
+    (this.mesh.material as THREE.MeshBasicMaterial).opacity = value;
+  }
+
+  setMatrix(index: number, matrix: THREE.Matrix4) {
+    this.mesh.setMatrixAt(index, matrix);
+  }
+
+  setColor(index: number, color: THREE.Color) {
+    this.colors.setXYZ(index, color.r, color.g, color.b);
+  }
+
+  setOpacity(index: number, opacity: number) {
+    this.opacities.setX(index, opacity);
+  }
+
+  /**
+   * Advances every live instance; `step` returns false to expire one. The last live instance
+   * moves into the freed slot and is stepped there, so each survivor is visited once.
+   */
+  update(step: (state: S, index: number) => boolean) {
+    let i = 0;
+    while (i < this.live) {
+      if (step(this.states[i], i)) {
+        i++;
+        continue;
+      }
+      this.live--;
+      if (i < this.live) this.move(this.live, i);
+    }
+    this.mesh.count = this.live;
+    this.mesh.instanceMatrix.needsUpdate = true;
+    this.colors.needsUpdate = true;
+    this.opacities.needsUpdate = true;
+  }
+
+  clear() {
+    this.live = 0;
+    this.mesh.count = 0;
+  }
+
+  dispose() {
+    this.clear();
+    this.mesh.removeFromParent();
+    this.mesh.geometry.dispose();
+    (this.mesh.material as THREE.Material).dispose();
+  }
+
+  private move(from: number, to: number) {
+    const matrices = this.mesh.instanceMatrix.array;
+    matrices.copyWithin(to * 16, from * 16, from * 16 + 16);
+    this.colors.array.copyWithin(to * 3, from * 3, from * 3 + 3);
+    this.opacities.array.copyWithin(to, from, from + 1);
+    const state = this.states[to];
+    this.states[to] = this.states[from];
+    this.states[from] = state;
+  }
+}
@@ -1,4 +1,6 @@
 import * as THREE from 'three';
+import type { ModTarget } from './modulation';
+import type { LayerContext, LayerFrame, VisualLayer } from './VisualLayer';
 
 const frag = `
 precision highp float;
@@ -8,6 +10,7 @@ uniform float uLow;
 uniform float uMid;
 uniform float uHigh;
 uniform float uAlpha;
+uniform vec3 uTint;
 
 float hash(vec2 p){return fract(sin(dot(p, vec2(127.1,311.7))) * 43758.5453);} 
 float noise(vec2 p){
@@ -30,48 +33,54 @@ void main(){
   float swirl = fbm(p*3.0 - t*1.5 + base);
   float energy = uLow*0.5 + uMid*0.35 + uHigh*0.15;
   float mask = smoothstep(0.15, 0.85, swirl + energy*0.6);
-  vec3 col = mix(vec3(0.01,0.02,0.05), vec3(0.1 + 0.8*uHigh, 0.2 + 0.7*uMid, 0.4 + 0.5*uLow), mask);
+  vec3 col = mix(uTint*0.08, uTint*(1.0 + energy) + 0.3*vec3(uHigh, uMid, uLow), mask);
   float alpha = clamp(uAlpha * (0.4 + 0.6*mask), 0.0, 1.0);
   gl_FragColor = vec4(col, alpha);
 }
 `;
 
-export class NebulaOverlay {
+export class NebulaOverlay implements VisualLayer {
+  readonly id = 'nebula';
+  readonly targets: ModTarget[] = [{ id: 'alpha', label: 'Nebula alpha', base: 0.22, min: 0, max: 0.6 }];
   private mesh: THREE.Mesh | null = null;
   private material: THREE.ShaderMaterial | null = null;
   private z = -2.5;
 
-  init(scene: THREE.Scene, width: number, height: number) {
+  init(ctx: LayerContext) {
     const geom = new THREE.PlaneGeometry(1, 1, 1, 1);
     this.material = new THREE.ShaderMaterial({
       transparent: true,
       depthWrite: false,
       uniforms: {
         uTime: { value: 0 },
-        uRes: { value: new THREE.Vector2(width, height) },
+        uRes: { value: new THREE.Vector2(ctx.width, ctx.height) },
         uLow: { value: 0 },
         uMid: { value: 0 },
         uHigh: { value: 0 },
         uAlpha: { value: 0.35 },
+        uTint: { value: new THREE.Color() },
       },
       fragmentShader: frag,
     });
     this.mesh = new THREE.Mesh(geom, this.material);
     this.mesh.position.z = this.z;
-    scene.add(this.mesh);
+    ctx.root.add(this.mesh);
+    this.resize(ctx);
   }
 
-  update(time: number, low: number, mid: number, high: number, alpha: number) {
+  update(frame: LayerFrame) {
     if (!this.material) return;
-    this.material.uniforms.uTime.value = time;
-    this.material.uniforms.uLow.value = low;
-    this.material.uniforms.uMid.value = mid;
-    this.material.uniforms.uHigh.value = high;
-    this.material.uniforms.uAlpha.value = alpha;
+    this.material.uniforms.uTime.value = frame.time;
+    this.material.uniforms.uLow.value = frame.low;
+    this.material.uniforms.uMid.value = frame.mid;
+    this.material.uniforms.uHigh.value = frame.high;
+    (this.material.uniforms.uTint.value as THREE.Color).copy(frame.theme.nebulaTint);
+    // Loudness reaches the alpha through a preset route (rms -> nebula.alpha)
+    this.material.uniforms.uAlpha.value = frame.modulation.get('nebula.alpha');
   }
 
   // Scale plane to cover full viewport given camera and renderer size
-  coverViewport(camera: THREE.PerspectiveCamera, width: number, height: number) {
+  resize({ camera, width, height }: LayerContext) {
     if (!this.mesh || !this.material) return;
     const vFov = THREE.MathUtils.degToRad(camera.fov);
     const dist = (camera.position.z - this.z);
@@ -81,8 +90,8 @@ export class NebulaOverlay {
     (this.material.uniforms.uRes.value as THREE.Vector2).set(width, height);
   }
 
-  dispose(scene: THREE.Scene) {
-    if (this.mesh) scene.remove(this.mesh);
+  dispose() {
+    this.mesh?.removeFromParent();
     if (this.mesh && this.mesh.geometry) this.mesh.geometry.dispose();
     if (this.material) this.material.dispose();
     this.mesh = null; this.material = null;
@@ -1,111 +1,207 @@
 import * as THREE from 'three';
-import type { Instrument } from '../analysis/InstrumentClassifier';
+import { InstrumentActivation, sameInstruments } from '../analysis/InstrumentClassifier';
+import type { LayerContext, LayerFrame, VisualLayer } from './VisualLayer';
+import type { ModTarget } from './modulation';
+import { DEFAULT_SIMULATION, particleBudget, ParticleSimulation, particleReferences, rendererName, simulationDataType } from './ParticleSimulation';
+import { ShapeLibrary } from './instrumentShapes';
 
-export class ParticleFigures {
+const pointVertex = /* glsl */ `
+uniform sampler2D texturePosition;
+uniform float uSize;
+uniform float uScale;
+attribute vec2 reference;
+varying float vSeed;
+void main(){
+  vec4 p = texture2D(texturePosition, reference);
+  vSeed = p.w;
+  vec4 mv = modelViewMatrix * vec4(p.xyz, 1.0);
+  gl_PointSize = uSize * (0.6 + 0.8 * p.w) * uScale / -mv.z;
+  gl_Position = projectionMatrix * mv;
+}
+`;
+
+const pointFragment = /* glsl */ `
+uniform vec3 uColor;
+uniform float uOpacity;
+varying float vSeed;
+void main(){
+  float d = length(gl_PointCoord - 0.5);
+  if (d > 0.5) discard;
+  gl_FragColor = vec4(uColor * (0.7 + 0.6 * vSeed), uOpacity * (1.0 - 2.0 * d));
+}
+`;
+
+// World-space point sizes; the 'figures.size' target scales them
+const GPU_POINT_SIZE = 0.012;
+const CPU_POINT_SIZE = 0.03;
+
+export type ParticleFiguresOptions = {
+  count: number | null; // particles simulated on the GPU; null scales it to the renderer (see particleBudget)
+  fallbackCount: number; // particles lerped on the CPU when the GPU simulation is unavailable
+  shapes: ShapeLibrary; // figure per instrument
+};
+
+/**
+ * Instrument silhouettes made of particles. With float render targets the particles live in a
+ * GPU simulation (see ParticleSimulation) and fly toward the figure through curl noise and
+ * audio forces; otherwise a smaller set is lerped toward it on the CPU.
+ */
+export class ParticleFigures implements VisualLayer {
+  readonly id = 'figures';
+  readonly targets: ModTarget[] = [
+    { id: 'size', label: 'Particle size', base: 1, min: 0.1, max: 4 },
+    { id: 'hue', label: 'Figure hue shift', base: 0, min: -1, max: 1 },
+  ];
   private points: THREE.Points | null = null;
-  private material: THREE.PointsMaterial | null = null;
+  private material: THREE.PointsMaterial | THREE.ShaderMaterial | null = null;
   private geometry: THREE.BufferGeometry | null = null;
+  private simulation: ParticleSimulation | null = null;
   private targetPositions: Float32Array | null = null;
-  private currentPositions: Float32Array | null = null;
+  private currentPositions: Float32Array | null = null; // CPU fallback only
   private lerpAlpha = 0.08;
+  private shown: InstrumentActivation[] = []; // instruments the current figure was built for
+  private hsl = { h: 0, s: 0, l: 0 };
+  private options: ParticleFiguresOptions;
+  private offShapes: (() => void) | null = null;
+
+  constructor(options: Partial<ParticleFiguresOptions> = {}) {
+    this.options = { count: null, fallbackCount: 4000, shapes: new ShapeLibrary(), ...options };
+  }
+
+  private get shapes(): ShapeLibrary {
+    return this.options.shapes;
+  }
+
+  // True while the particles run in the GPU simulation
+  get gpu(): boolean {
+    return !!this.simulation;
+  }
 
-  init(scene: THREE.Scene, count = 4000) {
+  init(ctx: LayerContext) {
     if (this.points) return;
+    if (!this.initGpu(ctx)) this.initCpu();
+    ctx.root.add(this.points!);
+    this.setFigure(this.shown);
+    // A new shape for a shown instrument re-targets its particles straight away
+    this.offShapes = this.shapes.onChange((instrument) => {
+      if (this.shown.some((a) => a.instrument === instrument)) this.setFigure(this.shown);
+    });
+  }
+
+  private initGpu(ctx: LayerContext): boolean {
+    const type = ctx.renderer ? simulationDataType(ctx.renderer) : null;
+    if (!ctx.renderer || type === null) return false;
+    const count = this.options.count ?? particleBudget(rendererName(ctx.renderer.getContext()));
+    const initial = scatter(count);
+    const seeds = new Float32Array(count);
+    for (let i = 0; i < count; i++) seeds[i] = Math.random();
+    try {
+      this.simulation = new ParticleSimulation(ctx.renderer, count, type, initial, seeds);
+    } catch (err) {
+      console.warn('GPU particle simulation unavailable; using CPU particles', err);
+      return false;
+    }
+    this.targetPositions = initial;
+    this.geometry = new THREE.BufferGeometry();
+    // Positions are read from the simulation texture, so there is no position attribute to count or bound
+    this.geometry.setAttribute('reference', new THREE.BufferAttribute(particleReferences(count, this.simulation.size), 2));
+    this.geometry.setDrawRange(0, count);
+    this.geometry.boundingSphere = new THREE.Sphere(new THREE.Vector3(), 3);
+    this.material = new THREE.ShaderMaterial({
+      uniforms: {
+        texturePosition: { value: null },
+        uSize: { value: GPU_POINT_SIZE },
+        uScale: { value: (ctx.height * ctx.renderer.getPixelRatio()) / 2 },
+        uColor: { value: new THREE.Color(0xffffff) },
+        uOpacity: { value: Math.min(0.9, 0.9 * Math.sqrt(4000 / count) + 0.12) },
+      },
+      vertexShader: pointVertex,
+      fragmentShader: pointFragment,
+      transparent: true,
+      blending: THREE.AdditiveBlending,
+      depthWrite: false,
+    });
+    this.points = new THREE.Points(this.geometry, this.material);
+    this.points.frustumCulled = false;
+    return true;
+  }
+
+  private initCpu() {
+    const count = this.options.fallbackCount;
     this.geometry = new THREE.BufferGeometry();
-    this.currentPositions = new Float32Array(count * 3);
+    this.currentPositions = scatter(count);
     this.targetPositions = new Float32Array(count * 3);
-    for (let i = 0; i < count; i++) {
-      this.currentPositions[i * 3 + 0] = (Math.random() - 0.5) * 2;
-      this.currentPositions[i * 3 + 1] = (Math.random() - 0.5) * 2;
-      this.currentPositions[i * 3 + 2] = (Math.random() - 0.5) * 2;
-    }
     this.geometry.setAttribute('position', new THREE.BufferAttribute(this.currentPositions, 3));
-    this.material = new THREE.PointsMaterial({ size: 0.03, color: 0xffffff, transparent: true, opacity: 0.9 });
+    this.material = new THREE.PointsMaterial({ size: CPU_POINT_SIZE, color: 0xffffff, transparent: true, opacity: 0.9 });
     this.points = new THREE.Points(this.geometry, this.material);
-    scene.add(this.points);
   }
 
-  setFigure(instrument: Instrument) {
+  // Splits the particles between the active instruments by confidence; each share forms that instrument's figure
+  setFigure(instruments: InstrumentActivation[]) {
+    this.shown = instruments;
     if (!this.targetPositions) return;
     const count = this.targetPositions.length / 3;
-    switch (instrument) {
-      case 'bass':
-        this.makeTorus(count, 1.0, 0.35);
-        break;
-      case 'drums':
-        this.makeSphere(count, 1.0);
-        break;
-      case 'guitar':
-        this.makeLissajous(count, 1.2);
-        break;
-      case 'none':
-      default:
-        this.makeSphere(count, 0.7);
-    }
-  }
-
-  update(t: number, hue: number, rotationSpeed = 0.2) {
-    if (!this.points || !this.geometry || !this.currentPositions || !this.targetPositions) return;
-    // Lerp towards target figure
-    for (let i = 0; i < this.currentPositions.length; i++) {
-      this.currentPositions[i] += (this.targetPositions[i] - this.currentPositions[i]) * this.lerpAlpha;
+    const total = instruments.reduce((sum, a) => sum + a.confidence, 0);
+    if (instruments.length === 0 || total <= 0) {
+      this.shapes.idle.sample(this.targetPositions, 0, count);
+    } else {
+      let from = 0;
+      instruments.forEach((a, i) => {
+        const to = i === instruments.length - 1 ? count : Math.min(count, from + Math.round((count * a.confidence) / total));
+        this.shapes.get(a.instrument).sample(this.targetPositions!, from, to);
+        from = to;
+      });
     }
-    const attr = this.geometry.getAttribute('position') as THREE.BufferAttribute;
-    attr.needsUpdate = true;
-    // Rotate slowly
-    this.points.rotation.y = t * rotationSpeed;
-    if (this.material) this.material.color.setHSL(hue, 0.8, 0.6);
-  }
-
-  dispose(scene: THREE.Scene) {
-    if (this.points) scene.remove(this.points);
-    if (this.geometry) this.geometry.dispose();
-    if (this.material) this.material.dispose();
-    this.points = null; this.geometry = null; this.material = null;
+    this.simulation?.setTargets(this.targetPositions);
   }
 
-  private makeSphere(count: number, r: number) {
-    if (!this.targetPositions) return;
-    for (let i = 0; i < count; i++) {
-      const u = Math.random();
-      const v = Math.random();
-      const theta = 2 * Math.PI * u;
-      const phi = Math.acos(2 * v - 1);
-      const x = r * Math.sin(phi) * Math.cos(theta);
-      const y = r * Math.sin(phi) * Math.sin(theta);
-      const z = r * Math.cos(phi);
-      this.targetPositions[i * 3 + 0] = x;
-      this.targetPositions[i * 3 + 1] = y;
-      this.targetPositions[i * 3 + 2] = z;
+  // Follows the active instruments and takes its colour from the palette edge colour
+  update(frame: LayerFrame) {
+    if (!this.points || !this.material) return;
+    if (!sameInstruments(this.shown, frame.activeInstruments)) this.setFigure(frame.activeInstruments);
+    const hue = frame.theme.edgeColor.getHSL(this.hsl).h + frame.modulation.get('figures.hue');
+    const size = frame.modulation.get('figures.size');
+    if (this.simulation && this.material instanceof THREE.ShaderMaterial) {
+      // Predicted beats kick the particles outward, harder when drums are playing
+      const pulse = frame.tempo ? Math.pow(1 - frame.tempo.phase, 4) * frame.tempo.confidence * (0.4 + 0.6 * frame.instruments.drums) : 0;
+      this.simulation.step({ ...DEFAULT_SIMULATION, dt: frame.dt, time: frame.time, low: frame.low, mid: frame.mid, high: frame.high, pulse });
+      this.material.uniforms.texturePosition.value = this.simulation.positionTexture;
+      (this.material.uniforms.uColor.value as THREE.Color).setHSL(hue, 0.8, 0.6);
+      this.material.uniforms.uSize.value = GPU_POINT_SIZE * size;
+    } else if (this.geometry && this.currentPositions && this.targetPositions) {
+      // Lerp towards target figure
+      for (let i = 0; i < this.currentPositions.length; i++) {
+        this.currentPositions[i] += (this.targetPositions[i] - this.currentPositions[i]) * this.lerpAlpha;
+      }
+      this.geometry.getAttribute('position').needsUpdate = true;
+      if (this.material instanceof THREE.PointsMaterial) {
+        this.material.color.setHSL(hue, 0.8, 0.6);
+        this.material.size = CPU_POINT_SIZE * size;
+      }
     }
+    // Sway rather than spin, so flat silhouettes never turn edge-on
+    this.points.rotation.y = Math.sin(frame.time * 0.3) * 0.5;
   }
 
-  private makeTorus(count: number, R: number, r: number) {
-    if (!this.targetPositions) return;
-    for (let i = 0; i < count; i++) {
-      const u = Math.random() * Math.PI * 2;
-      const v = Math.random() * Math.PI * 2;
-      const x = (R + r * Math.cos(v)) * Math.cos(u);
-      const y = (R + r * Math.cos(v)) * Math.sin(u);
-      const z = r * Math.sin(v);
-      this.targetPositions[i * 3 + 0] = x;
-      this.targetPositions[i * 3 + 1] = y;
-      this.targetPositions[i * 3 + 2] = z;
-    }
+  resize(ctx: LayerContext) {
+    if (this.material instanceof THREE.ShaderMaterial && ctx.renderer) this.material.uniforms.uScale.value = (ctx.height * ctx.renderer.getPixelRatio()) / 2;
   }
 
-  private makeLissajous(count: number, scale: number) {
-    if (!this.targetPositions) return;
-    for (let i = 0; i < count; i++) {
-      const t = (i / count) * Math.PI * 2 * 3.0;
-      const x = Math.sin(3 * t + Math.PI / 2) * scale;
-      const y = Math.sin(4 * t) * scale * 0.6;
-      const z = Math.sin(5 * t) * scale * 0.4;
-      this.targetPositions[i * 3 + 0] = x + (Math.random() - 0.5) * 0.15;
-      this.targetPositions[i * 3 + 1] = y + (Math.random() - 0.5) * 0.15;
-      this.targetPositions[i * 3 + 2] = z + (Math.random() - 0.5) * 0.15;
-    }
+  dispose() {
+    this.offShapes?.();
+    this.offShapes = null;
+    this.points?.removeFromParent();
+    if (this.geometry) this.geometry.dispose();
+    if (this.material) this.material.dispose();
+    this.simulation?.dispose();
+    this.points = null; this.geometry = null; this.material = null; this.simulation = null;
+    this.targetPositions = null; this.currentPositions = null;
   }
 }
 
-
+// Random start positions in a 2-unit cube, xyz per particle
+function scatter(count: number): Float32Array {
+  const out = new Float32Array(count * 3);
+  for (let i = 0; i < out.length; i++) out[i] = (Math.random() - 0.5) * 2;
+  return out;
+}
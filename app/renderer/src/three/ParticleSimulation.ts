@@ -0,0 +1,274 @@
+import * as THREE from 'three';
+import { GPUComputationRenderer, Variable } from 'three/examples/jsm/misc/GPUComputationRenderer.js';
+
+// Per-frame forces; all audio inputs are 0..1
+export type SimulationParams = {
+  dt: number;
+  time: number;
+  attraction: number; // spring strength toward the target shape
+  damping: number; // velocity loss per second
+  turbulence: number; // curl-noise strength
+  low: number; // pushes particles outward
+  mid: number; // swirls them around the vertical axis
+  high: number; // adds to the turbulence
+  pulse: number; // beat envelope, a short outward kick
+};
+
+export const DEFAULT_SIMULATION: Omit<SimulationParams, 'dt' | 'time' | 'low' | 'mid' | 'high' | 'pulse'> = {
+  attraction: 6,
+  damping: 3.5,
+  turbulence: 0.6,
+};
+
+// Only what simulationDataType looks at, so it can be checked without a GL context
+export type SimulationCapabilities = {
+  capabilities: { maxVertexTextures: number };
+  extensions: { has(name: string): boolean };
+};
+
+/**
+ * Texel type the simulation can render into, or null when it cannot run on this GPU (no float
+ * render targets or no texture fetch in the vertex shader). SwiftShader has both.
+ */
+export function simulationDataType(renderer: SimulationCapabilities): THREE.TextureDataType | null {
+  if (renderer.capabilities.maxVertexTextures === 0) return null;
+  if (renderer.extensions.has('EXT_color_buffer_float')) return THREE.FloatType;
+  if (renderer.extensions.has('EXT_color_buffer_half_float')) return THREE.HalfFloatType;
+  return null;
+}
+
+// GPU name for particleBudget: the unmasked one when the browser exposes it, else the WebGL renderer string
+export function rendererName(gl: WebGLRenderingContext | WebGL2RenderingContext): string {
+  const info = gl.getExtension('WEBGL_debug_renderer_info');
+  return String(gl.getParameter(info ? info.UNMASKED_RENDERER_WEBGL : gl.RENDERER) ?? '');
+}
+
+// Particles to simulate on a GPU; software rasterisers (SwiftShader, llvmpipe) cannot step 1M per frame
+export function particleBudget(rendererName: string): number {
+  return /swiftshader|llvmpipe|software/i.test(rendererName) ? 1 << 16 : 1 << 20;
+}
+
+// Side of the square state textures holding `count` particles
+export function simulationSize(count: number): number {
+  return Math.max(1, Math.ceil(Math.sqrt(count)));
+}
+
+// xyz triples into RGBA texels; w carries `w[i]` (default 1), texels past the particles stay at the origin
+export function packPositions(positions: Float32Array, size: number, out = new Float32Array(size * size * 4), w?: Float32Array): Float32Array {
+  const count = Math.min(positions.length / 3, size * size);
+  for (let i = 0; i < count; i++) {
+    out[i * 4 + 0] = positions[i * 3 + 0];
+    out[i * 4 + 1] = positions[i * 3 + 1];
+    out[i * 4 + 2] = positions[i * 3 + 2];
+    out[i * 4 + 3] = w ? w[i] : 1;
+  }
+  out.fill(0, count * 4);
+  return out;
+}
+
+// Texel centre of each particle, for looking its state up in the vertex shader
+export function particleReferences(count: number, size: number): Float32Array {
+  const out = new Float32Array(count * 2);
+  for (let i = 0; i < count; i++) {
+    out[i * 2 + 0] = ((i % size) + 0.5) / size;
+    out[i * 2 + 1] = (Math.floor(i / size) + 0.5) / size;
+  }
+  return out;
+}
+
+// 3D simplex noise (Ashima Arts, MIT) and its curl, a divergence-free flow field
+const curlNoise = /* glsl */ `
+vec4 permute(vec4 x){ return mod(((x*34.0)+1.0)*x, 289.0); }
+vec4 taylorInvSqrt(vec4 r){ return 1.79284291400159 - 0.85373472095314 * r; }
+float snoise(vec3 v){
+  const vec2 C = vec2(1.0/6.0, 1.0/3.0);
+  const vec4 D = vec4(0.0, 0.5, 1.0, 2.0);
+  vec3 i = floor(v + dot(v, C.yyy));
+  vec3 x0 = v - i + dot(i, C.xxx);
+  vec3 g = step(x0.yzx, x0.xyz);
+  vec3 l = 1.0 - g;
+  vec3 i1 = min(g.xyz, l.zxy);
+  vec3 i2 = max(g.xyz, l.zxy);
+  vec3 x1 = x0 - i1 + C.xxx;
+  vec3 x2 = x0 - i2 + 2.0 * C.xxx;
+  vec3 x3 = x0 - 1.0 + 3.0 * C.xxx;
+  i = mod(i, 289.0);
+  vec4 p = permute(permute(permute(i.z + vec4(0.0, i1.z, i2.z, 1.0)) + i.y + vec4(0.0, i1.y, i2.y, 1.0)) + i.x + vec4(0.0, i1.x, i2.x, 1.0));
+  float n_ = 1.0/7.0;
+  vec3 ns = n_ * D.wyz - D.xzx;
+  vec4 j = p - 49.0 * floor(p * ns.z * ns.z);
+  vec4 x_ = floor(j * ns.z);
+  vec4 y_ = floor(j - 7.0 * x_);
+  vec4 x = x_ * ns.x + ns.yyyy;
+  vec4 y = y_ * ns.x + ns.yyyy;
+  vec4 h = 1.0 - abs(x) - abs(y);
+  vec4 b0 = vec4(x.xy, y.xy);
+  vec4 b1 = vec4(x.zw, y.zw);
+  vec4 s0 = floor(b0) * 2.0 + 1.0;
+  vec4 s1 = floor(b1) * 2.0 + 1.0;
+  vec4 sh = -step(h, vec4(0.0));
+  vec4 a0 = b0.xzyw + s0.xzyw * sh.xxyy;
+  vec4 a1 = b1.xzyw + s1.xzyw * sh.zzww;
+  vec3 p0 = vec3(a0.xy, h.x);
+  vec3 p1 = vec3(a0.zw, h.y);
+  vec3 p2 = vec3(a1.xy, h.z);
+  vec3 p3 = vec3(a1.zw, h.w);
+  vec4 norm = taylorInvSqrt(vec4(dot(p0,p0), dot(p1,p1), dot(p2,p2), dot(p3,p3)));
+  p0 *= norm.x; p1 *= norm.y; p2 *= norm.z; p3 *= norm.w;
+  vec4 m = max(0.6 - vec4(dot(x0,x0), dot(x1,x1), dot(x2,x2), dot(x3,x3)), 0.0);
+  m = m * m;
+  return 42.0 * dot(m*m, vec4(dot(p0,x0), dot(p1,x1), dot(p2,x2), dot(p3,x3)));
+}
+vec3 potential(vec3 p){
+  return vec3(snoise(p), snoise(p + vec3(31.4, -17.2, 5.9)), snoise(p + vec3(-8.3, 44.1, 23.7)));
+}
+vec3 curlNoise(vec3 p){
+  const float e = 0.1;
+  vec3 dx = vec3(e, 0.0, 0.0);
+  vec3 dy = vec3(0.0, e, 0.0);
+  vec3 dz = vec3(0.0, 0.0, e);
+  vec3 px0 = potential(p - dx), px1 = potential(p + dx);
+  vec3 py0 = potential(p - dy), py1 = potential(p + dy);
+  vec3 pz0 = potential(p - dz), pz1 = potential(p + dz);
+  return vec3(
+    (py1.z - py0.z) - (pz1.y - pz0.y),
+    (pz1.x - pz0.x) - (px1.z - px0.z),
+    (px1.y - px0.y) - (py1.x - py0.x)
+  ) / (2.0 * e);
+}
+`;
+
+const velocityShader = /* glsl */ `
+uniform sampler2D textureTarget;
+uniform float uDt;
+uniform float uTime;
+uniform float uAttraction;
+uniform float uDamping;
+uniform float uTurbulence;
+uniform float uLow;
+uniform float uMid;
+uniform float uPulse;
+${curlNoise}
+void main(){
+  vec2 uv = gl_FragCoord.xy / resolution.xy;
+  vec3 pos = texture2D(texturePosition, uv).xyz;
+  vec3 vel = texture2D(textureVelocity, uv).xyz;
+  vec3 target = texture2D(textureTarget, uv).xyz;
+  vec3 force = (target - pos) * uAttraction;
+  force += curlNoise(pos * 1.3 + vec3(0.0, 0.0, uTime * 0.15)) * uTurbulence;
+  vec3 outward = pos / (length(pos) + 1e-3);
+  force += outward * (uLow * 1.5 + uPulse * 8.0);
+  force += vec3(-pos.z, 0.0, pos.x) * uMid * 2.0;
+  vel = (vel + force * uDt) * exp(-uDamping * uDt);
+  gl_FragColor = vec4(vel, 1.0);
+}
+`;
+
+const positionShader = /* glsl */ `
+uniform float uDt;
+void main(){
+  vec2 uv = gl_FragCoord.xy / resolution.xy;
+  vec4 pos = texture2D(texturePosition, uv);
+  vec3 vel = texture2D(textureVelocity, uv).xyz;
+  gl_FragColor = vec4(pos.xyz + vel * uDt, pos.w);
+}
+`;
+
+/**
+ * Particle positions and velocities in ping-pong float textures, stepped on the GPU: each
+ * particle springs toward its texel in the target texture while curl noise and the audio
+ * forces push it around. Draw with `positionTexture` and `particleReferences`.
+ */
+export class ParticleSimulation {
+  readonly size: number;
+  private gpu: GPUComputationRenderer;
+  private position: Variable;
+  private velocity: Variable;
+  private target: THREE.DataTexture;
+  private targetData: Float32Array;
+
+  // `initial` holds xyz per particle; `seeds` (0..1 each) rides along in the position w channel
+  constructor(private renderer: THREE.WebGLRenderer, count: number, private dataType: THREE.TextureDataType, initial: Float32Array, seeds?: Float32Array) {
+    const size = simulationSize(count);
+    this.size = size;
+    this.gpu = new GPUComputationRenderer(size, size, renderer);
+    this.gpu.setDataType(dataType);
+
+    const pos0 = this.gpu.createTexture();
+    packPositions(initial, size, pos0.image.data as Float32Array, seeds);
+    const vel0 = this.gpu.createTexture(); // zeros
+    this.targetData = packPositions(initial, size);
+    this.target = new THREE.DataTexture(this.targetData, size, size, THREE.RGBAFormat, THREE.FloatType);
+    this.target.needsUpdate = true;
+
+    this.velocity = this.gpu.addVariable('textureVelocity', velocityShader, vel0);
+    this.position = this.gpu.addVariable('texturePosition', positionShader, pos0);
+    this.gpu.setVariableDependencies(this.velocity, [this.position, this.velocity]);
+    this.gpu.setVariableDependencies(this.position, [this.position, this.velocity]);
+    Object.assign(this.velocity.material.uniforms, {
+      textureTarget: { value: this.target },
+      uDt: { value: 0 },
+      uTime: { value: 0 },
+      uAttraction: { value: DEFAULT_SIMULATION.attraction },
+      uDamping: { value: DEFAULT_SIMULATION.damping },
+      uTurbulence: { value: DEFAULT_SIMULATION.turbulence },
+      uLow: { value: 0 },
+      uMid: { value: 0 },
+      uPulse: { value: 0 },
+    });
+    this.position.material.uniforms.uDt = { value: 0 };
+
+    const error = this.gpu.init();
+    if (error) {
+      this.dispose();
+      throw new Error(error);
+    }
+  }
+
+  get positionTexture(): THREE.Texture {
+    return this.gpu.getCurrentRenderTarget(this.position).texture;
+  }
+
+  // New shape to attract toward; xyz per particle, same order as the initial positions
+  setTargets(positions: Float32Array) {
+    packPositions(positions, this.size, this.targetData);
+    this.target.needsUpdate = true;
+  }
+
+  step(params: SimulationParams) {
+    const u = this.velocity.material.uniforms;
+    u.uDt.value = params.dt;
+    u.uTime.value = params.time;
+    u.uAttraction.value = params.attraction;
+    u.uDamping.value = params.damping;
+    u.uTurbulence.value = params.turbulence * (1 + params.high * 2);
+    u.uLow.value = params.low;
+    u.uMid.value = params.mid;
+    u.uPulse.value = params.pulse;
+    this.position.material.uniforms.uDt.value = params.dt;
+    this.gpu.compute();
+  }
+
+  // Current xyz and seed of one particle, read back from the GPU; stalls the pipeline, so tests and debugging only
+  readPosition(index: number): [number, number, number, number] {
+    const target = this.gpu.getCurrentRenderTarget(this.position);
+    const x = index % this.size;
+    const y = Math.floor(index / this.size);
+    if (this.dataType === THREE.HalfFloatType) {
+      const texel = new Uint16Array(4);
+      this.renderer.readRenderTargetPixels(target, x, y, 1, 1, texel);
+      const [r, g, b, a] = Array.from(texel, (h) => THREE.DataUtils.fromHalfFloat(h));
+      return [r, g, b, a];
+    }
+    const texel = new Float32Array(4);
+    this.renderer.readRenderTargetPixels(target, x, y, 1, 1, texel);
+    return [texel[0], texel[1], texel[2], texel[3]];
+  }
+
+  dispose() {
+    this.gpu.dispose();
+    this.velocity.material.dispose();
+    this.position.material.dispose();
+    this.target.dispose();
+  }
+}
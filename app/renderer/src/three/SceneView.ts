@@ -1,8 +1,28 @@
 import * as THREE from 'three';
 import { PostFX } from './PostFX';
-import { InstrumentClassifier, Instrument } from '../analysis/InstrumentClassifier';
-import { CrystalSphere, EffectState } from './CrystalSphere';
+import { ClassifierKind, HeuristicClassifier, Instrument, InstrumentActivation, InstrumentTracker, sameInstruments } from '../analysis/InstrumentClassifier';
+import { OnnxInstrumentClassifier } from '../analysis/OnnxInstrumentClassifier';
+import { CrystalSphere, CrystalTheme, EffectState } from './CrystalSphere';
 import { NebulaOverlay } from './NebulaOverlay';
+import { ParticleFigures } from './ParticleFigures';
+import { Starfield } from './Starfield';
+import { AuroraLayer } from './AuroraLayer';
+import { DEFAULT_LAYERS, LayerFrame, LayerId, LayerStack } from './VisualLayer';
+import { ShapeFile, ShapeLibrary } from './instrumentShapes';
+import { loadShapeFile } from './shapeSources';
+import { ModRoute, ModTarget, ModulationMatrix } from './modulation';
+import type { AudioFeaturesFrame } from '../audio/AudioEngine';
+import type { SpectralFeatures } from '../analysis/spectralFeatures';
+import type { TempoInfo } from '../analysis/TempoTracker';
+import { DrumOnsets, mergeOnsets } from '../analysis/DrumOnsetDetector';
+import { dominantPan } from '../analysis/stereoField';
+import { HarmonyPalette } from './harmonyPalette';
+import { accentTheme, SectionCue, SectionScheduler } from './SectionScheduler';
+import type { SectionInfo } from '../analysis/StructureAnalyzer';
+import { GM_DRUM_CHANNEL, midiDrumOnsets, MidiEvent } from '../audio/midiFile';
+
+// What the scene chose to show; recorded alongside frame captures
+export type SceneDecision = { instruments: InstrumentActivation[]; effect: EffectState };
 
 export class SceneView {
   private renderer: THREE.WebGLRenderer | null = null;
@@ -19,12 +39,29 @@ export class SceneView {
   private canvas2d: HTMLCanvasElement | null = null;
   private ctx2d: CanvasRenderingContext2D | null = null;
   private postfx: PostFX | null = null;
-  private nebula: NebulaOverlay | null = null;
-  private instrumentClassifier = new InstrumentClassifier(5);
-  private currentInstrument: Instrument = 'none';
+  private layers: LayerStack | null = null;
+  private lastFrameAt = 0; // seconds since start, for the per-frame dt
+  private shapes = new ShapeLibrary();
+  private modulation = new ModulationMatrix();
+  private instruments = new InstrumentTracker(new HeuristicClassifier());
+  private classifierRequest = 0; // latest setClassifier call; earlier model loads are discarded
+  private activeInstruments: InstrumentActivation[] = [];
   private crystal: CrystalSphere | null = null;
   private lastEffectSwitchAt = 0;
   private minHoldSeconds = 3.0;
+  private tempo: TempoInfo | null = null;
+  private decisionCallbacks: Set<(decision: SceneDecision) => void> = new Set();
+  private palette = new HarmonyPalette();
+  private sections = new SectionScheduler();
+  private section: SectionInfo | null = null; // set during file playback; effects then change only at section boundaries
+  private heldTheme: CrystalTheme | null = null; // harmony repaint waiting for the next section boundary
+  private midiActive = false; // frames carry MIDI: notes replace band-inferred emissions
+  private midiDrums = false; // the attached MIDI has played drum notes: they replace spectral onsets
+  private pendingOnsets: DrumOnsets | null = null; // hits since the last animation frame, for the classifier
+  private pendingBeat = false; // a tracked beat since the last animation frame
+  private lastBandLevels: number[] | undefined;
+  private lastSpectral: SpectralFeatures | undefined;
+  private disposed = false;
 
   constructor(private container: HTMLElement) {
     const rect = container.getBoundingClientRect();
@@ -78,14 +115,17 @@ export class SceneView {
       this.postfx.init(this.renderer, this.scene, this.camera, new THREE.Vector2(width, height));
       this.postfx.setBloom(0.7, 0.9, 0.85);
 
-      // Fullscreen nebula overlay
-      this.nebula = new NebulaOverlay();
-      this.nebula.init(this.scene, width, height);
-      this.nebula.coverViewport(this.camera, width, height);
-
-      // Crystal sphere effect bundle
-      this.crystal = new CrystalSphere();
-      this.crystal.init(this.scene, 0.9, 5);
+      // Back to front: background layers, the crystal effect bundle, instrument silhouettes.
+      // Presets pick which of them run and in what order.
+      this.crystal = new CrystalSphere(0.9, 5);
+      this.layers = new LayerStack(this.scene, this.camera, this.renderer, width, height);
+      this.layers.add(new Starfield(), false);
+      this.layers.add(new AuroraLayer(), false);
+      this.layers.add(new NebulaOverlay(), false);
+      this.layers.add(this.crystal, false);
+      this.layers.add(new ParticleFigures({ fallbackCount: 2500, shapes: this.shapes }), false);
+      this.layers.configure(DEFAULT_LAYERS);
+      this.modulation.setTargets(this.layers.targets());
     } catch (e) {
       // Fallback to 2D canvas rendering to avoid crashing when WebGL is not available
       this.is2D = true;
@@ -105,43 +145,111 @@ export class SceneView {
     this.animate();
   }
 
+  updateFromFrame(frame: AudioFeaturesFrame) {
+    this.tempo = frame.tempo ?? null;
+    this.lastBandLevels = frame.bandLevels;
+    this.lastSpectral = frame.spectral;
+    // Hard-panned material pulls the crystal (and its effects) toward that side
+    if (frame.stereo && frame.bandLevels) this.crystal?.setPan(dominantPan(frame.stereo, frame.bandLevels));
+    // Colours follow key and chord; the preset palette shows through while the key is uncertain
+    const repaint = this.palette.update(frame.harmony);
+    this.section = frame.section ?? null;
+    if (this.section) {
+      if (repaint) this.heldTheme = repaint.theme;
+      const cue = this.sections.update(this.section);
+      if (cue) this.commitSection(cue);
+    } else {
+      this.sections.reset();
+      if (repaint) this.crystal?.setTheme(repaint.theme, repaint.transitionSeconds);
+    }
+    let onsets = frame.onsets;
+    this.midiActive = !!frame.midi;
+    if (frame.midi) {
+      const drums = midiDrumOnsets(frame.midi);
+      if (drums) this.midiDrums = true;
+      if (this.midiDrums) onsets = drums ?? { kick: 0, snare: 0, hat: 0 };
+    } else {
+      this.midiDrums = false;
+    }
+    if (onsets) {
+      this.pendingOnsets = this.pendingOnsets ? mergeOnsets(this.pendingOnsets, onsets) : onsets;
+      this.modulation.hit(onsets);
+    }
+    if (frame.beat) this.pendingBeat = true;
+    this.applyAudio(frame.rms, frame.bands.low, frame.bands.mid, frame.bands.high, frame.beat, onsets);
+    if (frame.midi) this.playMidiNotes(frame.midi);
+  }
+
+  // Melodic note-ons reinforce the active effect: rays for prism, a ring for resonance
+  private playMidiNotes(events: MidiEvent[]) {
+    if (!this.crystal) return;
+    let count = 0;
+    let strongest = 0;
+    for (const e of events) {
+      if (e.type !== 'on' || e.channel === GM_DRUM_CHANNEL) continue;
+      count++;
+      strongest = Math.max(strongest, e.velocity / 127);
+    }
+    if (count === 0) return;
+    const active = this.crystal.getActiveEffect();
+    if (active === 'prism') this.crystal.emitPrism(this.crystal.getTheme(), Math.min(120, count * Math.round(10 + strongest * 30)));
+    else if (active === 'resonance') this.crystal.emitResonance(this.crystal.getTheme(), 1);
+  }
+
   updateFromAudio(rms: number, low: number, mid: number, high: number, beat?: boolean) {
+    this.applyAudio(rms, low, mid, high, beat);
+  }
+
+  // With per-drum onsets, kicks feed the rift, snares the spikes and hats the twinkle; otherwise fall back to bands/beat
+  private applyAudio(rms: number, low: number, mid: number, high: number, beat?: boolean, onsets?: DrumOnsets) {
     this.lastRms = rms;
     this.lastLow = low;
     this.lastMid = mid;
     this.lastHigh = high;
     // reduce intensity: disable emissive pulse
 
-    // Drive crystal sphere colors and occasional effect switching
+    // Drive occasional effect switching (colours come from harmony in updateFromFrame)
     if (this.crystal) {
       const now = performance.now() * 0.001;
-      // Map instrument in animate and theme here by energy-band mix
-      const energy = Math.min(1, low * 0.5 + mid * 0.3 + high * 0.2 + rms * 0.3);
-      this.crystal.setThemeByEnergyInstrument(energy, this.currentInstrument);
-      // Music-driven effect selection with hold time (no mixing)
+      // Music-driven effect selection with hold time (displaced effects fade out instead of cutting off)
       const chosen = this.chooseEffect(low, mid, high, this.lastRms, !!beat);
-      const canSwitch = (now - this.lastEffectSwitchAt) > this.minHoldSeconds;
-      if (chosen && chosen !== this.crystal.getActiveEffect()) {
+      // With a locked tempo, hold effect changes until the next predicted beat
+      const onGrid = !this.tempo || this.tempo.confidence < 0.4 || !!beat;
+      const canSwitch = (now - this.lastEffectSwitchAt) > this.minHoldSeconds && onGrid;
+      if (chosen && !this.section && chosen !== this.crystal.getActiveEffect()) {
         if (canSwitch) {
-          this.crystal.setExclusiveEffect(chosen);
+          this.crystal.setEffect(chosen);
           this.lastEffectSwitchAt = now;
+          this.emitDecision();
         }
       }
       // During spikes, only modulate spikes themselves
-      if (this.crystal.getActiveEffect() === 'spikes' && (beat || high > 0.5)) {
+      if (this.crystal.getActiveEffect() === 'spikes' && (onsets ? onsets.snare > 0 : beat || high > 0.5)) {
         this.crystal.triggerSpikesFromAudio(low, mid, high);
       }
-      // Music-driven emissions to reinforce active effect (no mixing)
+      // Music-driven emissions to reinforce the primary effect only
       const active = this.crystal.getActiveEffect();
-      if (active === 'resonance' && (beat || mid > 0.55)) {
-        this.crystal.emitResonance((this.crystal as any).themes?.[(this.crystal as any).themeIndex] ?? undefined, 2);
-      } else if (active === 'prism' && high > 0.55) {
-        this.crystal.emitPrism((this.crystal as any).themes?.[(this.crystal as any).themeIndex] ?? undefined, 60);
-      } else if (active === 'rift' && low > 0.55) {
-        this.crystal.emitRift((this.crystal as any).themes?.[(this.crystal as any).themeIndex] ?? undefined, 900);
+      if (active === 'resonance' && !this.midiActive && (beat || mid > 0.55)) {
+        this.crystal.emitResonance(this.crystal.getTheme(), 2);
+      } else if (active === 'prism' && !this.midiActive && high > 0.55) {
+        this.crystal.emitPrism(this.crystal.getTheme(), 60);
+      } else if (active === 'rift' && (onsets ? onsets.kick > 0 : low > 0.55)) {
+        const count = onsets ? Math.floor(300 + onsets.kick * 600) : 900;
+        this.crystal.emitRift(this.crystal.getTheme(), count);
       }
-      // Tune bloom to crystal desired level
-      if (this.postfx) this.postfx.setBloom(this.crystal.bloomStrength, 0.9, 0.85);
+      if (onsets && onsets.hat > 0) this.crystal.twinkle(onsets.hat);
+    }
+  }
+
+  // Section boundary: switch effect and commit any held palette change together
+  private commitSection(cue: SectionCue) {
+    if (!this.crystal) return;
+    this.crystal.setTheme(accentTheme(this.heldTheme ?? this.palette.current(), cue.section.energy), 1);
+    this.heldTheme = null;
+    if (cue.effect !== this.crystal.getActiveEffect()) {
+      this.crystal.setEffect(cue.effect);
+      this.lastEffectSwitchAt = performance.now() * 0.001;
+      this.emitDecision();
     }
   }
 
@@ -178,22 +286,85 @@ export class SceneView {
       this.mesh.material.color = color;
       // decay emissive pulse
       this.mesh.material.emissiveIntensity = Math.max(0.2, this.mesh.material.emissiveIntensity * 0.92);
-      // Instrument
-      this.currentInstrument = this.instrumentClassifier.update(t, this.lastRms, this.lastLow, this.lastMid, this.lastHigh, this.lastRms > 0.12);
-      // Nebula overlay reacts to music; lower alpha for reduced intensity
-      if (this.nebula && this.camera) {
-        const alpha = 0.22 + Math.min(0.35, this.lastRms * 0.6);
-        this.nebula.update(t, this.lastLow, this.lastMid, this.lastHigh, alpha);
+      // Instruments; several can be active at once
+      const beat = this.pendingBeat;
+      this.pendingBeat = false;
+      const prevInstruments = this.activeInstruments;
+      this.activeInstruments = this.instruments.update({
+        time: t,
+        rms: this.lastRms,
+        low: this.lastLow,
+        mid: this.lastMid,
+        high: this.lastHigh,
+        beat,
+        onsets: this.pendingOnsets ?? undefined,
+        bandLevels: this.lastBandLevels,
+        mfcc: this.lastSpectral?.mfcc,
+        centroid: this.lastSpectral?.centroid,
+        flatness: this.lastSpectral?.flatness,
+        chroma: this.lastSpectral?.chroma,
+      });
+      this.pendingOnsets = null;
+      if (!sameInstruments(prevInstruments, this.activeInstruments)) this.emitDecision();
+      const dt = Math.min(0.1, Math.max(0, t - this.lastFrameAt));
+      this.lastFrameAt = t;
+      if (this.crystal && this.layers) {
+        const frame: LayerFrame = {
+          time: t,
+          dt,
+          rms: this.lastRms,
+          low: this.lastLow,
+          mid: this.lastMid,
+          high: this.lastHigh,
+          beat,
+          tempo: this.tempo,
+          theme: this.crystal.getTheme(),
+          instruments: this.instruments.confidences(),
+          activeInstruments: this.activeInstruments,
+          modulation: this.modulation,
+        };
+        this.modulation.update(frame);
+        this.layers.update(frame);
+        // A disabled crystal still owns the palette the other layers follow
+        if (!this.layers.isEnabled('crystal')) this.crystal.advanceTransition(dt);
+        // Bloom follows the effects on screen, including ones fading out
+        if (this.postfx) this.postfx.setBloom(this.crystal.bloomStrength, 0.9, 0.85);
       }
-      // Update crystal after instrument is known
-      this.crystal?.update(1/60, t, this.lastLow, this.lastMid, this.lastHigh, this.lastRms, this.lastRms > 0.12);
       if (this.postfx) this.postfx.render(0);
       else this.renderer.render(this.scene, this.camera);
     }
     this.frameHandle = requestAnimationFrame(this.animate);
   };
 
+  /**
+   * Switches instrument detection. Resolves with the classifier actually in use: the heuristics
+   * stay when the ONNX model cannot be loaded.
+   */
+  async setClassifier(kind: ClassifierKind): Promise<ClassifierKind> {
+    const request = ++this.classifierRequest;
+    if (kind === 'heuristic') {
+      this.instruments.setClassifier(new HeuristicClassifier());
+      return kind;
+    }
+    if (this.instruments.getClassifier().kind === kind) return kind;
+    const onnx = new OnnxInstrumentClassifier();
+    try {
+      await onnx.init();
+    } catch (err) {
+      console.warn('ONNX instrument classifier unavailable; using heuristics', err);
+      return this.instruments.getClassifier().kind;
+    }
+    if (this.disposed || request !== this.classifierRequest) {
+      onnx.dispose();
+      return this.instruments.getClassifier().kind;
+    }
+    this.instruments.setClassifier(onnx);
+    return kind;
+  }
+
   dispose() {
+    this.disposed = true;
+    this.instruments.dispose();
     if (this.frameHandle) {
       cancelAnimationFrame(this.frameHandle);
       this.frameHandle = null;
@@ -207,7 +378,9 @@ export class SceneView {
       const el = (this.renderer.domElement as any) as HTMLElement;
       if (el && el.parentNode) el.parentNode.removeChild(el);
     }
-    if (this.scene && this.nebula) { this.nebula.dispose(this.scene); this.nebula = null; }
+    this.layers?.dispose();
+    this.layers = null;
+    this.crystal = null;
 
     if (this.canvas2d) {
       if (this.canvas2d.parentNode) this.canvas2d.parentNode.removeChild(this.canvas2d);
@@ -233,15 +406,73 @@ export class SceneView {
       this.camera.aspect = width / height;
       this.camera.updateProjectionMatrix();
       this.renderer.setSize(width, height, false);
-      if (this.nebula) this.nebula.coverViewport(this.camera, width, height);
+      this.layers?.resize(width, height);
       if (this.postfx) this.postfx.setSize(width, height);
       this.renderer.render(this.scene, this.camera);
     }
   };
 
-  // Exposed to UI for presets
+  onDecision(callback: (decision: SceneDecision) => void): () => void {
+    this.decisionCallbacks.add(callback);
+    return () => this.decisionCallbacks.delete(callback);
+  }
+
+  private emitDecision() {
+    const decision: SceneDecision = { instruments: this.activeInstruments, effect: this.crystal?.getActiveEffect() ?? 'idle' };
+    for (const cb of this.decisionCallbacks) cb(decision);
+  }
+
+  // Preset or user palette that harmony colours blend over (cover art replaces it while a
+  // track has some); every layer follows it. The theme editor previews with 0 seconds
+  setTheme(theme: CrystalTheme, transitionSeconds = 1) {
+    this.crystal?.setTheme(this.palette.setBase(theme), transitionSeconds);
+  }
+
+  // Per-track palette from cover art; null returns to the preset palette
+  setArtworkTheme(theme: CrystalTheme | null) {
+    this.crystal?.setTheme(this.palette.setArtwork(theme), 1.5);
+  }
+
+  // New track: forget the previous song's key and chord so the next key gets the first-key fade
+  resetHarmony() {
+    this.palette.reset();
+    this.heldTheme = null;
+    this.crystal?.setTheme(this.palette.current(), 1.5);
+  }
+
+  /**
+   * Custom silhouette for an instrument from an SVG, glTF/GLB, OBJ or image file; null restores
+   * the built-in outline. Rejects when the file cannot be turned into a shape.
+   */
+  async setInstrumentShape(instrument: Instrument, file: ShapeFile | null): Promise<void> {
+    this.shapes.setCustom(instrument, file ? await loadShapeFile(file.name, file.bytes) : null);
+  }
+
   setStarDensity(density: number) {
-    // no-op: starfield removed
+    this.layers?.get<Starfield>('starfield')?.setDensity(density);
+  }
+
+  // Enables exactly these layers, back to front
+  setLayers(ids: LayerId[]) {
+    this.layers?.configure(ids);
+  }
+
+  getLayers(): { id: LayerId; enabled: boolean }[] {
+    return this.layers?.list() ?? [];
+  }
+
+  // Routes from audio sources to layer parameters; presets replace them wholesale
+  setModulationRoutes(routes: ModRoute[]) {
+    this.modulation.setRoutes(routes);
+  }
+
+  getModulationRoutes(): ModRoute[] {
+    return this.modulation.getRoutes();
+  }
+
+  // Parameters the layers expose, whether or not they are enabled
+  getModulationTargets(): ModTarget[] {
+    return this.modulation.getTargets();
   }
 
   private chooseEffect(low: number, mid: number, high: number, rms: number, beat: boolean): EffectState | null {
@@ -268,5 +499,3 @@ export class SceneView {
     return null;
   }
 }
-
-
@@ -0,0 +1,46 @@
+import type { SectionInfo, SectionLabel } from '../analysis/StructureAnalyzer';
+import type { CrystalTheme, EffectState } from './CrystalSphere';
+
+// Effect per section type; sections of the same type alternate through the list by index
+const SECTION_EFFECTS: Record<SectionLabel, EffectState[]> = {
+  intro: ['resonance'],
+  verse: ['resonance', 'prism'],
+  chorus: ['prism', 'spikes'],
+  buildup: ['prism'],
+  drop: ['rift', 'spikes'],
+  breakdown: ['resonance'],
+  outro: ['resonance'],
+};
+
+export type SectionCue = { section: SectionInfo; effect: EffectState };
+
+/**
+ * Turns the per-frame section into one cue per section change, so scene changes land on
+ * phrase boundaries instead of mid-phrase. Seeking into another section cues it as well.
+ */
+export class SectionScheduler {
+  private index = -1;
+
+  update(section: SectionInfo | undefined): SectionCue | null {
+    if (!section || section.index === this.index) return null;
+    this.index = section.index;
+    const effects = SECTION_EFFECTS[section.label];
+    return { section, effect: effects[section.index % effects.length] };
+  }
+
+  reset() {
+    this.index = -1;
+  }
+}
+
+// Lifts or dims a palette by section energy (0..1, 0.5 leaves it unchanged)
+export function accentTheme(theme: CrystalTheme, energy: number): CrystalTheme {
+  const shift = (energy - 0.5) * 0.16;
+  return {
+    name: theme.name,
+    colors: theme.colors.map((c) => c.clone().offsetHSL(0, shift * 0.5, shift)),
+    coreColor: theme.coreColor.clone().offsetHSL(0, 0, shift),
+    edgeColor: theme.edgeColor.clone().offsetHSL(0, 0, shift),
+    nebulaTint: theme.nebulaTint.clone().offsetHSL(0, 0, shift * 0.5),
+  };
+}
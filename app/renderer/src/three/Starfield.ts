@@ -1,13 +1,25 @@
 import * as THREE from 'three';
+import type { ModTarget } from './modulation';
+import type { LayerContext, LayerFrame, VisualLayer } from './VisualLayer';
 
-export class Starfield {
+export class Starfield implements VisualLayer {
+  readonly id = 'starfield';
+  readonly targets: ModTarget[] = [{ id: 'opacity', label: 'Star opacity', base: 0.6, min: 0, max: 1 }];
   private points: THREE.Points | null = null;
   private material: THREE.PointsMaterial | null = null;
   private geometry: THREE.BufferGeometry | null = null;
+  private ctx: LayerContext | null = null;
 
-  init(scene: THREE.Scene, density: number, radius = 50) {
+  constructor(
+    private density = 700,
+    private radius = 50,
+  ) {}
+
+  init(ctx: LayerContext) {
     if (this.points) return;
-    const count = Math.max(100, Math.floor(density));
+    this.ctx = ctx;
+    const radius = this.radius;
+    const count = Math.max(100, Math.floor(this.density));
     const positions = new Float32Array(count * 3);
     for (let i = 0; i < count; i++) {
       const r = radius * (0.3 + Math.random() * 0.7);
@@ -24,18 +36,24 @@ export class Starfield {
     this.geometry.setAttribute('position', new THREE.BufferAttribute(positions, 3));
     this.material = new THREE.PointsMaterial({ size: 0.12, color: 0xffffff, transparent: true, opacity: 0.8 });
     this.points = new THREE.Points(this.geometry, this.material);
-    scene.add(this.points);
+    ctx.root.add(this.points);
   }
 
-  update(t: number, highEnergy: number) {
+  update(frame: LayerFrame) {
     if (!this.points) return;
-    // Subtle parallax-like rotation and twinkle via opacity
+    const t = frame.time;
+    const highEnergy = frame.high;
+    // Subtle parallax-like rotation; the twinkle comes through the opacity target
     this.points.rotation.y = t * 0.02 + highEnergy * 0.2;
-    if (this.material) this.material.opacity = 0.6 + highEnergy * 0.4;
+    if (this.material) {
+      this.material.opacity = frame.modulation.get('starfield.opacity');
+      // Mostly white, faintly tinted by the palette edge colour
+      this.material.color.setRGB(1, 1, 1).lerp(frame.theme.edgeColor, 0.25);
+    }
   }
 
-  dispose(scene: THREE.Scene) {
-    if (this.points) scene.remove(this.points);
+  dispose() {
+    this.points?.removeFromParent();
     this.points = null;
     if (this.geometry) this.geometry.dispose();
     if (this.material) this.material.dispose();
@@ -43,11 +61,14 @@ export class Starfield {
     this.material = null;
   }
 
-  setDensity(scene: THREE.Scene, density: number) {
-    if (!this.points) return this.init(scene, density);
+  setDensity(density: number) {
+    if (density === this.density) return;
+    this.density = density;
+    const ctx = this.ctx;
+    if (!this.points || !ctx) return;
     // Rebuild geometry for new density
-    this.dispose(scene);
-    this.init(scene, density);
+    this.dispose();
+    this.init(ctx);
   }
 }
 
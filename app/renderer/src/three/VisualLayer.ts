@@ -0,0 +1,152 @@
+import * as THREE from 'three';
+import type { TempoInfo } from '../analysis/TempoTracker';
+import type { InstrumentActivation, InstrumentActivations } from '../analysis/InstrumentClassifier';
+import type { CrystalTheme } from './CrystalSphere';
+import type { Modulation, ModTarget } from './modulation';
+
+export type LayerId = 'starfield' | 'aurora' | 'nebula' | 'crystal' | 'figures';
+
+export const LAYER_IDS: LayerId[] = ['starfield', 'aurora', 'nebula', 'crystal', 'figures'];
+
+// What SceneView runs when no preset says otherwise, back to front
+export const DEFAULT_LAYERS: LayerId[] = ['nebula', 'crystal', 'figures'];
+
+export type LayerContext = {
+  root: THREE.Group; // the layer's own group; the stack adds it to the scene in layer order
+  camera: THREE.PerspectiveCamera;
+  renderer: THREE.WebGLRenderer | null; // null in tests; layers needing GPU work fall back or stay empty
+  width: number; // CSS pixels
+  height: number;
+};
+
+// Shared per-frame audio/time state handed to every enabled layer
+export type LayerFrame = {
+  time: number; // seconds since the scene started
+  dt: number; // seconds since the previous frame
+  rms: number;
+  low: number;
+  mid: number;
+  high: number;
+  beat: boolean;
+  tempo: TempoInfo | null;
+  theme: CrystalTheme; // current palette
+  instruments: Readonly<InstrumentActivations>;
+  activeInstruments: InstrumentActivation[];
+  modulation: Modulation; // routed values of every layer's targets, by `<layer>.<target>` id
+};
+
+/**
+ * A self-contained part of the scene. `init` builds objects under `ctx.root`, `dispose`
+ * releases them; a disabled layer holds no GPU resources and can be re-initialised later.
+ */
+export type VisualLayer = {
+  readonly id: LayerId;
+  readonly targets?: ModTarget[]; // parameters the modulation matrix may drive
+  init(ctx: LayerContext): void;
+  update(frame: LayerFrame): void;
+  resize?(ctx: LayerContext): void;
+  dispose(): void;
+};
+
+// Layer ids from preset JSON; null when the field is missing or malformed
+export function parseLayers(value: unknown): LayerId[] | null {
+  if (!Array.isArray(value)) return null;
+  const ids = value.filter((v): v is LayerId => LAYER_IDS.includes(v as LayerId));
+  return ids.length === value.length ? [...new Set(ids)] : null;
+}
+
+type Entry = { layer: VisualLayer; root: THREE.Group | null };
+
+/**
+ * Ordered, individually enabled layers. Each enabled layer renders in its own group whose
+ * renderOrder follows the stack, so later layers draw over earlier ones.
+ */
+export class LayerStack {
+  private entries: Entry[] = [];
+
+  constructor(
+    private scene: THREE.Scene,
+    private camera: THREE.PerspectiveCamera,
+    private renderer: THREE.WebGLRenderer | null,
+    private width: number,
+    private height: number,
+  ) {}
+
+  add(layer: VisualLayer, enabled = true) {
+    if (this.entries.some((e) => e.layer.id === layer.id)) throw new Error(`Layer ${layer.id} already added`);
+    this.entries.push({ layer, root: null });
+    if (enabled) this.setEnabled(layer.id, true);
+    this.applyOrder();
+  }
+
+  get<T extends VisualLayer>(id: LayerId): T | null {
+    return (this.entries.find((e) => e.layer.id === id)?.layer as T | undefined) ?? null;
+  }
+
+  isEnabled(id: LayerId): boolean {
+    return !!this.entries.find((e) => e.layer.id === id)?.root;
+  }
+
+  // Layer ids in render order with their state
+  list(): { id: LayerId; enabled: boolean }[] {
+    return this.entries.map((e) => ({ id: e.layer.id, enabled: !!e.root }));
+  }
+
+  setEnabled(id: LayerId, enabled: boolean) {
+    const entry = this.entries.find((e) => e.layer.id === id);
+    if (!entry || !!entry.root === enabled) return;
+    if (enabled) {
+      const root = new THREE.Group();
+      root.name = `layer:${id}`;
+      this.scene.add(root);
+      entry.root = root;
+      entry.layer.init(this.context(root));
+      this.applyOrder();
+    } else {
+      entry.layer.dispose();
+      this.scene.remove(entry.root!);
+      entry.root = null;
+    }
+  }
+
+  // Enables exactly `ids`, in that order; the other layers are disabled and move behind them
+  configure(ids: LayerId[]) {
+    const rank = (e: Entry) => {
+      const i = ids.indexOf(e.layer.id);
+      return i < 0 ? ids.length : i;
+    };
+    this.entries.sort((a, b) => rank(a) - rank(b));
+    for (const e of this.entries) this.setEnabled(e.layer.id, ids.includes(e.layer.id));
+    this.applyOrder();
+  }
+
+  // Modulation targets of every layer, enabled or not, with ids prefixed by the layer id
+  targets(): ModTarget[] {
+    return this.entries.flatMap((e) => (e.layer.targets ?? []).map((t) => ({ ...t, id: `${e.layer.id}.${t.id}` })));
+  }
+
+  update(frame: LayerFrame) {
+    for (const e of this.entries) if (e.root) e.layer.update(frame);
+  }
+
+  resize(width: number, height: number) {
+    this.width = width;
+    this.height = height;
+    for (const e of this.entries) if (e.root) e.layer.resize?.(this.context(e.root));
+  }
+
+  dispose() {
+    for (const e of this.entries) this.setEnabled(e.layer.id, false);
+    this.entries = [];
+  }
+
+  private context(root: THREE.Group): LayerContext {
+    return { root, camera: this.camera, renderer: this.renderer, width: this.width, height: this.height };
+  }
+
+  private applyOrder() {
+    this.entries.forEach((e, i) => {
+      if (e.root) e.root.renderOrder = i;
+    });
+  }
+}
@@ -0,0 +1,91 @@
+import * as THREE from 'three';
+import type { CrystalTheme } from './CrystalSphere';
+import type { TrackPicture } from '../audio/trackMetadata';
+
+// Artwork is scaled down to this many pixels on its longer side before sampling
+const SAMPLE_SIZE = 64;
+// Minimum RGB distance between picked colours so the palette is not four shades of one
+const MIN_DISTANCE = 0.2;
+// The crystal is drawn additively on black, so very dark or grey colours would vanish
+const MIN_LIGHTNESS = 0.45;
+const MIN_SATURATION = 0.35;
+
+/**
+ * Dominant colours of an RGBA pixel buffer: 4-bit-per-channel histogram, bins ranked by
+ * population weighted toward saturated, mid-lightness colours, then picked greedily apart.
+ */
+export function dominantColors(rgba: ArrayLike<number>, count = 4): THREE.Color[] {
+  const bins = new Map<number, { n: number; r: number; g: number; b: number }>();
+  for (let i = 0; i + 3 < rgba.length; i += 4) {
+    if (rgba[i + 3] < 128) continue;
+    const r = rgba[i];
+    const g = rgba[i + 1];
+    const b = rgba[i + 2];
+    const key = ((r >> 4) << 8) | ((g >> 4) << 4) | (b >> 4);
+    const bin = bins.get(key) ?? { n: 0, r: 0, g: 0, b: 0 };
+    bin.n++;
+    bin.r += r;
+    bin.g += g;
+    bin.b += b;
+    bins.set(key, bin);
+  }
+  const hsl = { h: 0, s: 0, l: 0 };
+  const ranked = [...bins.values()]
+    .map((bin) => {
+      const color = new THREE.Color(bin.r / bin.n / 255, bin.g / bin.n / 255, bin.b / bin.n / 255);
+      color.getHSL(hsl);
+      const tonal = hsl.l < 0.08 || hsl.l > 0.95 ? 0.2 : 1;
+      return { color, score: bin.n * (0.25 + hsl.s) * tonal };
+    })
+    .sort((a, b) => b.score - a.score);
+  const picked: THREE.Color[] = [];
+  for (const { color } of ranked) {
+    if (picked.length >= count) break;
+    if (picked.every((p) => distance(p, color) >= MIN_DISTANCE)) picked.push(color);
+  }
+  return picked;
+}
+
+// Theme from artwork colours, lifted so they read on the black background
+export function themeFromColors(colors: THREE.Color[], name = 'Artwork'): CrystalTheme | null {
+  if (colors.length === 0) return null;
+  const hsl = { h: 0, s: 0, l: 0 };
+  const lifted = colors.map((c) => {
+    c.getHSL(hsl);
+    return new THREE.Color().setHSL(hsl.h, Math.max(MIN_SATURATION, hsl.s), Math.max(MIN_LIGHTNESS, Math.min(0.75, hsl.l)));
+  });
+  const saturation = (c: THREE.Color) => c.getHSL(hsl).s;
+  const mostSaturated = lifted.reduce((a, c) => (saturation(c) > saturation(a) ? c : a));
+  return {
+    name,
+    colors: lifted,
+    coreColor: lifted[0].clone().offsetHSL(0, 0, 0.15),
+    edgeColor: mostSaturated.clone(),
+    nebulaTint: mostSaturated.clone().multiplyScalar(0.35),
+  };
+}
+
+// Decodes embedded cover art and builds a theme from it; null when the image cannot be read
+export async function themeFromArtwork(picture: TrackPicture, name?: string): Promise<CrystalTheme | null> {
+  try {
+    const bitmap = await createImageBitmap(new Blob([picture.data], { type: picture.mime }));
+    const scale = SAMPLE_SIZE / Math.max(bitmap.width, bitmap.height, 1);
+    const w = Math.max(1, Math.round(bitmap.width * scale));
+    const h = Math.max(1, Math.round(bitmap.height * scale));
+    const canvas = document.createElement('canvas');
+    canvas.width = w;
+    canvas.height = h;
+    const ctx = canvas.getContext('2d');
+    if (!ctx) return null;
+    ctx.drawImage(bitmap, 0, 0, w, h);
+    bitmap.close();
+    return themeFromColors(dominantColors(ctx.getImageData(0, 0, w, h).data), name);
+  } catch (err) {
+    console.warn('Cover art could not be decoded', err);
+    return null;
+  }
+}
+
+function distance(a: THREE.Color, b: THREE.Color): number {
+  return Math.hypot(a.r - b.r, a.g - b.g, a.b - b.b);
+}
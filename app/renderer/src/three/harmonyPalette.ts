@@ -0,0 +1,106 @@
+import * as THREE from 'three';
+import type { HarmonyInfo } from '../analysis/HarmonyAnalyzer';
+import { blendThemes, CrystalTheme } from './CrystalSphere';
+import { PALETTE_THEMES } from './themes';
+
+// Below this the key estimate is too shaky to colour anything
+const MIN_KEY_CONFIDENCE = 0.15;
+// Harmony never fully replaces the preset palette
+const MAX_HARMONY_WEIGHT = 0.85;
+const MIN_CHORD_CONFIDENCE = 0.4;
+const FIRST_KEY_TRANSITION = 1.5;
+const MODULATION_TRANSITION = 2.5;
+const CHORD_TRANSITION = 0.8;
+const COOL_HUE = 0.62; // blue
+
+// Walk the circle of fifths so related keys get neighbouring hues (0..1)
+export function keyHue(pitchClass: number): number {
+  return (((pitchClass * 7) % 12) + 12) % 12 / 12;
+}
+
+/**
+ * Theme for a key/chord: the key picks the hue, the chord root tints the second colour.
+ * Minor keys are pulled toward blue and rendered darker and less saturated.
+ */
+export function harmonyTheme(h: HarmonyInfo): CrystalTheme {
+  const minor = h.mode === 'minor';
+  const hue = minor ? mixHue(keyHue(h.key), COOL_HUE, 0.4) : keyHue(h.key);
+  const chordHue = mixHue(hue, keyHue(h.chordRoot), 0.5 * h.chordConfidence);
+  const sat = minor ? 0.6 : 0.85;
+  const light = minor ? 0.45 : 0.58;
+  const color = (hh: number, s: number, l: number) => new THREE.Color().setHSL(((hh % 1) + 1) % 1, s, l);
+  return {
+    name: `Harmony ${h.key}${minor ? 'm' : ''}`,
+    colors: [color(hue, sat, light), color(chordHue, sat, light + 0.08), color(hue + (minor ? -0.06 : 0.06), sat * 0.8, light)],
+    coreColor: color(hue, sat * 0.7, light + 0.2),
+    edgeColor: color(hue, sat, light + 0.05),
+    nebulaTint: color(hue, sat * 0.8, light * 0.35),
+  };
+}
+
+/**
+ * Decides when harmony should repaint the crystal: slowly when the key first settles,
+ * a longer cross-fade on modulation, a short one on chord changes. The preset palette
+ * stays underneath and shows through in proportion to key uncertainty.
+ */
+export class HarmonyPalette {
+  private preset: CrystalTheme = PALETTE_THEMES.aurora;
+  private artwork: CrystalTheme | null = null; // cover-art theme of the current track, replaces the preset
+  private key: { key: number; mode: string } | null = null;
+  private chord: { root: number; quality: string } | null = null;
+  private last: HarmonyInfo | null = null;
+
+  // Returns the theme to show right away for the new base
+  setBase(theme: CrystalTheme): CrystalTheme {
+    this.preset = theme;
+    return this.current();
+  }
+
+  setArtwork(theme: CrystalTheme | null): CrystalTheme {
+    this.artwork = theme;
+    return this.current();
+  }
+
+  private get base(): CrystalTheme {
+    return this.artwork ?? this.preset;
+  }
+
+  // Theme for the latest committed harmony, or the bare preset palette before any key
+  current(): CrystalTheme {
+    return this.last ? this.themeFor(this.last) : this.base;
+  }
+
+  update(h: HarmonyInfo | undefined): { theme: CrystalTheme; transitionSeconds: number } | null {
+    if (!h || h.keyConfidence < MIN_KEY_CONFIDENCE) return null;
+    let transitionSeconds = 0;
+    if (!this.key) transitionSeconds = FIRST_KEY_TRANSITION;
+    else if (this.key.key !== h.key || this.key.mode !== h.mode) transitionSeconds = MODULATION_TRANSITION;
+    else if (h.chordConfidence >= MIN_CHORD_CONFIDENCE && (!this.chord || this.chord.root !== h.chordRoot || this.chord.quality !== h.chordQuality)) {
+      transitionSeconds = CHORD_TRANSITION;
+    }
+    if (transitionSeconds === 0) return null;
+    this.key = { key: h.key, mode: h.mode };
+    if (h.chordConfidence >= MIN_CHORD_CONFIDENCE) this.chord = { root: h.chordRoot, quality: h.chordQuality };
+    this.last = h;
+    return { theme: this.themeFor(h), transitionSeconds };
+  }
+
+  reset() {
+    this.key = null;
+    this.chord = null;
+    this.last = null;
+  }
+
+  private themeFor(h: HarmonyInfo): CrystalTheme {
+    const weight = Math.min(MAX_HARMONY_WEIGHT, h.keyConfidence * 1.5);
+    return blendThemes(this.base, harmonyTheme(h), weight);
+  }
+}
+
+// Shortest-path hue interpolation on the 0..1 circle
+function mixHue(a: number, b: number, t: number): number {
+  let d = b - a;
+  if (d > 0.5) d -= 1;
+  if (d < -0.5) d += 1;
+  return a + d * t;
+}
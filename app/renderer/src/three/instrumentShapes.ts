@@ -0,0 +1,250 @@
+import * as THREE from 'three';
+import type { Instrument } from '../analysis/InstrumentClassifier';
+import { outlineSource, ShapeSource, sphereSource } from './shapeSources';
+
+// A cubic segment (two controls, then the end point) or a straight line to [x, y]
+type Segment = [number, number] | [number, number, number, number, number, number];
+
+/**
+ * Left-right symmetric outline: `segments` trace the right half from (0, bottom) upward and
+ * are mirrored back down the left.
+ */
+function symmetric(bottom: number, segments: Segment[]): THREE.Shape {
+  const shape = new THREE.Shape();
+  const starts: [number, number][] = [];
+  let x = 0;
+  let y = bottom;
+  shape.moveTo(x, y);
+  for (const s of segments) {
+    starts.push([x, y]);
+    if (s.length === 2) shape.lineTo(s[0], s[1]);
+    else shape.bezierCurveTo(s[0], s[1], s[2], s[3], s[4], s[5]);
+    [x, y] = s.length === 2 ? s : [s[4], s[5]];
+  }
+  shape.lineTo(-x, y);
+  for (let i = segments.length - 1; i >= 0; i--) {
+    const s = segments[i];
+    const [sx, sy] = starts[i];
+    if (s.length === 2) shape.lineTo(-sx, sy);
+    else shape.bezierCurveTo(-s[2], s[3], -s[0], s[1], -sx, sy);
+  }
+  return shape;
+}
+
+function rect<T extends THREE.Path>(path: T, x0: number, y0: number, x1: number, y1: number): T {
+  path.moveTo(x0, y0);
+  path.lineTo(x1, y0);
+  path.lineTo(x1, y1);
+  path.lineTo(x0, y1);
+  path.lineTo(x0, y0);
+  return path;
+}
+
+const box = (x0: number, y0: number, x1: number, y1: number) => rect(new THREE.Shape(), x0, y0, x1, y1);
+const slot = (x0: number, y0: number, x1: number, y1: number) => rect(new THREE.Path(), x0, y0, x1, y1);
+
+function ellipse<T extends THREE.Path>(path: T, x: number, y: number, rx: number, ry = rx): T {
+  path.absellipse(x, y, rx, ry, 0, Math.PI * 2, false, 0);
+  return path;
+}
+
+function guitar(): THREE.Shape[] {
+  const body = symmetric(-1.1, [
+    [0.75, -1.1, 0.72, -0.4, 0.36, -0.26],
+    [0.6, -0.12, 0.56, 0.36, 0.1, 0.38],
+    [0.07, 0.4],
+    [0.07, 1.12],
+    [0.12, 1.16],
+    [0.12, 1.45],
+  ]);
+  body.holes.push(ellipse(new THREE.Path(), 0, 0.06, 0.12));
+  return [body];
+}
+
+// Electric bass: offset double cutaway, long neck, headstock to one side
+function bass(): THREE.Shape[] {
+  const body = new THREE.Shape();
+  body.moveTo(0, -0.95);
+  body.bezierCurveTo(0.45, -0.95, 0.55, -0.55, 0.32, -0.4);
+  body.bezierCurveTo(0.22, -0.3, 0.3, -0.1, 0.38, 0.05);
+  body.bezierCurveTo(0.45, 0.2, 0.35, 0.3, 0.22, 0.2);
+  body.bezierCurveTo(0.14, 0.12, 0.08, 0.1, 0.05, 0.12);
+  body.lineTo(0.05, 1.35);
+  body.lineTo(0.1, 1.4);
+  body.lineTo(0.1, 1.7);
+  body.lineTo(-0.06, 1.7);
+  body.lineTo(-0.06, 1.38);
+  body.lineTo(-0.05, 1.35);
+  body.lineTo(-0.05, 0.12);
+  body.bezierCurveTo(-0.1, 0.2, -0.3, 0.45, -0.42, 0.35);
+  body.bezierCurveTo(-0.5, 0.25, -0.35, 0.0, -0.36, -0.3);
+  body.bezierCurveTo(-0.55, -0.55, -0.45, -0.95, 0, -0.95);
+  body.holes.push(slot(-0.16, -0.5, 0.16, -0.42));
+  return [body];
+}
+
+// Bass drum, two rack toms, floor tom, snare and two cymbals on stands
+function drumKit(): THREE.Shape[] {
+  const kick = ellipse(new THREE.Shape(), 0, -0.4, 0.5);
+  kick.holes.push(ellipse(new THREE.Path(), 0.18, -0.55, 0.1));
+  return [
+    kick,
+    ellipse(new THREE.Shape(), -0.3, 0.3, 0.2),
+    ellipse(new THREE.Shape(), 0.3, 0.3, 0.2),
+    box(0.62, -0.9, 0.98, -0.3),
+    box(-0.98, -0.45, -0.6, -0.25),
+    box(-0.81, -0.9, -0.77, -0.45),
+    ellipse(new THREE.Shape(), -0.85, 0.75, 0.32, 0.05),
+    box(-0.87, -0.25, -0.83, 0.72),
+    ellipse(new THREE.Shape(), 0.8, 0.85, 0.3, 0.05),
+    box(0.98, -0.3, 1.02, 0.82),
+  ];
+}
+
+// Handheld microphone: round grille on a tapered handle
+function microphone(): THREE.Shape[] {
+  const mic = new THREE.Shape();
+  mic.moveTo(0.07, -1.1);
+  mic.lineTo(0.12, 0.45);
+  mic.absarc(0, 0.72, 0.3, Math.atan2(-0.27, 0.12), Math.atan2(-0.27, -0.12) + Math.PI * 2, false);
+  mic.lineTo(-0.07, -1.1);
+  mic.lineTo(0.07, -1.1);
+  mic.holes.push(slot(-0.2, 0.7, 0.2, 0.74));
+  return [mic];
+}
+
+// Two octaves of keys: black keys and the gaps between white keys are cut out
+function keyboard(): THREE.Shape[] {
+  const white = 14;
+  const w = 2.4 / white;
+  const keys = box(-1.2, -0.35, 1.2, 0.35);
+  for (let i = 0; i < white; i++) {
+    const edge = -1.2 + (i + 1) * w;
+    if (i < white - 1) keys.holes.push(slot(edge - 0.006, -0.32, edge + 0.006, -0.04));
+    if ([0, 1, 3, 4, 5].includes(i % 7) && i < white - 1) keys.holes.push(slot(edge - 0.05, -0.02, edge + 0.05, 0.32));
+  }
+  return [keys];
+}
+
+function violin(): THREE.Shape[] {
+  const body = symmetric(-1.0, [
+    [0.45, -1.0, 0.5, -0.55, 0.3, -0.38],
+    [0.2, -0.3, 0.2, -0.08, 0.28, 0.0],
+    [0.42, 0.1, 0.38, 0.42, 0.05, 0.44],
+    [0.045, 1.05],
+    [0.08, 1.08],
+    [0.08, 1.22],
+  ]);
+  body.holes.push(ellipse(new THREE.Path(), 0.13, -0.2, 0.02, 0.14), ellipse(new THREE.Path(), -0.13, -0.2, 0.02, 0.14));
+  return [body, ellipse(new THREE.Shape(), 0, 1.3, 0.09)];
+}
+
+// Trumpet side view: mouthpiece left, bell right, three valves and the lower loop
+function trumpet(): THREE.Shape[] {
+  const pipe = new THREE.Shape();
+  pipe.moveTo(-1.2, 0.05);
+  pipe.lineTo(0.4, 0.05);
+  pipe.quadraticCurveTo(0.9, 0.08, 1.2, 0.4);
+  pipe.lineTo(1.2, -0.4);
+  pipe.quadraticCurveTo(0.9, -0.08, 0.4, -0.05);
+  pipe.lineTo(-1.2, -0.05);
+  pipe.lineTo(-1.2, 0.05);
+  const loop = box(-0.6, -0.4, 0.3, -0.05);
+  loop.holes.push(slot(-0.54, -0.34, 0.24, -0.11));
+  return [pipe, loop, box(-0.4, 0.05, -0.31, 0.4), box(-0.25, 0.05, -0.16, 0.4), box(-0.1, 0.05, -0.01, 0.4)];
+}
+
+// Built-in figure per instrument; pads have no silhouette and fill a soft cloud
+export const BUILTIN_SHAPES: Record<Instrument, () => ShapeSource> = {
+  drums: () => outlineSource('drum kit', drumKit()),
+  bass: () => outlineSource('bass guitar', bass()),
+  guitar: () => outlineSource('guitar', guitar()),
+  vocals: () => outlineSource('microphone', microphone()),
+  keys: () => outlineSource('keyboard', keyboard()),
+  strings: () => outlineSource('violin', violin()),
+  brass: () => outlineSource('trumpet', trumpet()),
+  pad: () => sphereSource('cloud', 1.1),
+};
+
+/**
+ * The shape each instrument's particles gather into: a user shape when one is set, otherwise
+ * the built-in outline (built on first use).
+ */
+export class ShapeLibrary {
+  // Shown while no instrument is active
+  readonly idle = sphereSource('idle', 0.7);
+  private builtin = new Map<Instrument, ShapeSource>();
+  private custom = new Map<Instrument, ShapeSource>();
+  private changeCallbacks: Set<(instrument: Instrument) => void> = new Set();
+
+  get(instrument: Instrument): ShapeSource {
+    const custom = this.custom.get(instrument);
+    if (custom) return custom;
+    let source = this.builtin.get(instrument);
+    if (!source) {
+      source = BUILTIN_SHAPES[instrument]();
+      this.builtin.set(instrument, source);
+    }
+    return source;
+  }
+
+  isCustom(instrument: Instrument): boolean {
+    return this.custom.has(instrument);
+  }
+
+  // null returns the instrument to its built-in shape
+  setCustom(instrument: Instrument, source: ShapeSource | null) {
+    if (source) this.custom.set(instrument, source);
+    else if (!this.custom.delete(instrument)) return;
+    for (const cb of this.changeCallbacks) cb(instrument);
+  }
+
+  onChange(callback: (instrument: Instrument) => void): () => void {
+    this.changeCallbacks.add(callback);
+    return () => this.changeCallbacks.delete(callback);
+  }
+}
+
+// A user shape file, kept so it can be reloaded next session
+export type ShapeFile = { name: string; bytes: Uint8Array };
+
+const STORAGE_KEY = 'instrumentShapes';
+
+export function loadShapeFiles(): Partial<Record<Instrument, ShapeFile>> {
+  try {
+    const stored = JSON.parse(localStorage.getItem(STORAGE_KEY) ?? '{}') as Record<string, { name: string; data: string }>;
+    const out: Partial<Record<Instrument, ShapeFile>> = {};
+    for (const [instrument, file] of Object.entries(stored)) {
+      if (file && typeof file.name === 'string' && typeof file.data === 'string') out[instrument as Instrument] = { name: file.name, bytes: fromBase64(file.data) };
+    }
+    return out;
+  } catch {
+    return {};
+  }
+}
+
+// False when the file could not be stored (usually too large); it still applies for this session
+export function saveShapeFile(instrument: Instrument, file: ShapeFile | null): boolean {
+  try {
+    const stored = JSON.parse(localStorage.getItem(STORAGE_KEY) ?? '{}') as Record<string, { name: string; data: string }>;
+    if (file) stored[instrument] = { name: file.name, data: toBase64(file.bytes) };
+    else delete stored[instrument];
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(stored));
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+function toBase64(bytes: Uint8Array): string {
+  let s = '';
+  for (let i = 0; i < bytes.length; i += 0x8000) s += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
+  return btoa(s);
+}
+
+function fromBase64(data: string): Uint8Array {
+  const s = atob(data);
+  const out = new Uint8Array(s.length);
+  for (let i = 0; i < s.length; i++) out[i] = s.charCodeAt(i);
+  return out;
+}
@@ -0,0 +1,171 @@
+import { Instrument, INSTRUMENTS } from '../analysis/InstrumentClassifier';
+import type { DrumOnsets } from '../analysis/DrumOnsetDetector';
+import type { LayerFrame } from './VisualLayer';
+
+// Every source reads 0..1
+export type ModSource =
+  | 'rms' | 'low' | 'mid' | 'high' | 'beat'
+  | 'kick' | 'snare' | 'hat'
+  | 'tempoPhase' | 'barPhase'
+  | `instrument.${Instrument}`
+  | 'lfo.slow' | 'lfo.medium' | 'lfo.fast';
+
+export const MOD_SOURCES: ModSource[] = [
+  'rms', 'low', 'mid', 'high', 'beat',
+  'kick', 'snare', 'hat',
+  'tempoPhase', 'barPhase',
+  ...INSTRUMENTS.map((i) => `instrument.${i}` as const),
+  'lfo.slow', 'lfo.medium', 'lfo.fast',
+];
+
+// Sine LFOs in Hz, mapped to 0..1
+const LFO_RATES = { 'lfo.slow': 0.05, 'lfo.medium': 0.25, 'lfo.fast': 1 } as const;
+
+// Drum hits are impulses; as sources they decay by this factor per second
+const ONSET_DECAY = 12;
+
+export type ModCurve = 'linear' | 'exp' | 'log' | 'smooth' | 'invert';
+
+export const MOD_CURVES: ModCurve[] = ['linear', 'exp', 'log', 'smooth', 'invert'];
+
+export function applyCurve(curve: ModCurve, x: number): number {
+  switch (curve) {
+    case 'exp': return x * x;
+    case 'log': return Math.sqrt(x);
+    case 'smooth': return x * x * (3 - 2 * x);
+    case 'invert': return 1 - x;
+    default: return x;
+  }
+}
+
+/**
+ * One route of the matrix: the source passes through `curve`, is smoothed with a time constant
+ * of `smoothing` seconds, is mapped onto `range` and scaled by `amount`. Routes into the same
+ * target add up on top of the target's base value.
+ */
+export type ModRoute = {
+  source: ModSource;
+  target: string; // `<layer>.<parameter>`, e.g. 'nebula.alpha'
+  amount: number;
+  curve: ModCurve;
+  smoothing: number;
+  range: [number, number];
+};
+
+// A parameter a layer lets routes drive. Layers declare local ids ('alpha'); the stack prefixes them
+export type ModTarget = { id: string; label: string; base: number; min: number; max: number };
+
+// Target values for the current frame, as layers read them
+export type Modulation = { get(target: string): number };
+
+// What the sources are computed from each frame
+export type ModulationInput = Pick<LayerFrame, 'time' | 'dt' | 'rms' | 'low' | 'mid' | 'high' | 'beat' | 'tempo' | 'instruments'>;
+
+// Routes from preset JSON; null when the field is missing or any route is malformed
+export function parseRoutes(value: unknown): ModRoute[] | null {
+  if (!Array.isArray(value)) return null;
+  const routes: ModRoute[] = [];
+  for (const v of value as Partial<ModRoute>[]) {
+    if (!v || typeof v !== 'object') return null;
+    const { source, target, amount, curve, smoothing, range } = v;
+    if (!MOD_SOURCES.includes(source as ModSource) || typeof target !== 'string' || !MOD_CURVES.includes(curve as ModCurve)) return null;
+    if (!Number.isFinite(amount) || !Number.isFinite(smoothing) || smoothing! < 0) return null;
+    if (!Array.isArray(range) || range.length !== 2 || !range.every(Number.isFinite)) return null;
+    routes.push({ source: source!, target, amount: amount!, curve: curve!, smoothing: smoothing!, range: [range[0], range[1]] });
+  }
+  return routes;
+}
+
+/**
+ * Maps named audio sources onto named layer parameters. `update` runs once per animation frame,
+ * before the layers read their targets through `get`.
+ */
+export class ModulationMatrix implements Modulation {
+  private targets = new Map<string, ModTarget>();
+  private routes: ModRoute[] = [];
+  private smoothed: number[] = []; // per route, after the curve
+  private values = new Map<string, number>();
+  private sources = Object.fromEntries(MOD_SOURCES.map((s) => [s, 0])) as Record<ModSource, number>;
+  private onsets: DrumOnsets = { kick: 0, snare: 0, hat: 0 };
+
+  setTargets(targets: ModTarget[]) {
+    this.targets = new Map(targets.map((t) => [t.id, t]));
+    this.values.clear();
+  }
+
+  getTargets(): ModTarget[] {
+    return [...this.targets.values()];
+  }
+
+  setRoutes(routes: ModRoute[]) {
+    // Editing amount, range or smoothing keeps a route's smoothed value; a route with a new
+    // source, target or curve starts from 0
+    const previous = this.routes.map((r, i) => ({ key: routeKey(r), value: this.smoothed[i] }));
+    this.routes = routes.map((r) => ({ ...r, range: [r.range[0], r.range[1]] }));
+    this.smoothed = this.routes.map((r) => {
+      const i = previous.findIndex((p) => p.key === routeKey(r));
+      return i < 0 ? 0 : previous.splice(i, 1)[0].value;
+    });
+  }
+
+  getRoutes(): ModRoute[] {
+    return this.routes.map((r) => ({ ...r, range: [r.range[0], r.range[1]] }));
+  }
+
+  // Drum hits since the last frame; they feed the kick/snare/hat sources
+  hit(onsets: DrumOnsets) {
+    this.onsets.kick = Math.max(this.onsets.kick, onsets.kick);
+    this.onsets.snare = Math.max(this.onsets.snare, onsets.snare);
+    this.onsets.hat = Math.max(this.onsets.hat, onsets.hat);
+  }
+
+  source(name: ModSource): number {
+    return this.sources[name];
+  }
+
+  update(input: ModulationInput) {
+    const s = this.sources;
+    s.rms = clamp01(input.rms);
+    s.low = clamp01(input.low);
+    s.mid = clamp01(input.mid);
+    s.high = clamp01(input.high);
+    s.beat = input.beat ? 1 : 0;
+    s.kick = clamp01(this.onsets.kick);
+    s.snare = clamp01(this.onsets.snare);
+    s.hat = clamp01(this.onsets.hat);
+    s.tempoPhase = input.tempo?.phase ?? 0;
+    s.barPhase = input.tempo?.barPhase ?? 0;
+    for (const i of INSTRUMENTS) s[`instrument.${i}`] = clamp01(input.instruments[i] ?? 0);
+    for (const [name, rate] of Object.entries(LFO_RATES)) s[name as ModSource] = 0.5 + 0.5 * Math.sin(2 * Math.PI * rate * input.time);
+    const decay = Math.exp(-ONSET_DECAY * input.dt);
+    this.onsets.kick *= decay;
+    this.onsets.snare *= decay;
+    this.onsets.hat *= decay;
+
+    this.values.clear();
+    this.routes.forEach((route, i) => {
+      const target = this.targets.get(route.target);
+      if (!target) return;
+      const shaped = applyCurve(route.curve, s[route.source]);
+      const k = route.smoothing > 0 ? 1 - Math.exp(-input.dt / route.smoothing) : 1;
+      this.smoothed[i] += (shaped - this.smoothed[i]) * k;
+      const [lo, hi] = route.range;
+      this.values.set(route.target, (this.values.get(route.target) ?? 0) + route.amount * (lo + (hi - lo) * this.smoothed[i]));
+    });
+  }
+
+  // Base plus routed offsets, clamped to the target's limits; 0 for targets no layer declares
+  get(id: string): number {
+    const target = this.targets.get(id);
+    if (!target) return 0;
+    return Math.max(target.min, Math.min(target.max, target.base + (this.values.get(id) ?? 0)));
+  }
+}
+
+function routeKey(r: ModRoute): string {
+  return `${r.source}>${r.target}:${r.curve}`;
+}
+
+function clamp01(x: number): number {
+  return x < 0 ? 0 : x > 1 ? 1 : x;
+}
@@ -0,0 +1,221 @@
+import * as THREE from 'three';
+import { MeshSurfaceSampler } from 'three/examples/jsm/math/MeshSurfaceSampler.js';
+
+/**
+ * Something particles can gather into. `sample` writes xyz target points for particles
+ * [from, to) of `out`; shapes are centred on the origin with their largest side `size` long.
+ */
+export type ShapeSource = {
+  readonly name: string;
+  sample(out: Float32Array, from: number, to: number): void;
+};
+
+export class ShapeFormatError extends Error {}
+
+export type ShapeOptions = {
+  size: number; // length of the largest side after normalisation
+  depth: number; // thickness given to flat outlines and masks
+};
+
+const DEFAULT_SHAPE: ShapeOptions = { size: 2.2, depth: 0.2 };
+
+// Points drawn once per source; larger requests reuse them with a little jitter
+const POOL_SIZE = 1 << 16;
+const JITTER = 0.004;
+
+// Wraps a point generator: the pool is built on first use, then copied into the targets
+function pooledSource(name: string, draw: (count: number) => Float32Array): ShapeSource {
+  let pool: Float32Array | null = null;
+  return {
+    name,
+    sample(out, from, to) {
+      pool ??= draw(POOL_SIZE);
+      const n = pool.length / 3;
+      if (n === 0) return;
+      for (let i = from; i < to; i++) {
+        const j = Math.floor(Math.random() * n) * 3;
+        out[i * 3 + 0] = pool[j + 0] + (Math.random() - 0.5) * JITTER;
+        out[i * 3 + 1] = pool[j + 1] + (Math.random() - 0.5) * JITTER;
+        out[i * 3 + 2] = pool[j + 2] + (Math.random() - 0.5) * JITTER;
+      }
+    },
+  };
+}
+
+export function sphereSource(name: string, radius: number): ShapeSource {
+  return pooledSource(name, (count) => {
+    const out = new Float32Array(count * 3);
+    for (let i = 0; i < count; i++) {
+      const theta = 2 * Math.PI * Math.random();
+      const phi = Math.acos(2 * Math.random() - 1);
+      out[i * 3 + 0] = radius * Math.sin(phi) * Math.cos(theta);
+      out[i * 3 + 1] = radius * Math.sin(phi) * Math.sin(theta);
+      out[i * 3 + 2] = radius * Math.cos(phi);
+    }
+    return out;
+  });
+}
+
+// Area-weighted points on the surface of a mesh (glTF, OBJ or extruded outlines)
+export function geometrySource(name: string, geometry: THREE.BufferGeometry, options: Partial<ShapeOptions> = {}): ShapeSource {
+  const { size } = { ...DEFAULT_SHAPE, ...options };
+  const normalized = geometry.clone();
+  fitToSize(normalized, size);
+  return pooledSource(name, (count) => {
+    const out = new Float32Array(count * 3);
+    const sampler = new MeshSurfaceSampler(new THREE.Mesh(normalized)).build();
+    const p = new THREE.Vector3();
+    for (let i = 0; i < count; i++) {
+      sampler.sample(p);
+      out[i * 3 + 0] = p.x;
+      out[i * 3 + 1] = p.y;
+      out[i * 3 + 2] = p.z;
+    }
+    normalized.dispose();
+    return out;
+  });
+}
+
+// Filled 2D outlines (holes included) given some depth; `flipY` for y-down sources such as SVG
+export function outlineSource(name: string, shapes: THREE.Shape[], options: Partial<ShapeOptions> & { flipY?: boolean } = {}): ShapeSource {
+  if (shapes.length === 0) throw new ShapeFormatError(`${name}: no closed outline`);
+  const { size, depth } = { ...DEFAULT_SHAPE, ...options };
+  // The geometry is rescaled to `size` afterwards, so extrude relative to the outline's own extent
+  const box = new THREE.Box2();
+  for (const shape of shapes) for (const p of shape.getPoints()) box.expandByPoint(p);
+  const extent = Math.max(box.max.x - box.min.x, box.max.y - box.min.y, 1e-6);
+  const geometry = new THREE.ExtrudeGeometry(shapes, { depth: (depth / size) * extent, bevelEnabled: false, curveSegments: 16 });
+  if (options.flipY) geometry.scale(1, -1, 1);
+  const source = geometrySource(name, geometry, options);
+  geometry.dispose();
+  return source;
+}
+
+export type MaskImage = { width: number; height: number; data: Uint8ClampedArray | Uint8Array }; // RGBA, like ImageData
+
+/**
+ * Points inside a raster silhouette. Transparent images use alpha; fully opaque ones are read as
+ * dark ink on a light background.
+ */
+export function maskSource(name: string, image: MaskImage, options: Partial<ShapeOptions> & { threshold?: number } = {}): ShapeSource {
+  const { size, depth } = { ...DEFAULT_SHAPE, ...options };
+  const threshold = (options.threshold ?? 0.5) * 255;
+  const { width, height, data } = image;
+  let opaque = true;
+  for (let i = 3; i < data.length && opaque; i += 4) opaque = data[i] === 255;
+  const inside: number[] = [];
+  for (let i = 0; i < width * height; i++) {
+    const value = opaque ? 255 - (data[i * 4] * 0.299 + data[i * 4 + 1] * 0.587 + data[i * 4 + 2] * 0.114) : data[i * 4 + 3];
+    if (value >= threshold) inside.push(i);
+  }
+  if (inside.length === 0) throw new ShapeFormatError(`${name}: the image has no visible silhouette`);
+  // Bounding box of the silhouette, so margins around it do not shrink the figure
+  let minX = width, minY = height, maxX = 0, maxY = 0;
+  for (const i of inside) {
+    const x = i % width;
+    const y = Math.floor(i / width);
+    minX = Math.min(minX, x); maxX = Math.max(maxX, x + 1);
+    minY = Math.min(minY, y); maxY = Math.max(maxY, y + 1);
+  }
+  const scale = size / Math.max(maxX - minX, maxY - minY);
+  const cx = (minX + maxX) / 2;
+  const cy = (minY + maxY) / 2;
+  return pooledSource(name, (count) => {
+    const out = new Float32Array(count * 3);
+    for (let k = 0; k < count; k++) {
+      const i = inside[Math.floor(Math.random() * inside.length)];
+      out[k * 3 + 0] = ((i % width) + Math.random() - cx) * scale;
+      out[k * 3 + 1] = (cy - Math.floor(i / width) - Math.random()) * scale; // image rows run downward
+      out[k * 3 + 2] = (Math.random() - 0.5) * depth;
+    }
+    return out;
+  });
+}
+
+// Centres the geometry on the origin and scales its largest side to `size`
+function fitToSize(geometry: THREE.BufferGeometry, size: number) {
+  geometry.computeBoundingBox();
+  const box = geometry.boundingBox!;
+  const extent = box.getSize(new THREE.Vector3());
+  const center = box.getCenter(new THREE.Vector3());
+  const largest = Math.max(extent.x, extent.y, extent.z);
+  if (!(largest > 0)) throw new ShapeFormatError('Shape has no extent');
+  geometry.translate(-center.x, -center.y, -center.z);
+  geometry.scale(size / largest, size / largest, size / largest);
+}
+
+// Every mesh under `root` as one position-only, non-indexed geometry in root space
+export function mergeMeshes(root: THREE.Object3D): THREE.BufferGeometry {
+  root.updateMatrixWorld(true);
+  const parts: Float32Array[] = [];
+  root.traverse((obj) => {
+    const mesh = obj as THREE.Mesh;
+    if (!mesh.isMesh || !mesh.geometry.getAttribute('position')) return;
+    const g = mesh.geometry.index ? mesh.geometry.toNonIndexed() : mesh.geometry.clone();
+    g.applyMatrix4(mesh.matrixWorld);
+    parts.push(Float32Array.from(g.getAttribute('position').array));
+    g.dispose();
+  });
+  const total = parts.reduce((n, p) => n + p.length, 0);
+  if (total === 0) throw new ShapeFormatError('The model contains no meshes');
+  const positions = new Float32Array(total);
+  let offset = 0;
+  for (const p of parts) {
+    positions.set(p, offset);
+    offset += p.length;
+  }
+  const geometry = new THREE.BufferGeometry();
+  geometry.setAttribute('position', new THREE.BufferAttribute(positions, 3));
+  return geometry;
+}
+
+export const SHAPE_FILE_ACCEPT = '.svg,.glb,.gltf,.obj,.png,.jpg,.jpeg,.webp';
+
+/**
+ * Shape from a user file: SVG outlines, glTF/GLB or OBJ meshes, or PNG/JPEG/WebP silhouettes.
+ * glTF files must embed their buffers. Loaders are fetched on first use.
+ */
+export async function loadShapeFile(name: string, bytes: Uint8Array, options: Partial<ShapeOptions> = {}): Promise<ShapeSource> {
+  const source = await parseShapeFile(name, bytes, options);
+  // Builds the point pool now, so a degenerate file fails here rather than mid-performance
+  const probe = new Float32Array(3);
+  source.sample(probe, 0, 1);
+  if (!probe.every(Number.isFinite)) throw new ShapeFormatError(`${name}: the shape has no area`);
+  return source;
+}
+
+async function parseShapeFile(name: string, bytes: Uint8Array, options: Partial<ShapeOptions>): Promise<ShapeSource> {
+  const ext = name.toLowerCase().split('.').pop() ?? '';
+  const buffer = bytes.buffer.slice(bytes.byteOffset, bytes.byteOffset + bytes.byteLength) as ArrayBuffer;
+  switch (ext) {
+    case 'svg': {
+      const { SVGLoader } = await import('three/examples/jsm/loaders/SVGLoader.js');
+      const data = new SVGLoader().parse(new TextDecoder().decode(bytes));
+      return outlineSource(name, data.paths.flatMap((p) => SVGLoader.createShapes(p)), { ...options, flipY: true });
+    }
+    case 'glb':
+    case 'gltf': {
+      const { GLTFLoader } = await import('three/examples/jsm/loaders/GLTFLoader.js');
+      const gltf = await new GLTFLoader().parseAsync(ext === 'gltf' ? new TextDecoder().decode(bytes) : buffer, '');
+      return geometrySource(name, mergeMeshes(gltf.scene), options);
+    }
+    case 'obj': {
+      const { OBJLoader } = await import('three/examples/jsm/loaders/OBJLoader.js');
+      return geometrySource(name, mergeMeshes(new OBJLoader().parse(new TextDecoder().decode(bytes))), options);
+    }
+    case 'png':
+    case 'jpg':
+    case 'jpeg':
+    case 'webp': {
+      const bitmap = await createImageBitmap(new Blob([buffer]));
+      const canvas = new OffscreenCanvas(bitmap.width, bitmap.height);
+      const ctx = canvas.getContext('2d');
+      if (!ctx) throw new ShapeFormatError('No 2D canvas to read the image');
+      ctx.drawImage(bitmap, 0, 0);
+      bitmap.close();
+      return maskSource(name, ctx.getImageData(0, 0, canvas.width, canvas.height), options);
+    }
+    default:
+      throw new ShapeFormatError(`Unsupported shape file: .${ext}`);
+  }
+}
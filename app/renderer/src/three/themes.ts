@@ -0,0 +1,92 @@
+import * as THREE from 'three';
+import type { PaletteName } from '../ui/presets';
+import { CRYSTAL_THEMES, CrystalTheme } from './CrystalSphere';
+
+export const MAX_THEME_COLORS = 8;
+
+function theme(name: string, colors: number[], core: number, edge: number, tint: number): CrystalTheme {
+  return {
+    name,
+    colors: colors.map((c) => new THREE.Color(c)),
+    coreColor: new THREE.Color(core),
+    edgeColor: new THREE.Color(edge),
+    nebulaTint: new THREE.Color(tint),
+  };
+}
+
+// Starters whose colours stay apart with red-green and blue-yellow colour blindness
+export const ACCESSIBLE_THEMES: Record<'okabe-ito' | 'viridis' | 'cividis', CrystalTheme> = {
+  'okabe-ito': theme('Okabe-Ito', [0xe69f00, 0x56b4e9, 0x009e73, 0xf0e442, 0xcc79a7], 0x56b4e9, 0xe69f00, 0x0a2a40),
+  viridis: theme('Viridis', [0x3b528b, 0x21918c, 0x5ec962, 0xfde725], 0xfde725, 0x21918c, 0x2a0a40),
+  cividis: theme('Cividis', [0x4b6bb0, 0x7c7b78, 0xcbba69, 0xffea46], 0xffea46, 0x4b6bb0, 0x00204d),
+};
+
+export const PALETTE_THEMES: Record<PaletteName, CrystalTheme> = {
+  aurora: CRYSTAL_THEMES[0],
+  cosmic: CRYSTAL_THEMES[2],
+  solar: CRYSTAL_THEMES[3],
+  ...ACCESSIBLE_THEMES,
+};
+
+// A theme as JSON, colours as '#rrggbb'; the form saved in preset files and localStorage
+export type ThemeData = {
+  name: string;
+  colors: string[];
+  coreColor: string;
+  edgeColor: string;
+  nebulaTint: string;
+};
+
+export function themeToData(t: CrystalTheme): ThemeData {
+  return {
+    name: t.name,
+    colors: t.colors.map((c) => `#${c.getHexString()}`),
+    coreColor: `#${t.coreColor.getHexString()}`,
+    edgeColor: `#${t.edgeColor.getHexString()}`,
+    nebulaTint: `#${t.nebulaTint.getHexString()}`,
+  };
+}
+
+const HEX = /^#[0-9a-f]{6}$/i;
+
+function parseColor(value: unknown): THREE.Color | null {
+  return typeof value === 'string' && HEX.test(value) ? new THREE.Color(value) : null;
+}
+
+// Theme from preset or theme JSON; null when any colour is missing or malformed
+export function parseTheme(value: unknown): CrystalTheme | null {
+  if (!value || typeof value !== 'object') return null;
+  const v = value as Record<string, unknown>;
+  if (typeof v.name !== 'string' || !Array.isArray(v.colors)) return null;
+  if (v.colors.length === 0 || v.colors.length > MAX_THEME_COLORS) return null;
+  const colors = v.colors.map(parseColor);
+  const coreColor = parseColor(v.coreColor);
+  const edgeColor = parseColor(v.edgeColor);
+  const nebulaTint = parseColor(v.nebulaTint);
+  if (colors.some((c) => !c) || !coreColor || !edgeColor || !nebulaTint) return null;
+  return { name: v.name.trim() || 'Custom', colors: colors as THREE.Color[], coreColor, edgeColor, nebulaTint };
+}
+
+// Theme a preset file asks for: its saved custom theme, else its named palette; null when it has neither
+export function presetTheme(preset: { theme?: unknown; palette?: unknown }): CrystalTheme | null {
+  const { theme, palette } = preset;
+  const named = typeof palette === 'string' && Object.prototype.hasOwnProperty.call(PALETTE_THEMES, palette);
+  return parseTheme(theme) ?? (named ? PALETTE_THEMES[palette as PaletteName] : null);
+}
+
+const STORAGE_KEY = 'customThemes';
+
+export function loadCustomThemes(): CrystalTheme[] {
+  try {
+    const stored = JSON.parse(localStorage.getItem(STORAGE_KEY) ?? '[]');
+    return Array.isArray(stored) ? stored.map(parseTheme).filter((t): t is CrystalTheme => !!t) : [];
+  } catch {
+    return [];
+  }
+}
+
+export function saveCustomThemes(themes: CrystalTheme[]) {
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(themes.map(themeToData)));
+  } catch {}
+}
@@ -9,6 +9,8 @@ declare global {
       encodeFrames(dir: string, pattern: string, fps: number, output: string): Promise<boolean>;
       saveTextFile(defaultName: string, content: string): Promise<string | null>;
       openJsonFile(): Promise<string | null>;
+      saveCaptureFile(defaultName: string, binary: Uint8Array, jsonl: string): Promise<string | null>;
+      openCaptureFile(): Promise<Uint8Array | null>;
     };
   }
 }
@@ -0,0 +1,85 @@
+import React, { useEffect, useRef, useState } from 'react';
+import type { AudioEngine } from '../audio/AudioEngine';
+import type { SceneView } from '../three/SceneView';
+import { FrameRecorder } from '../capture/FrameRecorder';
+import { FrameReplaySource } from '../capture/FrameReplaySource';
+import type { FrameSwitch } from '../capture/FrameSwitch';
+import { CAPTURE_EXTENSION, decodeCapture, encodeBinary, encodeJsonl } from '../capture/frameFormat';
+
+type Props = {
+  engine: AudioEngine;
+  frames: FrameSwitch;
+  sceneRef: React.MutableRefObject<SceneView | null>;
+  sourceName: string | null;
+  onError: (message: string) => void;
+};
+
+// Record the feature-frame stream to a capture file, or replay one into the scene without audio
+export function CaptureControls({ engine, frames, sceneRef, sourceName, onError }: Props) {
+  const recorderRef = useRef(new FrameRecorder());
+  const replayRef = useRef<FrameReplaySource | null>(null);
+  const [recording, setRecording] = useState(false);
+  const [replaying, setReplaying] = useState(false);
+
+  useEffect(() => () => {
+    recorderRef.current.stop();
+    frames.endReplay();
+    replayRef.current?.dispose();
+  }, []);
+
+  const toggleRecording = async () => {
+    const recorder = recorderRef.current;
+    if (!recording) {
+      recorder.start(engine, sceneRef.current, sourceName ?? undefined);
+      setRecording(true);
+      return;
+    }
+    setRecording(false);
+    const capture = recorder.stop();
+    if (!capture || capture.records.length === 0) return;
+    try {
+      await window.ipcBridge.saveCaptureFile(`capture.${CAPTURE_EXTENSION}`, encodeBinary(capture), encodeJsonl(capture));
+    } catch (e: any) {
+      onError(e?.message ?? 'Saving capture failed');
+    }
+  };
+
+  const stopReplay = () => {
+    frames.endReplay();
+    replayRef.current?.dispose();
+    replayRef.current = null;
+    setReplaying(false);
+  };
+
+  const toggleReplay = async () => {
+    if (replaying) {
+      stopReplay();
+      return;
+    }
+    const data = await window.ipcBridge.openCaptureFile();
+    if (!data) return;
+    try {
+      const replay = new FrameReplaySource(decodeCapture(data));
+      engine.pause();
+      frames.startReplay(replay);
+      replay.onEnded(stopReplay);
+      replayRef.current = replay;
+      setReplaying(true);
+      replay.play();
+    } catch (e: any) {
+      onError(e?.message ?? 'Invalid capture file');
+    }
+  };
+
+  const style: React.CSSProperties = { padding: '6px 10px', borderRadius: 6, background: '#1e2b57', color: '#dfe7ff', border: '1px solid #32406f' };
+  return (
+    <>
+      <button onClick={() => void toggleRecording()} disabled={replaying} style={style} title="Record analysis frames to .mvcap or .jsonl">
+        {recording ? 'Stop Features' : 'Rec Features'}
+      </button>
+      <button onClick={() => void toggleReplay()} disabled={recording} style={style} title="Replay a recorded feature capture without audio">
+        {replaying ? 'Stop Replay' : 'Replay Features'}
+      </button>
+    </>
+  );
+}
@@ -0,0 +1,125 @@
+import React, { useEffect, useState } from 'react';
+import type { AudioEngine } from '../audio/AudioEngine';
+import {
+  ChannelSelection,
+  InputDevice,
+  listInputDevices,
+  LiveInputSettings,
+  loadLiveInputSettings,
+  openInputStream,
+  saveLiveInputSettings,
+  SYSTEM_AUDIO_DEVICE,
+} from '../audio/InputDevices';
+
+type Props = {
+  engine: AudioEngine;
+  onStarted: () => void;
+  onError: (message: string) => void;
+};
+
+const buttonStyle: React.CSSProperties = { padding: '2px 8px', borderRadius: 4, background: '#1e2b57', color: '#dfe7ff', border: '1px solid #32406f' };
+
+function channelKey(ch: ChannelSelection): string {
+  return ch ? `${ch.start}:${ch.count}` : 'all';
+}
+
+function channelOptions(channels: number): { key: string; label: string; value: ChannelSelection }[] {
+  const options: { key: string; label: string; value: ChannelSelection }[] = [{ key: 'all', label: 'All channels', value: null }];
+  for (let i = 0; i + 1 < channels; i += 2) options.push({ key: `${i}:2`, label: `Ch ${i + 1}+${i + 2}`, value: { start: i, count: 2 } });
+  for (let i = 0; i < channels; i++) options.push({ key: `${i}:1`, label: `Ch ${i + 1}`, value: { start: i, count: 1 } });
+  return options;
+}
+
+// Device, channel, gain and monitor settings for live capture; remembered in localStorage
+export function LiveInputPanel({ engine, onStarted, onError }: Props) {
+  const [devices, setDevices] = useState<InputDevice[]>([]);
+  const [settings, setSettings] = useState<LiveInputSettings>(() => loadLiveInputSettings());
+
+  const refresh = async () => {
+    try {
+      setDevices(await listInputDevices());
+    } catch (e: any) {
+      onError(e?.message ?? 'Could not list input devices');
+    }
+  };
+
+  useEffect(() => {
+    void refresh();
+    const onChange = () => void refresh();
+    navigator.mediaDevices.addEventListener?.('devicechange', onChange);
+    return () => navigator.mediaDevices.removeEventListener?.('devicechange', onChange);
+  }, []);
+
+  const update = (patch: Partial<LiveInputSettings>) => {
+    const next = { ...settings, ...patch };
+    setSettings(next);
+    saveLiveInputSettings(next);
+  };
+
+  const start = async () => {
+    try {
+      const stream = await openInputStream(settings.deviceId);
+      await engine.startFromMediaStream(stream, { channels: settings.channels, gain: settings.gain, monitor: settings.monitor });
+      onStarted();
+    } catch (e: any) {
+      onError(e?.message ?? 'Live capture failed');
+    }
+  };
+
+  const device = devices.find((d) => d.deviceId === settings.deviceId);
+  const channelCount = Math.max(device?.channels ?? 2, engine.getLiveChannelCount());
+  const options = channelOptions(channelCount);
+
+  return (
+    <div style={{ display: 'flex', alignItems: 'center', gap: 8, padding: '6px 14px', borderBottom: '1px solid rgba(255,255,255,0.07)' }}>
+      <select
+        value={settings.deviceId ?? ''}
+        onChange={(e) => update({ deviceId: e.target.value || null, channels: null })}
+        style={{ maxWidth: 240 }}
+      >
+        <option value="">Default input</option>
+        {devices.map((d) => (
+          <option key={d.deviceId} value={d.deviceId}>{d.label}</option>
+        ))}
+        <option value={SYSTEM_AUDIO_DEVICE}>System audio (screen share)</option>
+      </select>
+      <button style={buttonStyle} onClick={() => void refresh()} title="Refresh devices">⟳</button>
+      <select
+        value={channelKey(settings.channels)}
+        onChange={(e) => update({ channels: options.find((o) => o.key === e.target.value)?.value ?? null })}
+      >
+        {options.map((o) => (
+          <option key={o.key} value={o.key}>{o.label}</option>
+        ))}
+      </select>
+      <label style={{ display: 'flex', alignItems: 'center', gap: 6 }}>
+        <span>Gain</span>
+        <input
+          type="range"
+          min={0}
+          max={4}
+          step={0.05}
+          value={settings.gain}
+          onChange={(e) => {
+            const gain = Number(e.target.value);
+            update({ gain });
+            engine.setInputGain(gain);
+          }}
+        />
+        <span style={{ width: 40 }}>{settings.gain.toFixed(2)}×</span>
+      </label>
+      <label style={{ display: 'flex', alignItems: 'center', gap: 4 }}>
+        <input
+          type="checkbox"
+          checked={settings.monitor}
+          onChange={(e) => {
+            update({ monitor: e.target.checked });
+            engine.setMonitor(e.target.checked);
+          }}
+        />
+        Monitor
+      </label>
+      <button style={buttonStyle} onClick={() => void start()}>Start</button>
+    </div>
+  );
+}
@@ -0,0 +1,74 @@
+import React from 'react';
+import { MOD_CURVES, MOD_SOURCES, ModCurve, ModRoute, ModSource, ModTarget } from '../three/modulation';
+
+type Props = {
+  routes: ModRoute[];
+  targets: ModTarget[];
+  onChange: (routes: ModRoute[]) => void;
+};
+
+const buttonStyle: React.CSSProperties = { padding: '2px 8px', borderRadius: 4, background: '#1e2b57', color: '#dfe7ff', border: '1px solid #32406f' };
+const numberStyle: React.CSSProperties = { width: 56 };
+
+function NumberField({ label, value, step, min, onChange }: { label: string; value: number; step: number; min?: number; onChange: (v: number) => void }) {
+  return (
+    <label style={{ display: 'flex', alignItems: 'center', gap: 4 }}>
+      <span style={{ opacity: 0.7 }}>{label}</span>
+      <input
+        type="number"
+        value={value}
+        step={step}
+        min={min}
+        onChange={(e) => {
+          const v = Number(e.target.value);
+          if (e.target.value !== '' && Number.isFinite(v)) onChange(v);
+        }}
+        style={numberStyle}
+      />
+    </label>
+  );
+}
+
+// Route editor for the modulation matrix; edits apply live and are saved with the preset
+export function ModulationPanel({ routes, targets, onChange }: Props) {
+  const update = (index: number, patch: Partial<ModRoute>) => onChange(routes.map((r, i) => (i === index ? { ...r, ...patch } : r)));
+  const remove = (index: number) => onChange(routes.filter((_, i) => i !== index));
+  const add = () => onChange([...routes, { source: 'rms', target: targets[0]?.id ?? '', amount: 1, curve: 'linear', smoothing: 0.1, range: [0, 1] }]);
+
+  return (
+    <div style={{ display: 'flex', flexDirection: 'column', gap: 4, padding: '6px 14px', borderBottom: '1px solid rgba(255,255,255,0.07)' }}>
+      {routes.map((route, i) => {
+        const target = targets.find((t) => t.id === route.target);
+        return (
+          <div key={i} style={{ display: 'flex', alignItems: 'center', gap: 8 }}>
+            <select value={route.source} onChange={(e) => update(i, { source: e.target.value as ModSource })}>
+              {MOD_SOURCES.map((s) => (
+                <option key={s} value={s}>{s}</option>
+              ))}
+            </select>
+            <span>→</span>
+            <select value={route.target} onChange={(e) => update(i, { target: e.target.value })} title={target ? `${target.min} to ${target.max}, base ${target.base}` : 'Unknown target'}>
+              {!target && <option value={route.target}>{route.target} (unknown)</option>}
+              {targets.map((t) => (
+                <option key={t.id} value={t.id}>{t.label} ({t.id})</option>
+              ))}
+            </select>
+            <select value={route.curve} onChange={(e) => update(i, { curve: e.target.value as ModCurve })}>
+              {MOD_CURVES.map((c) => (
+                <option key={c} value={c}>{c}</option>
+              ))}
+            </select>
+            <NumberField label="Amount" value={route.amount} step={0.1} onChange={(amount) => update(i, { amount })} />
+            <NumberField label="Smooth s" value={route.smoothing} step={0.05} min={0} onChange={(smoothing) => update(i, { smoothing: Math.max(0, smoothing) })} />
+            <NumberField label="Range" value={route.range[0]} step={0.05} onChange={(lo) => update(i, { range: [lo, route.range[1]] })} />
+            <NumberField label="to" value={route.range[1]} step={0.05} onChange={(hi) => update(i, { range: [route.range[0], hi] })} />
+            <button style={buttonStyle} onClick={() => remove(i)} title="Remove route">✕</button>
+          </div>
+        );
+      })}
+      <div>
+        <button style={buttonStyle} onClick={add} disabled={targets.length === 0}>Add route</button>
+      </div>
+    </div>
+  );
+}
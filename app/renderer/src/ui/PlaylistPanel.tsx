@@ -0,0 +1,77 @@
+import React, { useEffect, useReducer, useState } from 'react';
+import type { AudioEngine } from '../audio/AudioEngine';
+import type { RepeatMode } from '../audio/PlaylistQueue';
+
+type Props = {
+  engine: AudioEngine;
+};
+
+const buttonStyle: React.CSSProperties = { padding: '2px 6px', borderRadius: 4, background: '#1e2b57', color: '#dfe7ff', border: '1px solid #32406f' };
+
+// Queue list with reorder/remove plus shuffle, repeat and crossfade controls
+export function PlaylistPanel({ engine }: Props) {
+  const queue = engine.getQueue();
+  const [, refresh] = useReducer((n: number) => n + 1, 0);
+  const [crossfade, setCrossfade] = useState(engine.getCrossfade());
+
+  useEffect(() => {
+    const offQueue = queue.onChange(refresh);
+    const offTrack = engine.onTrackChange(refresh);
+    return () => {
+      offQueue();
+      offTrack();
+    };
+  }, [engine, queue]);
+
+  const items = queue.getItems();
+  const currentId = queue.getCurrent()?.id;
+
+  return (
+    <div style={{ width: 260, padding: 10, borderLeft: '1px solid rgba(255,255,255,0.07)', display: 'flex', flexDirection: 'column', gap: 8, overflowY: 'auto' }}>
+      <div style={{ display: 'flex', gap: 6, alignItems: 'center' }}>
+        <button style={buttonStyle} onClick={() => void engine.previous()}>Prev</button>
+        <button style={buttonStyle} onClick={() => void engine.next()}>Next</button>
+        <label style={{ display: 'flex', alignItems: 'center', gap: 4 }}>
+          <input type="checkbox" checked={queue.isShuffle()} onChange={(e) => queue.setShuffle(e.target.checked)} />
+          Shuffle
+        </label>
+        <select value={queue.getRepeat()} onChange={(e) => queue.setRepeat(e.target.value as RepeatMode)}>
+          <option value="off">Repeat off</option>
+          <option value="all">Repeat all</option>
+          <option value="one">Repeat one</option>
+        </select>
+      </div>
+      <label style={{ display: 'flex', alignItems: 'center', gap: 6 }}>
+        <span>Crossfade</span>
+        <input
+          type="range"
+          min={0}
+          max={12}
+          step={0.5}
+          value={crossfade}
+          onChange={(e) => {
+            const v = Number(e.target.value);
+            setCrossfade(v);
+            engine.setCrossfade(v);
+          }}
+        />
+        <span style={{ width: 48 }}>{crossfade > 0 ? `${crossfade}s` : 'gapless'}</span>
+      </label>
+      {items.length === 0 && <span style={{ opacity: 0.5 }}>Queue is empty</span>}
+      {items.map((item, idx) => (
+        <div key={item.id} style={{ display: 'flex', gap: 4, alignItems: 'center', opacity: item.id === currentId ? 1 : 0.75 }}>
+          <span
+            onDoubleClick={() => void engine.playItem(item.id)}
+            title="Double-click to play"
+            style={{ flex: 1, overflow: 'hidden', textOverflow: 'ellipsis', whiteSpace: 'nowrap', color: item.id === currentId ? '#9fe0ff' : undefined, cursor: 'pointer' }}
+          >
+            {item.name}
+          </span>
+          <button style={buttonStyle} disabled={idx === 0} onClick={() => queue.move(item.id, idx - 1)}>▲</button>
+          <button style={buttonStyle} disabled={idx === items.length - 1} onClick={() => queue.move(item.id, idx + 1)}>▼</button>
+          <button style={buttonStyle} onClick={() => queue.remove(item.id)}>✕</button>
+        </div>
+      ))}
+    </div>
+  );
+}
@@ -0,0 +1,52 @@
+import React, { useState } from 'react';
+import type { SceneView } from '../three/SceneView';
+import { Instrument, INSTRUMENTS } from '../analysis/InstrumentClassifier';
+import { loadShapeFiles, saveShapeFile } from '../three/instrumentShapes';
+import { SHAPE_FILE_ACCEPT } from '../three/shapeSources';
+
+type Props = {
+  sceneRef: React.MutableRefObject<SceneView | null>;
+  onError: (message: string) => void;
+};
+
+// Replace an instrument's particle silhouette with an SVG, glTF/GLB, OBJ or image file
+export function ShapePicker({ sceneRef, onError }: Props) {
+  const [instrument, setInstrument] = useState<Instrument>('guitar');
+  const [custom, setCustom] = useState<Partial<Record<Instrument, string>>>(() =>
+    Object.fromEntries(Object.entries(loadShapeFiles()).map(([i, f]) => [i, f!.name])),
+  );
+
+  const onPick = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const picked = e.target.files?.[0];
+    e.target.value = '';
+    if (!picked) return;
+    const file = { name: picked.name, bytes: new Uint8Array(await picked.arrayBuffer()) };
+    try {
+      await sceneRef.current?.setInstrumentShape(instrument, file);
+    } catch (err: any) {
+      onError(err?.message ?? 'Invalid shape file');
+      return;
+    }
+    setCustom((c) => ({ ...c, [instrument]: file.name }));
+    if (!saveShapeFile(instrument, file)) onError('Shape file too large to remember; it applies until restart');
+  };
+
+  const onReset = () => {
+    void sceneRef.current?.setInstrumentShape(instrument, null);
+    saveShapeFile(instrument, null);
+    setCustom(({ [instrument]: _, ...rest }) => rest as Partial<Record<Instrument, string>>);
+  };
+
+  return (
+    <label style={{ display: 'flex', alignItems: 'center', gap: 4 }} title={custom[instrument] ?? 'Built-in outline'}>
+      Shape
+      <select value={instrument} onChange={(e) => setInstrument(e.target.value as Instrument)}>
+        {INSTRUMENTS.map((i) => (
+          <option key={i} value={i}>{custom[i] ? `${i} (custom)` : i}</option>
+        ))}
+      </select>
+      <input type="file" accept={SHAPE_FILE_ACCEPT} onChange={(e) => void onPick(e)} style={{ color: '#9fb3ff', width: 190 }} />
+      <button onClick={onReset} disabled={!custom[instrument]}>Reset</button>
+    </label>
+  );
+}
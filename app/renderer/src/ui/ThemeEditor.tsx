@@ -0,0 +1,83 @@
+import React, { useState } from 'react';
+import * as THREE from 'three';
+import type { CrystalTheme } from '../three/CrystalSphere';
+import { loadCustomThemes, MAX_THEME_COLORS, PALETTE_THEMES, parseTheme, saveCustomThemes, themeToData } from '../three/themes';
+
+type Props = {
+  theme: CrystalTheme;
+  onChange: (theme: CrystalTheme, transitionSeconds: number) => void;
+  onError: (message: string) => void;
+};
+
+const buttonStyle: React.CSSProperties = { padding: '2px 8px', borderRadius: 4, background: '#1e2b57', color: '#dfe7ff', border: '1px solid #32406f' };
+
+function ColorField({ label, color, onChange }: { label: string; color: THREE.Color; onChange: (c: THREE.Color) => void }) {
+  return (
+    <label style={{ display: 'flex', alignItems: 'center', gap: 4 }}>
+      <span style={{ opacity: 0.7 }}>{label}</span>
+      <input type="color" value={`#${color.getHexString()}`} onChange={(e) => onChange(new THREE.Color(e.target.value))} />
+    </label>
+  );
+}
+
+// Palette editor: every edit previews immediately; themes are kept in localStorage or exported as JSON
+export function ThemeEditor({ theme, onChange, onError }: Props) {
+  const [saved, setSaved] = useState<CrystalTheme[]>(loadCustomThemes);
+  const starters = [...Object.values(PALETTE_THEMES), ...saved];
+  const isSaved = saved.some((t) => t.name === theme.name);
+
+  // Edits build a new theme so an ongoing cross-fade keeps its endpoints
+  const edit = (patch: Partial<CrystalTheme>) => onChange({ ...theme, ...patch }, 0);
+  const setStop = (index: number, c: THREE.Color) => edit({ colors: theme.colors.map((s, i) => (i === index ? c : s)) });
+
+  const store = (themes: CrystalTheme[]) => {
+    setSaved(themes);
+    saveCustomThemes(themes);
+  };
+
+  const onImport = async () => {
+    const txt = await window.ipcBridge.openJsonFile();
+    if (!txt) return;
+    let imported: CrystalTheme | null = null;
+    try {
+      imported = parseTheme(JSON.parse(txt));
+    } catch {}
+    if (imported) onChange(imported, 1);
+    else onError('Invalid theme file');
+  };
+
+  const onExport = async () => {
+    const path = await window.ipcBridge.saveTextFile('theme.json', JSON.stringify(themeToData(theme), null, 2));
+    if (!path) onError('Save cancelled');
+  };
+
+  return (
+    <div style={{ display: 'flex', flexWrap: 'wrap', alignItems: 'center', gap: 8, padding: '6px 14px', borderBottom: '1px solid rgba(255,255,255,0.07)' }}>
+      <select value="" title="Start from a palette" onChange={(e) => {
+        const picked = starters[Number(e.target.value)];
+        if (picked) onChange(picked, 1);
+      }}>
+        <option value="" disabled>Start from…</option>
+        {starters.map((t, i) => (
+          <option key={i} value={i}>{i < Object.keys(PALETTE_THEMES).length ? t.name : `${t.name} (saved)`}</option>
+        ))}
+      </select>
+      <input value={theme.name} onChange={(e) => edit({ name: e.target.value })} style={{ width: 120 }} title="Theme name" />
+      <span style={{ opacity: 0.7 }}>Stops</span>
+      {theme.colors.map((c, i) => (
+        <span key={i} style={{ display: 'flex', alignItems: 'center' }}>
+          <input type="color" value={`#${c.getHexString()}`} onChange={(e) => setStop(i, new THREE.Color(e.target.value))} />
+          <button style={buttonStyle} onClick={() => edit({ colors: theme.colors.filter((_, j) => j !== i) })} disabled={theme.colors.length <= 1} title="Remove stop">✕</button>
+        </span>
+      ))}
+      <button style={buttonStyle} onClick={() => edit({ colors: [...theme.colors, theme.colors[theme.colors.length - 1].clone()] })} disabled={theme.colors.length >= MAX_THEME_COLORS}>+</button>
+      <ColorField label="Core" color={theme.coreColor} onChange={(coreColor) => edit({ coreColor })} />
+      <ColorField label="Edge" color={theme.edgeColor} onChange={(edgeColor) => edit({ edgeColor })} />
+      <ColorField label="Nebula" color={theme.nebulaTint} onChange={(nebulaTint) => edit({ nebulaTint })} />
+      <button style={buttonStyle} onClick={() => store([...saved.filter((t) => t.name !== theme.name), theme])}>Save</button>
+      <button style={buttonStyle} onClick={() => store(saved.filter((t) => t.name !== theme.name))} disabled={!isSaved}>Delete</button>
+      <button style={buttonStyle} onClick={() => void onImport()}>Import</button>
+      <button style={buttonStyle} onClick={() => void onExport()}>Export</button>
+    </div>
+  );
+}
@@ -0,0 +1,49 @@
+import React, { useEffect, useState } from 'react';
+import type { TrackMetadata } from '../audio/trackMetadata';
+
+type Props = {
+  metadata: TrackMetadata | null;
+};
+
+// Cover, title and artist over the bottom-left of the scene; hidden when the file has no tags
+export function TrackOverlay({ metadata }: Props) {
+  const [coverUrl, setCoverUrl] = useState<string | null>(null);
+
+  useEffect(() => {
+    const picture = metadata?.picture;
+    if (!picture) {
+      setCoverUrl(null);
+      return;
+    }
+    const url = URL.createObjectURL(new Blob([picture.data], { type: picture.mime }));
+    setCoverUrl(url);
+    return () => URL.revokeObjectURL(url);
+  }, [metadata]);
+
+  if (!metadata || (!metadata.title && !metadata.artist)) return null;
+  const subtitle = [metadata.artist, metadata.album].filter(Boolean).join(' — ');
+  return (
+    <div
+      style={{
+        position: 'absolute',
+        left: 18,
+        bottom: 18,
+        display: 'flex',
+        alignItems: 'center',
+        gap: 12,
+        padding: '8px 14px 8px 8px',
+        borderRadius: 8,
+        background: 'rgba(5, 9, 20, 0.55)',
+        backdropFilter: 'blur(6px)',
+        pointerEvents: 'none',
+        maxWidth: '50%',
+      }}
+    >
+      {coverUrl && <img src={coverUrl} alt="" style={{ width: 56, height: 56, objectFit: 'cover', borderRadius: 4 }} />}
+      <div style={{ minWidth: 0 }}>
+        <div style={{ fontSize: 16, color: '#e6f0ff', whiteSpace: 'nowrap', overflow: 'hidden', textOverflow: 'ellipsis' }}>{metadata.title ?? 'Untitled'}</div>
+        {subtitle && <div style={{ fontSize: 13, opacity: 0.7, whiteSpace: 'nowrap', overflow: 'hidden', textOverflow: 'ellipsis' }}>{subtitle}</div>}
+      </div>
+    </div>
+  );
+}
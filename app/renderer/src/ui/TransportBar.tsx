@@ -0,0 +1,55 @@
+import React, { useEffect, useState } from 'react';
+import type { AudioEngine } from '../audio/AudioEngine';
+
+type Props = {
+  engine: AudioEngine | null;
+  duration: number;
+};
+
+export function formatTime(seconds: number): string {
+  const s = Math.max(0, Math.floor(seconds));
+  const m = Math.floor(s / 60);
+  return `${m}:${String(s % 60).padStart(2, '0')}`;
+}
+
+// Scrub bar with elapsed / remaining time; polls the engine position once per animation frame
+export function TransportBar({ engine, duration }: Props) {
+  const [position, setPosition] = useState(0);
+  const [scrubbing, setScrubbing] = useState<number | null>(null);
+
+  useEffect(() => {
+    if (!engine) return;
+    let raf = 0;
+    const poll = () => {
+      setPosition(engine.getPosition());
+      raf = requestAnimationFrame(poll);
+    };
+    poll();
+    return () => cancelAnimationFrame(raf);
+  }, [engine]);
+
+  const shown = scrubbing ?? position;
+  const commit = () => {
+    if (scrubbing != null) engine?.seek(scrubbing);
+    setScrubbing(null);
+  };
+
+  return (
+    <div style={{ display: 'flex', alignItems: 'center', gap: 8, padding: '6px 14px', borderBottom: '1px solid rgba(255,255,255,0.07)' }}>
+      <span style={{ width: 44, textAlign: 'right', fontVariantNumeric: 'tabular-nums' }}>{formatTime(shown)}</span>
+      <input
+        type="range"
+        min={0}
+        max={Math.max(duration, 0.01)}
+        step={0.01}
+        value={Math.min(shown, duration)}
+        disabled={!engine || duration <= 0}
+        onChange={(e) => setScrubbing(Number(e.target.value))}
+        onPointerUp={commit}
+        onKeyUp={commit}
+        style={{ flex: 1 }}
+      />
+      <span style={{ width: 44, opacity: 0.7, fontVariantNumeric: 'tabular-nums' }}>-{formatTime(duration - shown)}</span>
+    </div>
+  );
+}
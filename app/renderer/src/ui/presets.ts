@@ -1,4 +1,9 @@
-export type PaletteName = 'aurora' | 'cosmic' | 'solar';
+import type { BandLayout } from '../analysis/BandModel';
+import type { LayerId } from '../three/VisualLayer';
+import type { ModRoute } from '../three/modulation';
+import type { ThemeData } from '../three/themes';
+
+export type PaletteName = 'aurora' | 'cosmic' | 'solar' | 'okabe-ito' | 'viridis' | 'cividis';
 
 export type VisualPreset = {
   id: string;
@@ -6,12 +11,39 @@ export type VisualPreset = {
   palette: PaletteName;
   beatSensitivity: number; // 0..1
   starDensity: number; // number of stars
+  bandLayout: BandLayout;
+  layers: LayerId[]; // visual layers that run, back to front
+  routes: ModRoute[]; // modulation matrix: audio sources driving layer parameters
 };
 
+// Every preset: loudness thickens the nebula, highs brighten the stars
+const BASE_ROUTES: ModRoute[] = [
+  { source: 'rms', target: 'nebula.alpha', amount: 1, curve: 'linear', smoothing: 0, range: [0, 0.6] },
+  { source: 'high', target: 'starfield.opacity', amount: 1, curve: 'linear', smoothing: 0, range: [0, 0.4] },
+];
+
+const AURORA_ROUTES: ModRoute[] = [
+  ...BASE_ROUTES,
+  { source: 'lfo.slow', target: 'crystal.hue', amount: 1, curve: 'smooth', smoothing: 0, range: [-0.04, 0.04] },
+  { source: 'instrument.pad', target: 'figures.size', amount: 1, curve: 'linear', smoothing: 1, range: [0, 0.5] },
+];
+
+const COSMIC_ROUTES: ModRoute[] = [
+  ...BASE_ROUTES,
+  { source: 'kick', target: 'figures.size', amount: 1, curve: 'exp', smoothing: 0.05, range: [0, 0.8] },
+  { source: 'mid', target: 'crystal.rotation', amount: 1, curve: 'linear', smoothing: 0.5, range: [0, 0.2] },
+];
+
+const SOLAR_ROUTES: ModRoute[] = [
+  ...BASE_ROUTES,
+  { source: 'kick', target: 'crystal.bloom', amount: 1, curve: 'linear', smoothing: 0.08, range: [0, 0.35] },
+  { source: 'instrument.drums', target: 'crystal.rotation', amount: 1, curve: 'linear', smoothing: 1, range: [0, 0.25] },
+];
+
 export const PRESETS: VisualPreset[] = [
-  { id: 'aurora', name: 'Aurora', palette: 'aurora', beatSensitivity: 0.6, starDensity: 700 },
-  { id: 'cosmic', name: 'Cosmic Dust', palette: 'cosmic', beatSensitivity: 0.5, starDensity: 1200 },
-  { id: 'solar', name: 'Solar Flare', palette: 'solar', beatSensitivity: 0.7, starDensity: 900 },
+  { id: 'aurora', name: 'Aurora', palette: 'aurora', beatSensitivity: 0.6, starDensity: 700, bandLayout: { scale: 'log', count: 16 }, layers: ['starfield', 'aurora', 'crystal', 'figures'], routes: AURORA_ROUTES },
+  { id: 'cosmic', name: 'Cosmic Dust', palette: 'cosmic', beatSensitivity: 0.5, starDensity: 1200, bandLayout: { scale: 'mel', count: 32 }, layers: ['starfield', 'nebula', 'crystal', 'figures'], routes: COSMIC_ROUTES },
+  { id: 'solar', name: 'Solar Flare', palette: 'solar', beatSensitivity: 0.7, starDensity: 900, bandLayout: { scale: 'bark', count: 24 }, layers: ['nebula', 'crystal', 'figures'], routes: SOLAR_ROUTES },
 ];
 
 export function getPresetById(id: string | null | undefined): VisualPreset {
@@ -26,6 +58,10 @@ export type SavedPreset = {
   starDensity: number;
   nebulaEnabled: boolean;
   volume: number;
+  bandLayout?: BandLayout;
+  layers?: LayerId[];
+  routes?: ModRoute[];
+  theme?: ThemeData; // the palette as edited, which may differ from `palette`
 };
 
 
@@ -19,11 +19,17 @@ export default defineConfig({
     emptyOutDir: true,
   },
   base: '',
+  // Module workers, so the ONNX tagger worker can load onnxruntime's WASM loader
+  worker: {
+    format: 'es',
+  },
   resolve: {
     dedupe: ['react', 'react-dom'],
   },
   optimizeDeps: {
     include: ['react', 'react-dom'],
+    // onnxruntime-web finds its .wasm next to its own module; pre-bundling would move it
+    exclude: ['onnxruntime-web'],
   },
 });
 
@@ -0,0 +1,93 @@
+/**
+ * Scores the instrument classifier against a folder of labelled clips.
+ *
+ *   npm run eval:classifier -- <folder> [--hold <seconds>] [--baseline <file>] [--update-baseline]
+ *
+ * The folder holds `labels.json` ({ "<file>": ["drums", "bass"], ... }) and the clips: WAV audio
+ * (analysed offline, exactly like file playback) or feature captures (.jsonl / .mvcap) recorded
+ * in the app. Exits non-zero when macro F1 or exact match drop below the baseline
+ * (default `<folder>/baseline.json`).
+ */
+import { existsSync, readFileSync, writeFileSync } from 'node:fs';
+import { extname, join } from 'node:path';
+import type { AudioFeaturesFrame } from '../app/renderer/src/audio/AudioEngine';
+import { decodeWav, mixdown } from '../app/renderer/src/audio/wavFile';
+import { analyzeSamples } from '../app/renderer/src/analysis/OfflineAnalyzer';
+import { decodeCapture } from '../app/renderer/src/capture/frameFormat';
+import { Instrument, INSTRUMENTS } from '../app/renderer/src/analysis/InstrumentClassifier';
+import {
+  baselineFrom,
+  compareToBaseline,
+  EvaluationBaseline,
+  evaluateClassifier,
+  formatReport,
+  LabeledClip,
+} from '../app/renderer/src/analysis/classifierEvaluation';
+
+function usage(message: string): never {
+  console.error(message);
+  console.error('usage: evaluateClassifier <folder> [--hold <seconds>] [--baseline <file>] [--update-baseline]');
+  process.exit(2);
+}
+
+async function loadFrames(path: string): Promise<AudioFeaturesFrame[]> {
+  const bytes = new Uint8Array(readFileSync(path));
+  const ext = extname(path).toLowerCase();
+  if (ext === '.wav') {
+    const audio = decodeWav(bytes);
+    return (await analyzeSamples(mixdown(audio), audio.sampleRate)).frames;
+  }
+  if (ext === '.jsonl' || ext === '.mvcap') {
+    return decodeCapture(bytes).records.flatMap((r) => (r.kind === 'frame' ? [r.frame] : []));
+  }
+  throw new Error(`${path}: unsupported clip type (use WAV or a feature capture)`);
+}
+
+async function main() {
+  const args = process.argv.slice(2);
+  const folder = args.find((a, i) => !a.startsWith('--') && !['--hold', '--baseline'].includes(args[i - 1]));
+  if (!folder) usage('missing fixture folder');
+  const flag = (name: string) => {
+    const i = args.indexOf(name);
+    return i >= 0 ? args[i + 1] : undefined;
+  };
+  const hold = flag('--hold');
+  const holdSeconds = hold === undefined ? undefined : Number(hold);
+  if (holdSeconds !== undefined && !(holdSeconds >= 0)) usage(`invalid hold time: ${hold}`);
+  const baselinePath = flag('--baseline') ?? join(folder, 'baseline.json');
+
+  const labelsPath = join(folder, 'labels.json');
+  if (!existsSync(labelsPath)) usage(`${labelsPath} not found`);
+  const labels = JSON.parse(readFileSync(labelsPath, 'utf8')) as Record<string, string[]>;
+  const clips: LabeledClip[] = [];
+  for (const [file, names] of Object.entries(labels)) {
+    const unknown = names.filter((n) => !INSTRUMENTS.includes(n as Instrument));
+    if (unknown.length) throw new Error(`${file}: unknown instruments ${unknown.join(', ')}`);
+    clips.push({ name: file, instruments: names as Instrument[], frames: await loadFrames(join(folder, file)) });
+  }
+
+  const report = evaluateClassifier(clips, { tracker: holdSeconds === undefined ? {} : { holdSeconds } });
+  console.log(formatReport(report));
+
+  if (args.includes('--update-baseline')) {
+    writeFileSync(baselinePath, JSON.stringify(baselineFrom(report), null, 2) + '\n');
+    console.log(`\nbaseline written to ${baselinePath}`);
+    return;
+  }
+  if (!existsSync(baselinePath)) {
+    console.log(`\nno baseline at ${baselinePath}; run with --update-baseline to store one`);
+    return;
+  }
+  const regressions = compareToBaseline(report, JSON.parse(readFileSync(baselinePath, 'utf8')) as EvaluationBaseline);
+  if (regressions.length) {
+    console.error(`\nworse than baseline:\n  ${regressions.join('\n  ')}`);
+    process.exitCode = 1;
+  } else {
+    console.log('\nat or above baseline');
+  }
+}
+
+main().catch((err) => {
+  console.error(err instanceof Error ? err.message : err);
+  process.exitCode = 1;
+});
@@ -0,0 +1,42 @@
+// Electron main for `npm run test:gpu`: runs the WebGL tests, which skip under plain node, in a
+// hidden window on SwiftShader (the same GL as GPU_MODE=swiftshader). Vite serves and transpiles
+// scripts/gpuTests.html and the test files it imports. Exits non-zero when any test fails.
+import { app, BrowserWindow } from 'electron';
+import { createServer } from 'vite';
+import { fileURLToPath } from 'node:url';
+import { dirname, resolve } from 'node:path';
+
+const root = resolve(dirname(fileURLToPath(import.meta.url)), '..');
+
+app.commandLine.appendSwitch('use-gl', 'swiftshader');
+app.commandLine.appendSwitch('enable-unsafe-swiftshader');
+
+async function run() {
+  const server = await createServer({ root, configFile: false, logLevel: 'warn', server: { port: 5184 } });
+  await server.listen();
+  const win = new BrowserWindow({ show: false });
+  win.webContents.on('console-message', (_e, _level, message) => console.log(message));
+  try {
+    // The page reports `done:<failures>` through its title once mocha finishes
+    return await new Promise((done, fail) => {
+      win.on('page-title-updated', (_e, title) => {
+        if (title.startsWith('done:')) done(Number(title.slice(5)));
+      });
+      win.webContents.on('did-fail-load', (_e, code, description) => fail(new Error(`${description} (${code})`)));
+      void win.loadURL(new URL('scripts/gpuTests.html', server.resolvedUrls.local[0]).href);
+    });
+  } finally {
+    win.destroy();
+    await server.close();
+  }
+}
+
+app.whenReady()
+  .then(run)
+  .then(
+    (failures) => app.exit(failures ? 1 : 0),
+    (err) => {
+      console.error(err);
+      app.exit(1);
+    },
+  );
@@ -0,0 +1,32 @@
+import { expect } from 'chai';
+import { dominantColors, themeFromColors } from '../app/renderer/src/three/artPalette';
+
+// RGBA buffer made of solid colour runs: [r, g, b, pixelCount]
+function pixels(runs: [number, number, number, number][]): Uint8ClampedArray {
+  const out: number[] = [];
+  for (const [r, g, b, n] of runs) for (let i = 0; i < n; i++) out.push(r, g, b, 255);
+  return Uint8ClampedArray.from(out);
+}
+
+describe('artPalette', () => {
+  it('ranks saturated colours above a larger grey background', () => {
+    const colors = dominantColors(pixels([[128, 128, 128, 500], [220, 40, 40, 200], [40, 60, 220, 150]]), 3);
+    expect(colors).to.have.length(3);
+    expect(colors[0].r).to.be.greaterThan(colors[0].b); // red first
+    expect(colors[1].b).to.be.greaterThan(colors[1].r); // then blue
+  });
+
+  it('skips near-duplicate shades and transparent pixels', () => {
+    const data = pixels([[200, 30, 30, 300], [205, 35, 30, 300], [30, 200, 30, 100]]);
+    data.set([0, 0, 255, 0], 0); // one transparent pixel must not count as blue
+    const colors = dominantColors(data, 4);
+    expect(colors).to.have.length(2);
+  });
+
+  it('lifts dark artwork colours so they read on black', () => {
+    const theme = themeFromColors(dominantColors(pixels([[30, 10, 40, 100]])))!;
+    const hsl = { h: 0, s: 0, l: 0 };
+    expect(theme.colors[0].getHSL(hsl).l).to.be.at.least(0.45 - 1e-6);
+    expect(themeFromColors([])).to.equal(null);
+  });
+});
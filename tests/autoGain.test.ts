@@ -0,0 +1,54 @@
+import { expect } from 'chai';
+import { AutoGain } from '../app/renderer/src/analysis/AutoGain';
+import type { AudioFeaturesFrame } from '../app/renderer/src/audio/AudioEngine';
+
+function frame(rms: number): AudioFeaturesFrame {
+  return { time: 0, rms, bands: { low: rms, mid: rms / 2, high: rms / 4 }, bandLevels: [rms, rms], beat: false };
+}
+
+// Feeds a constant level for `seconds` at 60 fps and returns the last output frame
+function feed(agc: AutoGain, rms: number, from: number, seconds: number): AudioFeaturesFrame {
+  let out = frame(rms);
+  for (let i = 0; i < seconds * 60; i++) out = agc.process(frame(rms), from + i / 60);
+  return out;
+}
+
+describe('AutoGain', () => {
+  it('lifts a quiet recording and tames a loud one toward the target', () => {
+    expect(feed(new AutoGain({ target: 0.3 }), 0.08, 0, 10).rms).to.be.closeTo(0.3, 0.01);
+    expect(feed(new AutoGain({ target: 0.3 }), 0.8, 0, 10).rms).to.be.closeTo(0.3, 0.01);
+  });
+
+  it('scales bands and band levels by the same gain, clamped to 1', () => {
+    const out = feed(new AutoGain({ target: 0.6, maxGain: 10 }), 0.1, 0, 10);
+    expect(out.loudness?.gain).to.be.closeTo(6, 0.2);
+    expect(out.bands.mid).to.be.closeTo(0.05 * out.loudness!.gain, 1e-9);
+    expect(out.bandLevels![0]).to.be.closeTo(out.rms, 1e-9);
+    const clamped = new AutoGain({ target: 0.9 }).process(frame(0.5), 0);
+    expect(clamped.bands.low).to.be.at.most(1);
+  });
+
+  it('respects the gain limits', () => {
+    expect(feed(new AutoGain({ target: 0.3, maxGain: 2 }), 0.03, 0, 10).loudness?.gain).to.equal(2);
+  });
+
+  it('holds its estimate through silence below the gate', () => {
+    const agc = new AutoGain({ target: 0.3 });
+    feed(agc, 0.3, 0, 5);
+    const out = feed(agc, 0.001, 5, 5);
+    expect(out.loudness?.gain).to.be.closeTo(1, 0.01);
+  });
+
+  it('reacts to a rise faster than to a drop', () => {
+    const up = new AutoGain({ attack: 0.2, release: 4 });
+    feed(up, 0.1, 0, 5);
+    const afterRise = feed(up, 0.4, 5, 0.5).loudness!.levelDb;
+    const down = new AutoGain({ attack: 0.2, release: 4 });
+    feed(down, 0.4, 0, 5);
+    const afterDrop = feed(down, 0.1, 5, 0.5).loudness!.levelDb;
+    const riseProgress = (afterRise - 20 * Math.log10(0.1)) / (20 * Math.log10(4));
+    const dropProgress = (20 * Math.log10(0.4) - afterDrop) / (20 * Math.log10(4));
+    expect(riseProgress).to.be.greaterThan(0.8);
+    expect(dropProgress).to.be.lessThan(0.2);
+  });
+});
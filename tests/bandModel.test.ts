@@ -0,0 +1,54 @@
+import { expect } from 'chai';
+import { BandModel, BandScale, hzToScale, parseBandLayout, scaleToHz } from '../app/renderer/src/analysis/BandModel';
+
+const sampleRate = 44100;
+const bins = 512;
+const binHz = sampleRate / 2 / bins;
+
+function spectrumWithPeak(hz: number): Uint8Array {
+  const freq = new Uint8Array(bins);
+  freq[Math.round(hz / binHz)] = 255;
+  return freq;
+}
+
+describe('BandModel', () => {
+  for (const scale of ['log', 'mel', 'bark'] as BandScale[]) {
+    it(`converts ${scale} scale both ways and builds ascending edges`, () => {
+      for (const hz of [50, 440, 3000, 12000]) expect(scaleToHz(hzToScale(hz, scale), scale)).to.be.closeTo(hz, 1e-6 * hz);
+      const model = new BandModel({ scale, count: 16 }, bins, sampleRate);
+      expect(model.edges.length).to.equal(17);
+      for (let i = 1; i < model.edges.length; i++) expect(model.edges[i]).to.be.greaterThan(model.edges[i - 1]);
+    });
+  }
+
+  it('puts a peak into the band that contains it', () => {
+    const model = new BandModel({ scale: 'log', count: 32 }, bins, sampleRate);
+    const levels = model.compute(spectrumWithPeak(1000));
+    const loudest = levels.indexOf(Math.max(...levels));
+    expect(model.edges[loudest]).to.be.lessThan(1000 + binHz);
+    expect(model.edges[loudest + 1]).to.be.greaterThan(1000 - binHz);
+  });
+
+  it('never leaves narrow low bands empty', () => {
+    const model = new BandModel({ scale: 'log', count: 64 }, bins, sampleRate);
+    const levels = model.compute(new Uint8Array(bins).fill(128));
+    for (const v of levels) expect(v).to.be.closeTo(128 / 255, 1e-6);
+  });
+
+  it('summarizes into low/mid/high around the crossovers', () => {
+    const model = new BandModel({ scale: 'mel', count: 24 }, bins, sampleRate);
+    expect(model.summarize(model.compute(spectrumWithPeak(100))).low).to.be.greaterThan(0);
+    const mid = model.summarize(model.compute(spectrumWithPeak(1000)));
+    expect(mid.mid).to.be.greaterThan(0);
+    expect(mid.low).to.equal(0);
+    expect(mid.high).to.equal(0);
+    expect(model.summarize(model.compute(spectrumWithPeak(8000))).high).to.be.greaterThan(0);
+  });
+
+  it('validates layouts from preset files', () => {
+    expect(parseBandLayout({ scale: 'bark', count: 16 })).to.deep.equal({ scale: 'bark', count: 16 });
+    expect(parseBandLayout({ scale: 'linear', count: 16 })).to.equal(null);
+    expect(parseBandLayout({ scale: 'log', count: 2.5 })).to.equal(null);
+    expect(parseBandLayout(undefined)).to.equal(null);
+  });
+});
@@ -0,0 +1,100 @@
+import { expect } from 'chai';
+import type { AudioFeaturesFrame } from '../app/renderer/src/audio/AudioEngine';
+import { compareToBaseline, evaluateClassifier, formatReport } from '../app/renderer/src/analysis/classifierEvaluation';
+import { decodeWav, mixdown } from '../app/renderer/src/audio/wavFile';
+
+// Frames every 0.1 s with band levels only, so the heuristics score drums/bass/guitar
+function frames(seconds: number, bands: { low: number; mid: number; high: number }, kickEvery = 0): AudioFeaturesFrame[] {
+  return Array.from({ length: Math.round(seconds * 10) }, (_, i) => ({
+    time: i / 10,
+    rms: 0.3,
+    bands,
+    beat: false,
+    onsets: { kick: kickEvery && i % kickEvery === 0 ? 1 : 0, snare: 0, hat: 0 },
+  }));
+}
+
+function wav(bits: 16 | 24, channels: number[][], sampleRate = 8000): Uint8Array {
+  const n = channels[0].length;
+  const bytesPerSample = bits / 8;
+  const data = new DataView(new ArrayBuffer(n * channels.length * bytesPerSample));
+  let pos = 0;
+  for (let i = 0; i < n; i++) {
+    for (const ch of channels) {
+      const v = Math.round(ch[i] * (bits === 16 ? 32767 : 8388607));
+      if (bits === 16) data.setInt16(pos, v, true);
+      else {
+        data.setUint8(pos, v & 0xff);
+        data.setUint8(pos + 1, (v >> 8) & 0xff);
+        data.setInt8(pos + 2, v >> 16);
+      }
+      pos += bytesPerSample;
+    }
+  }
+  const header = new DataView(new ArrayBuffer(44));
+  const ascii = (at: number, s: string) => [...s].forEach((c, i) => header.setUint8(at + i, c.charCodeAt(0)));
+  ascii(0, 'RIFF');
+  header.setUint32(4, 36 + data.byteLength, true);
+  ascii(8, 'WAVE');
+  ascii(12, 'fmt ');
+  header.setUint32(16, 16, true);
+  header.setUint16(20, 1, true);
+  header.setUint16(22, channels.length, true);
+  header.setUint32(24, sampleRate, true);
+  header.setUint32(28, sampleRate * channels.length * bytesPerSample, true);
+  header.setUint16(32, channels.length * bytesPerSample, true);
+  header.setUint16(34, bits, true);
+  ascii(36, 'data');
+  header.setUint32(40, data.byteLength, true);
+  const out = new Uint8Array(44 + data.byteLength);
+  out.set(new Uint8Array(header.buffer), 0);
+  out.set(new Uint8Array(data.buffer), 44);
+  return out;
+}
+
+describe('classifierEvaluation', () => {
+  const clips = [
+    { name: 'bass', instruments: ['bass' as const], frames: frames(5, { low: 0.8, mid: 0.1, high: 0.1 }) },
+    { name: 'drums', instruments: ['drums' as const], frames: frames(5, { low: 0.1, mid: 0.1, high: 0.3 }, 5) },
+    // labelled guitar but too quiet in the mids to be detected
+    { name: 'guitar', instruments: ['guitar' as const], frames: frames(5, { low: 0.1, mid: 0.2, high: 0.1 }) },
+  ];
+
+  it('scores per-class precision/recall and a confusion matrix', () => {
+    const report = evaluateClassifier(clips, { warmupSeconds: 1 });
+    expect(report.frames).to.equal(3 * 40);
+    expect(report.perClass.bass).to.include({ precision: 1, recall: 1, support: 40 });
+    expect(report.perClass.drums.recall).to.equal(1);
+    expect(report.perClass.guitar).to.include({ recall: 0, support: 40 });
+    expect(report.confusion.guitar.none).to.equal(40);
+    expect(report.confusion.bass.bass).to.equal(40);
+    expect(report.macroF1).to.be.closeTo(2 / 3, 1e-9);
+    expect(report.exactMatch).to.be.closeTo(2 / 3, 1e-9);
+    expect(formatReport(report)).to.contain('macro F1 66.7%');
+  });
+
+  it('counts switches of the active set under the hold time', () => {
+    // bass and silence alternate every second
+    const flicker = frames(11, { low: 0.8, mid: 0.1, high: 0.1 }).map((f) => (Math.floor(f.time) % 2 ? { ...f, rms: 0 } : f));
+    const clip = [{ name: 'flicker', instruments: ['bass' as const], frames: flicker }];
+    const held = evaluateClassifier(clip, { tracker: { holdSeconds: 4, decaySeconds: 0.1 } });
+    const free = evaluateClassifier(clip, { tracker: { holdSeconds: 0, decaySeconds: 0.1 } });
+    expect(free.switchesPerMinute).to.be.greaterThan(held.switchesPerMinute);
+    expect(held.switchesPerMinute).to.be.greaterThan(0);
+  });
+
+  it('flags regressions against the baseline', () => {
+    const report = evaluateClassifier(clips);
+    expect(compareToBaseline(report, { macroF1: report.macroF1, exactMatch: report.exactMatch })).to.deep.equal([]);
+    expect(compareToBaseline(report, { macroF1: 0.9, exactMatch: 0 })).to.have.length(1);
+  });
+
+  it('decodes 16- and 24-bit PCM WAV', () => {
+    const stereo = decodeWav(wav(16, [[0, 0.5, -0.5], [1, 0, 0]]));
+    expect(stereo.sampleRate).to.equal(8000);
+    expect(stereo.channels[0][1]).to.be.closeTo(0.5, 1e-4);
+    expect(Array.from(mixdown(stereo))[0]).to.be.closeTo(0.5, 1e-4);
+    expect(decodeWav(wav(24, [[-0.25]])).channels[0][0]).to.be.closeTo(-0.25, 1e-6);
+    expect(() => decodeWav(new Uint8Array(16))).to.throw('Not a WAV file');
+  });
+});
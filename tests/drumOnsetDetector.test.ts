@@ -0,0 +1,64 @@
+import { expect } from 'chai';
+import { DrumKind, DrumOnsetDetector, mergeOnsets } from '../app/renderer/src/analysis/DrumOnsetDetector';
+
+const sampleRate = 44100;
+const bins = 512; // fftSize 1024
+const binHz = sampleRate / 2 / bins;
+
+// Byte spectra at 60 fps: a steady noise floor, plus decaying bursts in the given Hz range at each hit time
+function render(hits: { time: number; lo: number; hi: number }[], seconds: number): Uint8Array[] {
+  let seed = 3;
+  const rand = () => (seed = (seed * 16807) % 2147483647) / 2147483647;
+  const frames: Uint8Array[] = [];
+  for (let f = 0; f < seconds * 60; f++) {
+    const t = f / 60;
+    const spec = new Uint8Array(bins);
+    for (let i = 0; i < bins; i++) spec[i] = 60 + rand() * 6;
+    for (const h of hits) {
+      const age = t - h.time;
+      if (age < 0 || age > 0.2) continue;
+      const level = 180 * Math.exp(-age / 0.05);
+      for (let i = Math.floor(h.lo / binHz); i < Math.ceil(h.hi / binHz); i++) spec[i] = Math.max(spec[i], 60 + level);
+    }
+    frames.push(spec);
+  }
+  return frames;
+}
+
+function detectAll(frames: Uint8Array[]): Record<DrumKind, number[]> {
+  const det = new DrumOnsetDetector();
+  const out: Record<DrumKind, number[]> = { kick: [], snare: [], hat: [] };
+  frames.forEach((spec, f) => {
+    const onsets = det.detect(spec, sampleRate, f / 60);
+    for (const kind of ['kick', 'snare', 'hat'] as DrumKind[]) if (onsets[kind] > 0) out[kind].push(f / 60);
+  });
+  return out;
+}
+
+describe('DrumOnsetDetector', () => {
+  it('separates kick, snare and hat hits', () => {
+    const hits = [];
+    for (let t = 1; t < 5; t += 1) {
+      hits.push({ time: t, lo: 40, hi: 120 }); // kick
+      hits.push({ time: t + 0.5, lo: 150, hi: 5000 }); // snare: body + crack
+      hits.push({ time: t + 0.25, lo: 8000, hi: 15000 }); // hat
+      hits.push({ time: t + 0.75, lo: 8000, hi: 15000 });
+    }
+    const got = detectAll(render(hits, 5.5));
+    expect(got.kick.length).to.equal(4);
+    expect(got.snare.length).to.equal(4);
+    expect(got.hat.length).to.equal(8);
+    for (const t of got.kick) expect(t % 1).to.be.lessThan(0.05);
+    for (const t of got.snare) expect(Math.abs((t % 1) - 0.5)).to.be.lessThan(0.05);
+  });
+
+  it('stays quiet on a steady spectrum', () => {
+    const got = detectAll(render([], 3));
+    expect(got.kick.length + got.snare.length + got.hat.length).to.equal(0);
+  });
+
+  it('merges onsets by taking the strongest per drum', () => {
+    const merged = mergeOnsets({ kick: 0.2, snare: 0, hat: 0.9 }, { kick: 0.5, snare: 0.1, hat: 0 });
+    expect(merged).to.deep.equal({ kick: 0.5, snare: 0.1, hat: 0.9 });
+  });
+});
@@ -0,0 +1,89 @@
+import { expect } from 'chai';
+import { EffectScheduler, EffectSpec } from '../app/renderer/src/three/EffectScheduler';
+import { headlessCrystal, layerFrame } from './layerFixtures';
+
+type Kind = 'rings' | 'rays' | 'burst';
+
+const SPECS: Record<Kind, EffectSpec> = {
+  rings: { priority: 1, bloom: 0.1, fadeIn: 0.5, fadeOut: 1 },
+  rays: { priority: 2, bloom: 0.2, fadeIn: 0.5, fadeOut: 1 },
+  burst: { priority: 3, bloom: 0.4, fadeIn: 0, fadeOut: 0.5 },
+};
+
+describe('EffectScheduler', () => {
+  it('ramps an effect in, holds it, and fades it out before ending it', () => {
+    const effects = new EffectScheduler(SPECS);
+    const ended: Kind[] = [];
+    effects.onEnd((k) => ended.push(k));
+    effects.start('rings');
+    effects.update(0.25);
+    expect(effects.envelope('rings')).to.be.closeTo(0.5, 1e-9);
+    effects.update(1);
+    expect(effects.list()).to.deep.equal([{ kind: 'rings', level: 1, stage: 'hold' }]);
+    effects.stop('rings');
+    effects.update(0.5);
+    expect(effects.envelope('rings')).to.be.closeTo(0.5, 1e-9);
+    expect(effects.primary()).to.equal(null);
+    effects.update(0.5);
+    expect(effects.isRunning('rings')).to.equal(false);
+    expect(ended).to.deep.equal(['rings']);
+  });
+
+  it('fades out the lowest priority, then the oldest, effect beyond the limit', () => {
+    const effects = new EffectScheduler(SPECS, 1);
+    effects.start('rays');
+    effects.update(1);
+    // A lower-priority effect still starts; the limit only picks who leaves
+    effects.start('rings');
+    expect(effects.list().map((e) => [e.kind, e.stage])).to.deep.equal([['rays', 'out'], ['rings', 'in']]);
+    effects.update(0.5);
+    expect(effects.envelope('rays')).to.be.closeTo(0.5, 1e-9);
+    expect(effects.envelope('rings')).to.be.closeTo(1, 1e-9);
+
+    const two = new EffectScheduler(SPECS, 2);
+    two.start('rays');
+    two.start('rings');
+    two.start('burst');
+    expect(two.list().filter((e) => e.stage === 'out').map((e) => e.kind)).to.deep.equal(['rings']);
+    expect(two.primary()).to.equal('burst');
+  });
+
+  it('brings back an effect that is fading out from its current level', () => {
+    const effects = new EffectScheduler(SPECS);
+    effects.start('rays');
+    effects.update(1);
+    effects.stop('rays');
+    effects.update(0.75);
+    effects.start('rays');
+    effects.update(0.125);
+    expect(effects.envelope('rays')).to.be.closeTo(0.5, 1e-9);
+    expect(effects.primary()).to.equal('rays');
+  });
+
+  it('takes the strongest bloom among effects on screen', () => {
+    const effects = new EffectScheduler(SPECS, 3);
+    effects.start('rays');
+    effects.start('burst');
+    effects.update(0.25);
+    expect(effects.bloom()).to.be.closeTo(0.4, 1e-9);
+    expect(effects.bloom((k) => (k === 'burst' ? 0 : 1))).to.be.closeTo(0.1, 1e-9);
+  });
+
+  it('lets the crystal layer a new effect over the fading previous one', () => {
+    const crystal = headlessCrystal();
+    const step = (dt: number) => crystal.update(layerFrame({ dt, theme: crystal.getTheme() }));
+    crystal.triggerEffect('resonance');
+    crystal.triggerEffect('prism');
+    crystal.triggerEffect('spikes');
+    step(0.2);
+    expect(crystal.getActiveEffect()).to.equal('spikes');
+    expect(crystal.bloomStrength).to.be.closeTo(1.4, 1e-9);
+    crystal.setEffect('idle');
+    expect(crystal.getActiveEffect()).to.equal('idle');
+    expect(crystal.isAnyEffectActive()).to.equal(true);
+    for (let k = 0; k < 20; k++) step(0.1);
+    expect(crystal.isAnyEffectActive()).to.equal(false);
+    expect(crystal.bloomStrength).to.equal(1.2);
+    crystal.dispose();
+  });
+});
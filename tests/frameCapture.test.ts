@@ -0,0 +1,130 @@
+import { expect } from 'chai';
+import type { AudioFeaturesFrame } from '../app/renderer/src/audio/AudioEngine';
+import {
+  Capture,
+  CaptureFormatError,
+  decodeBinary,
+  decodeCapture,
+  decodeJsonl,
+  encodeBinary,
+  encodeJsonl,
+} from '../app/renderer/src/capture/frameFormat';
+import { FrameRecorder } from '../app/renderer/src/capture/FrameRecorder';
+import { FrameReplaySource } from '../app/renderer/src/capture/FrameReplaySource';
+import { FrameSwitch } from '../app/renderer/src/capture/FrameSwitch';
+
+function frame(i: number): AudioFeaturesFrame {
+  return {
+    time: i / 60,
+    rms: 0.25 + i * 0.01,
+    bands: { low: 0.5, mid: 0.25, high: 0.125 },
+    bandLevels: [0.5, 0.75],
+    beat: i % 2 === 0,
+    tempo: { bpm: 120, confidence: 0.8, phase: 0.5, beatInBar: 1, barPhase: 0.375 },
+    onsets: { kick: i === 1 ? 0.5 : 0, snare: 0, hat: 0 },
+  };
+}
+
+// Fake engine + scene that record into the recorder through the same subscriptions as the app
+function record(): Capture {
+  let clock = 0;
+  const frameCbs = new Set<(f: AudioFeaturesFrame) => void>();
+  const decisionCbs = new Set<(d: { instrument?: string; effect?: string }) => void>();
+  const recorder = new FrameRecorder(() => clock);
+  recorder.start(
+    { onFrame: (cb) => (frameCbs.add(cb), () => frameCbs.delete(cb)) },
+    { onDecision: (cb) => (decisionCbs.add(cb), () => decisionCbs.delete(cb)) },
+    'test.wav',
+  );
+  for (let i = 0; i < 4; i++) {
+    clock = i * 16.5;
+    for (const cb of frameCbs) cb(frame(i));
+    if (i === 2) for (const cb of decisionCbs) cb({ instrument: 'drums', effect: 'rift' });
+  }
+  const capture = recorder.stop()!;
+  expect(frameCbs.size + decisionCbs.size).to.equal(0);
+  return capture;
+}
+
+describe('frame capture', () => {
+  it('records frames and decisions with relative timestamps', () => {
+    const capture = record();
+    expect(capture.header.source).to.equal('test.wav');
+    expect(capture.records.map((r) => r.kind)).to.deep.equal(['frame', 'frame', 'frame', 'decision', 'frame']);
+    expect(capture.records[4].t).to.equal(49.5);
+  });
+
+  it('round-trips through JSONL exactly', () => {
+    const capture = record();
+    expect(decodeJsonl(encodeJsonl(capture))).to.deep.equal(capture);
+  });
+
+  it('round-trips through the binary format within float32 precision', () => {
+    const capture = record();
+    const bytes = encodeBinary(capture);
+    expect(bytes.length).to.be.lessThan(new TextEncoder().encode(encodeJsonl(capture)).length);
+    const decoded = decodeCapture(bytes);
+    expect(decoded.header).to.deep.equal(capture.header);
+    expect(decoded.records.length).to.equal(capture.records.length);
+    decoded.records.forEach((r, i) => {
+      const orig = capture.records[i];
+      expect(r.kind).to.equal(orig.kind);
+      expect(r.t).to.equal(orig.t);
+      if (r.kind === 'frame' && orig.kind === 'frame') {
+        expect(r.frame.rms).to.be.closeTo(orig.frame.rms, 1e-6);
+        expect(r.frame.beat).to.equal(orig.frame.beat);
+        expect(r.frame.bandLevels).to.deep.equal(orig.frame.bandLevels);
+        expect(r.frame.tempo).to.deep.equal(orig.frame.tempo);
+        expect(r.frame.onsets).to.deep.equal(orig.frame.onsets);
+      } else {
+        expect(r).to.deep.equal(orig);
+      }
+    });
+  });
+
+  it('rejects foreign and truncated files', () => {
+    expect(() => decodeJsonl('{"format":"other"}\n')).to.throw(CaptureFormatError);
+    const bytes = encodeBinary(record());
+    expect(() => decodeBinary(bytes.slice(0, bytes.length - 3))).to.throw(CaptureFormatError);
+  });
+
+  it('replays records in order up to the requested time', () => {
+    const replay = new FrameReplaySource(record(), () => 0);
+    const seen: string[] = [];
+    replay.onFrame((f) => seen.push(`f${f.time.toFixed(3)}`));
+    replay.onDecision((d) => seen.push(`d:${d.effect}`));
+    let ended = false;
+    replay.onEnded(() => (ended = true));
+    replay.advanceTo(20);
+    expect(seen).to.deep.equal(['f0.000', 'f0.017']);
+    replay.advanceTo(100);
+    expect(seen.slice(2)).to.deep.equal(['f0.033', 'd:rift', 'f0.050']);
+    expect(ended).to.equal(true);
+    replay.seek(30);
+    seen.length = 0;
+    replay.advanceTo(40);
+    expect(seen).to.deep.equal(['f0.033', 'd:rift']);
+  });
+
+  it('keeps live engine frames away from the scene while a replay runs', () => {
+    const engineCbs = new Set<(f: AudioFeaturesFrame) => void>();
+    const frames = new FrameSwitch({ onFrame: (cb) => (engineCbs.add(cb), () => engineCbs.delete(cb)) });
+    const scene: number[] = [];
+    frames.onFrame((f) => scene.push(f.rms));
+    const live = (rms: number) => engineCbs.forEach((cb) => cb({ ...frame(0), rms }));
+
+    live(0.9);
+    const replay = new FrameReplaySource(record(), () => 0);
+    frames.startReplay(replay);
+    replay.advanceTo(20);
+    live(0.8); // the engine keeps ticking on live input or the test tone
+    replay.advanceTo(100);
+    expect(scene).to.deep.equal([0.9, 0.25, 0.26, 0.27, 0.28]);
+
+    frames.endReplay();
+    live(0.7);
+    replay.seek(0);
+    replay.advanceTo(100);
+    expect(scene.slice(5)).to.deep.equal([0.7]);
+  });
+});
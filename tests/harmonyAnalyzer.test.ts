@@ -0,0 +1,60 @@
+import { expect } from 'chai';
+import { estimateChord, HarmonyAnalyzer, keyName } from '../app/renderer/src/analysis/HarmonyAnalyzer';
+
+// Chroma for a set of pitch classes, with the first (the tonic/root) emphasised
+function chroma(notes: number[], tonicWeight = 2): number[] {
+  const c = new Array(12).fill(0.05);
+  notes.forEach((n, i) => (c[n % 12] += i === 0 ? tonicWeight : 1));
+  return c;
+}
+
+const C_MAJOR_TRIADS = [chroma([0, 4, 7]), chroma([5, 9, 0]), chroma([7, 11, 2]), chroma([0, 4, 7])];
+const A_MINOR_TRIADS = [chroma([9, 0, 4]), chroma([2, 5, 9]), chroma([4, 8, 11]), chroma([9, 0, 4])];
+
+// Plays a progression at 20 Hz, one chord per second, for `seconds`
+function play(h: HarmonyAnalyzer, chords: number[][], from: number, seconds: number) {
+  for (let i = 0; i < seconds * 20; i++) {
+    const t = from + i / 20;
+    h.update(chords[Math.floor(t) % chords.length], t, 0.2);
+  }
+}
+
+describe('HarmonyAnalyzer', () => {
+  it('finds the key of a major and a minor progression', () => {
+    const major = new HarmonyAnalyzer();
+    play(major, C_MAJOR_TRIADS, 0, 8);
+    const m = major.info()!;
+    expect(keyName(m.key, m.mode)).to.equal('C major');
+    expect(m.keyConfidence).to.be.greaterThan(0.3);
+
+    const minor = new HarmonyAnalyzer();
+    play(minor, A_MINOR_TRIADS, 0, 8);
+    const n = minor.info()!;
+    expect(keyName(n.key, n.mode)).to.equal('A minor');
+  });
+
+  it('names the current chord', () => {
+    expect(estimateChord(chroma([7, 11, 2]))).to.include({ root: 7, quality: 'major' });
+    expect(estimateChord(chroma([4, 7, 11]))).to.include({ root: 4, quality: 'minor' });
+    expect(estimateChord(new Array(12).fill(1)).confidence).to.be.closeTo(0, 1e-9);
+    const h = new HarmonyAnalyzer();
+    play(h, C_MAJOR_TRIADS, 0, 1.5);
+    expect(h.info()).to.include({ chordRoot: 5, chordQuality: 'major' });
+  });
+
+  it('only modulates after the new key has held', () => {
+    const h = new HarmonyAnalyzer({ holdSeconds: 3 });
+    play(h, C_MAJOR_TRIADS, 0, 8);
+    const G_MAJOR_TRIADS = C_MAJOR_TRIADS.map((c) => c.map((_, i) => c[(i + 5) % 12]));
+    play(h, G_MAJOR_TRIADS, 8, 2);
+    expect(h.info()!.key).to.equal(0);
+    play(h, G_MAJOR_TRIADS, 10, 20);
+    expect(keyName(h.info()!.key, h.info()!.mode)).to.equal('G major');
+  });
+
+  it('ignores silence', () => {
+    const h = new HarmonyAnalyzer();
+    h.update(chroma([0, 4, 7]), 0, 0.001);
+    expect(h.info()).to.equal(null);
+  });
+});
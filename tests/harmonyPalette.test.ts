@@ -0,0 +1,45 @@
+import { expect } from 'chai';
+import type { HarmonyInfo } from '../app/renderer/src/analysis/HarmonyAnalyzer';
+import { HarmonyPalette, harmonyTheme, keyHue } from '../app/renderer/src/three/harmonyPalette';
+import { PALETTE_THEMES } from '../app/renderer/src/three/themes';
+
+function harmony(patch: Partial<HarmonyInfo> = {}): HarmonyInfo {
+  return { key: 0, mode: 'major', keyConfidence: 0.6, chordRoot: 0, chordQuality: 'major', chordConfidence: 0.8, ...patch };
+}
+
+// Distance around the hue circle (0..0.5)
+function hueDistance(a: number, b: number): number {
+  const d = Math.abs(a - b) % 1;
+  return Math.min(d, 1 - d);
+}
+
+describe('harmonyPalette', () => {
+  it('walks the circle of fifths and renders minor keys cooler and darker', () => {
+    expect(keyHue(7)).to.be.closeTo(1 / 12, 1e-9); // G next to C
+    const major = harmonyTheme(harmony()).colors[0].getHSL({ h: 0, s: 0, l: 0 });
+    const minor = harmonyTheme(harmony({ mode: 'minor' })).colors[0].getHSL({ h: 0, s: 0, l: 0 });
+    expect(hueDistance(minor.h, 0.62)).to.be.lessThan(hueDistance(major.h, 0.62));
+    expect(minor.l).to.be.lessThan(major.l);
+    expect(minor.s).to.be.lessThan(major.s);
+  });
+
+  it('fades in the first key slowly, modulations longer and chord changes quickly', () => {
+    const palette = new HarmonyPalette();
+    expect(palette.update(harmony({ keyConfidence: 0.1 }))).to.equal(null);
+    expect(palette.update(harmony())!.transitionSeconds).to.equal(1.5);
+    expect(palette.update(harmony())).to.equal(null);
+    expect(palette.update(harmony({ chordRoot: 5, chordConfidence: 0.2 }))).to.equal(null); // too unsure to repaint
+    expect(palette.update(harmony({ chordRoot: 5 }))!.transitionSeconds).to.equal(0.8);
+    expect(palette.update(harmony({ key: 9, mode: 'minor' }))!.transitionSeconds).to.equal(2.5);
+  });
+
+  it('returns to the bare palette on reset and fades the next key in as the first', () => {
+    const palette = new HarmonyPalette();
+    palette.setBase(PALETTE_THEMES.viridis);
+    palette.update(harmony());
+    expect(palette.current()).to.not.equal(PALETTE_THEMES.viridis);
+    palette.reset();
+    expect(palette.current()).to.equal(PALETTE_THEMES.viridis);
+    expect(palette.update(harmony())!.transitionSeconds).to.equal(1.5);
+  });
+});
@@ -0,0 +1,55 @@
+import { expect } from 'chai';
+import * as THREE from 'three';
+import { InstancePool } from '../app/renderer/src/three/InstancePool';
+import { headlessCrystal, layerFrame } from './layerFixtures';
+
+function pool(capacity: number) {
+  return new InstancePool(new THREE.BoxGeometry(), new THREE.MeshBasicMaterial(), capacity, () => ({ id: 0 }));
+}
+
+describe('InstancePool', () => {
+  it('spawns into free slots up to its capacity', () => {
+    const p = pool(2);
+    expect([p.spawn(), p.spawn(), p.spawn()]).to.deep.equal([0, 1, -1]);
+    expect(p.count).to.equal(2);
+    expect(p.mesh.count).to.equal(2);
+    p.clear();
+    expect(p.spawn()).to.equal(0);
+  });
+
+  it('moves the last instance into an expired slot with its colour, opacity and state', () => {
+    const p = pool(4);
+    for (let id = 1; id <= 3; id++) {
+      const i = p.spawn();
+      p.state(i).id = id;
+      p.setColor(i, new THREE.Color(id / 10, 0, 0));
+      p.setOpacity(i, id / 10);
+    }
+    const visited: number[] = [];
+    p.update((s) => {
+      visited.push(s.id);
+      return s.id !== 1;
+    });
+    expect(visited).to.deep.equal([1, 3, 2]);
+    expect(p.count).to.equal(2);
+    expect(p.state(0).id).to.equal(3);
+    expect(p.mesh.instanceColor!.getX(0)).to.be.closeTo(0.3, 1e-6);
+    expect(p.mesh.geometry.getAttribute('instanceOpacity').getX(0)).to.be.closeTo(0.3, 1e-6);
+  });
+
+  it('keeps crystal effects to a fixed set of objects however often they fire', () => {
+    const crystal = headlessCrystal();
+    const objects = crystal.group!.children.slice();
+    for (let k = 0; k < 50; k++) {
+      crystal.emitResonance(undefined, 3);
+      crystal.emitPrism(undefined, 120);
+      crystal.emitRift(undefined, 900);
+      crystal.triggerSpikesFromAudio(1, 1, 1);
+    }
+    expect(crystal.group!.children).to.have.ordered.members(objects);
+    expect(crystal.isAnyEffectActive()).to.equal(true);
+    for (let k = 0; k < 60; k++) crystal.update(layerFrame({ time: k * 0.1, dt: 0.1, theme: crystal.getTheme() }));
+    expect(crystal.isAnyEffectActive()).to.equal(false);
+    crystal.dispose();
+  });
+});
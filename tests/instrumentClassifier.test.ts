@@ -0,0 +1,93 @@
+import { expect } from 'chai';
+import { FeatureSample, HeuristicClassifier, InstrumentClassifier, InstrumentTracker, silence } from '../app/renderer/src/analysis/InstrumentClassifier';
+import { instrumentActivations, parseTaggerManifest, taggerInput } from '../app/renderer/src/analysis/instrumentTagging';
+
+const sample = (time: number, over: Partial<FeatureSample> = {}): FeatureSample => ({ time, rms: 0.2, low: 0.1, mid: 0.1, high: 0.1, beat: false, ...over });
+const bassy = (time: number) => sample(time, { low: 0.6, mid: 0.2 });
+
+const noisyHigh = (time: number) => sample(time, { centroid: 6000, flatness: 0.8, chroma: new Array(12).fill(1) });
+
+describe('InstrumentClassifier', () => {
+  it('reports several instruments at once with confidences', () => {
+    const tracker = new InstrumentTracker(new HeuristicClassifier());
+    const active = tracker.update(sample(1, { low: 0.7, mid: 0.55, high: 0.2, onsets: { kick: 1, snare: 0, hat: 0 } }));
+    expect(active.map((a) => a.instrument)).to.have.members(['drums', 'bass', 'guitar']);
+    expect(active[0]).to.deep.equal({ instrument: 'drums', confidence: 1 });
+    expect(tracker.confidences().bass).to.be.within(0.5, 1);
+  });
+
+  it('uses timbre cues for the tonal classes', () => {
+    const heuristic = new HeuristicClassifier();
+    const chroma = [1, 0, 0, 0, 0.2, 0, 0, 0.3, 0, 0, 0, 0];
+    // Steady, dark, tonal: a pad
+    const pad = Array.from({ length: 30 }, (_, i) => sample(i / 30, { rms: 0.2, low: 0.2, mid: 0.3, centroid: 600, flatness: 0.05, chroma }));
+    const padOut = heuristic.classify(pad);
+    expect(padOut.pad).to.be.greaterThan(0.8);
+    expect(padOut.keys).to.equal(0);
+    // Bright, tonal and loud in the highs: brass
+    expect(heuristic.classify([sample(0, { high: 0.7, mid: 0.5, centroid: 2500, flatness: 0.1, chroma })]).brass).to.be.greaterThan(0.7);
+    // Noise scores none of the tonal classes
+    const noise = heuristic.classify([noisyHigh(0)]);
+    expect(noise.vocals + noise.keys + noise.strings + noise.brass).to.equal(0);
+  });
+
+  it('bridges sparse hits and holds instruments with hysteresis', () => {
+    const tracker = new InstrumentTracker(new HeuristicClassifier(), { holdSeconds: 2, decaySeconds: 1 });
+    const kick = (t: number) => sample(t, { onsets: { kick: 1, snare: 0, hat: 0 } });
+    tracker.update(kick(0));
+    // a hit every half second keeps drums on between hits
+    for (let i = 1; i < 30; i++) {
+      const active = tracker.update(i % 5 === 0 ? kick(i / 10) : sample(i / 10));
+      expect(active.map((a) => a.instrument)).to.include('drums');
+    }
+    // after the hits stop it decays below the off threshold and goes off
+    expect(tracker.update(sample(4.5)).map((a) => a.instrument)).to.not.include('drums');
+  });
+
+  it('keeps one request in flight for asynchronous classifiers', async () => {
+    let calls = 0;
+    const model: InstrumentClassifier = { kind: 'onnx', classify: async () => (calls++, { ...silence(), drums: 0.8, vocals: 0.7 }) };
+    const tracker = new InstrumentTracker(model);
+    expect(tracker.update(sample(1))).to.deep.equal([]);
+    tracker.update(sample(1.1));
+    expect(calls).to.equal(1);
+    await Promise.resolve();
+    expect(tracker.update(sample(1.2)).map((a) => a.instrument)).to.deep.equal(['drums', 'vocals']);
+    expect(calls).to.equal(2);
+  });
+
+  it('falls back to the heuristics when the model fails', async () => {
+    const warn = console.warn;
+    console.warn = () => {};
+    try {
+      const tracker = new InstrumentTracker({ kind: 'onnx', classify: () => Promise.reject(new Error('no model')) });
+      tracker.update(sample(1));
+      await Promise.resolve();
+      await Promise.resolve();
+      expect(tracker.getClassifier().kind).to.equal('heuristic');
+      expect(tracker.update(bassy(2)).map((a) => a.instrument)).to.deep.equal(['bass']);
+    } finally {
+      console.warn = warn;
+    }
+  });
+
+  it('builds tagger input at the model hop, newest frame last', () => {
+    const input = { frames: 3, hopSeconds: 0.5, features: 'bands' as const, size: 2 };
+    const window = [0, 0.25, 0.5, 0.75, 1].map((t) => sample(t, { bandLevels: [t, t, t] }));
+    expect(Array.from(taggerInput(window, input))).to.deep.equal([0, 0, 0.5, 0.5, 1, 1]);
+    // frames older than the window stay zero
+    expect(Array.from(taggerInput(window.slice(3), input))).to.deep.equal([0, 0, 0, 0, 1, 1]);
+  });
+
+  it('maps tagger labels onto instruments', () => {
+    const labels = ['Speech', 'Bass drum', 'Bass guitar', 'Electric guitar', 'Snare drum', 'Singing', 'Piano', 'Violin, fiddle', 'Trumpet', 'Synthesizer'];
+    const acts = instrumentActivations(labels, [0.9, 0.3, 0.6, 0.2, 0.7, 0.5, 0.4, 0.3, 0.2, 0.1]);
+    expect(acts).to.deep.equal({ drums: 0.7, bass: 0.6, guitar: 0.2, vocals: 0.5, keys: 0.4, strings: 0.3, brass: 0.2, pad: 0.1 });
+    expect(instrumentActivations(['Guitar', 'Drum'], [-2, 3]).drums).to.be.closeTo(1 / (1 + Math.exp(-3)), 1e-9);
+    expect(() => parseTaggerManifest({ model: 'm.onnx', input: { frames: 0 }, labels: [] })).to.throw();
+    expect(() => parseTaggerManifest(null)).to.throw();
+    expect(() => parseTaggerManifest({ model: 'm.onnx', input: 'bands', labels: [] })).to.throw();
+    const manifest = { model: 'm.onnx', input: { frames: 64, hopSeconds: 0.02, features: 'mfcc', size: 13 }, labels: ['Piano'] };
+    expect(parseTaggerManifest(JSON.parse(JSON.stringify(manifest)))).to.deep.equal(manifest);
+  });
+});
@@ -0,0 +1,32 @@
+import * as THREE from 'three';
+import { INSTRUMENTS } from '../app/renderer/src/analysis/InstrumentClassifier';
+import { CRYSTAL_THEMES, CrystalSphere } from '../app/renderer/src/three/CrystalSphere';
+import { ModulationMatrix } from '../app/renderer/src/three/modulation';
+import type { LayerFrame } from '../app/renderer/src/three/VisualLayer';
+
+// Quiet frame for driving layers directly in tests; the one place to follow LayerFrame changes
+export function layerFrame(patch: Partial<LayerFrame> = {}): LayerFrame {
+  const instruments = Object.fromEntries(INSTRUMENTS.map((i) => [i, 0])) as LayerFrame['instruments'];
+  return {
+    time: 0,
+    dt: 0,
+    rms: 0,
+    low: 0,
+    mid: 0,
+    high: 0,
+    beat: false,
+    tempo: null,
+    theme: CRYSTAL_THEMES[0],
+    instruments,
+    activeInstruments: [],
+    modulation: new ModulationMatrix(),
+    ...patch,
+  };
+}
+
+// A crystal initialised without a renderer, as the headless tests use it
+export function headlessCrystal(): CrystalSphere {
+  const crystal = new CrystalSphere(0.9, 1);
+  crystal.init({ root: new THREE.Group(), camera: new THREE.PerspectiveCamera(), renderer: null, width: 800, height: 600 });
+  return crystal;
+}
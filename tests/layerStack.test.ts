@@ -0,0 +1,95 @@
+import { expect } from 'chai';
+import * as THREE from 'three';
+import { LayerContext, LayerId, LayerStack, parseLayers, VisualLayer } from '../app/renderer/src/three/VisualLayer';
+
+// Records its lifecycle; owns one mesh while enabled
+class FakeLayer implements VisualLayer {
+  calls: string[] = [];
+  mesh: THREE.Object3D | null = null;
+  size = { width: 0, height: 0 };
+
+  constructor(readonly id: LayerId) {}
+
+  init(ctx: LayerContext) {
+    this.calls.push('init');
+    this.mesh = new THREE.Object3D();
+    ctx.root.add(this.mesh);
+    this.size = { width: ctx.width, height: ctx.height };
+  }
+
+  update() {
+    this.calls.push('update');
+  }
+
+  resize(ctx: LayerContext) {
+    this.size = { width: ctx.width, height: ctx.height };
+  }
+
+  dispose() {
+    this.calls.push('dispose');
+    this.mesh?.removeFromParent();
+    this.mesh = null;
+  }
+}
+
+function setup(ids: LayerId[]) {
+  const scene = new THREE.Scene();
+  const stack = new LayerStack(scene, new THREE.PerspectiveCamera(), null, 800, 600);
+  const layers = ids.map((id) => new FakeLayer(id));
+  for (const layer of layers) stack.add(layer);
+  return { scene, stack, layers };
+}
+
+const frame = {} as Parameters<LayerStack['update']>[0];
+
+describe('LayerStack', () => {
+  it('gives each enabled layer its own group, ordered back to front', () => {
+    const { scene, stack } = setup(['starfield', 'nebula', 'crystal']);
+    const groups = scene.children.filter((c) => c.name.startsWith('layer:'));
+    expect(groups.map((g) => g.name)).to.deep.equal(['layer:starfield', 'layer:nebula', 'layer:crystal']);
+    expect(groups.map((g) => g.renderOrder)).to.deep.equal([0, 1, 2]);
+    expect(() => stack.add(new FakeLayer('nebula'))).to.throw();
+  });
+
+  it('disposes disabled layers, skips them on update and re-initialises them when enabled', () => {
+    const { scene, stack, layers } = setup(['starfield', 'nebula']);
+    stack.setEnabled('starfield', false);
+    stack.update(frame);
+    expect(layers[0].calls).to.deep.equal(['init', 'dispose']);
+    expect(layers[1].calls).to.deep.equal(['init', 'update']);
+    expect(scene.getObjectByName('layer:starfield')).to.equal(undefined);
+
+    stack.setEnabled('starfield', true);
+    expect(layers[0].calls).to.deep.equal(['init', 'dispose', 'init']);
+    expect(stack.isEnabled('starfield')).to.equal(true);
+  });
+
+  it('configures exactly the listed layers in the listed order', () => {
+    const { scene, stack, layers } = setup(['starfield', 'aurora', 'nebula', 'crystal']);
+    stack.configure(['crystal', 'starfield']);
+    expect(stack.list()).to.deep.equal([
+      { id: 'crystal', enabled: true },
+      { id: 'starfield', enabled: true },
+      { id: 'aurora', enabled: false },
+      { id: 'nebula', enabled: false },
+    ]);
+    expect(scene.getObjectByName('layer:crystal')!.renderOrder).to.be.lessThan(scene.getObjectByName('layer:starfield')!.renderOrder);
+    expect(layers[1].mesh).to.equal(null);
+  });
+
+  it('passes the new size on resize and releases everything on dispose', () => {
+    const { scene, stack, layers } = setup(['aurora', 'figures']);
+    stack.resize(1024, 512);
+    expect(layers[1].size).to.deep.equal({ width: 1024, height: 512 });
+    stack.dispose();
+    expect(layers.every((l) => l.mesh === null)).to.equal(true);
+    expect(scene.children).to.have.length(0);
+    expect(stack.list()).to.deep.equal([]);
+  });
+
+  it('parses layer lists from preset files', () => {
+    expect(parseLayers(['nebula', 'crystal', 'nebula'])).to.deep.equal(['nebula', 'crystal']);
+    expect(parseLayers(['nebula', 'lasers'])).to.equal(null);
+    expect(parseLayers(undefined)).to.equal(null);
+  });
+});
@@ -0,0 +1,75 @@
+import { expect } from 'chai';
+import { midiDrumOnsets, midiEventsBetween, parseMidi, MidiFormatError } from '../app/renderer/src/audio/midiFile';
+
+const PPQ = 96;
+
+function vlq(n: number): number[] {
+  const out = [n & 0x7f];
+  while ((n >>= 7) > 0) out.unshift((n & 0x7f) | 0x80);
+  return out;
+}
+
+const ascii = (s: string) => Array.from(s, (c) => c.charCodeAt(0));
+const be = (n: number, bytes: number) => Array.from({ length: bytes }, (_, i) => (n >>> (8 * (bytes - 1 - i))) & 0xff);
+
+function track(events: number[]): number[] {
+  const body = [...events, 0, 0xff, 0x2f, 0];
+  return [...ascii('MTrk'), ...be(body.length, 4), ...body];
+}
+
+function smf(format: number, tracks: number[][]): Uint8Array {
+  return Uint8Array.from([...ascii('MThd'), ...be(6, 4), ...be(format, 2), ...be(tracks.length, 2), ...be(PPQ, 2), ...tracks.flat()]);
+}
+
+// Tempo track: 120 BPM, then 60 BPM from beat 2
+const tempoTrack = track([
+  0, 0xff, 0x51, 3, ...be(500000, 3),
+  ...vlq(PPQ * 2), 0xff, 0x51, 3, ...be(1000000, 3),
+]);
+
+// Melody: named track, running status, note-on velocity 0 as note-off
+const melodyTrack = track([
+  0, 0xff, 0x03, 4, ...ascii('Lead'),
+  0, 0x90, 60, 100,
+  ...vlq(PPQ), 60, 0, // running status, velocity 0 ends C4 after one beat
+  0, 64, 80,
+  ...vlq(PPQ * 2), 0x80, 64, 0, // crosses the tempo change
+]);
+
+const drumTrack = track([0, 0x99, 36, 127, 0, 42, 64, ...vlq(PPQ / 2), 0x89, 36, 0, 0, 0x89, 42, 0]);
+
+describe('midiFile', () => {
+  it('times notes through the tempo map', () => {
+    const song = parseMidi(smf(1, [tempoTrack, melodyTrack]));
+    expect(song.trackNames[1]).to.equal('Lead');
+    const [c4, e4] = song.notes;
+    expect(c4).to.include({ pitch: 60, velocity: 100, channel: 0, track: 1, start: 0 });
+    expect(c4.end).to.be.closeTo(0.5, 1e-9);
+    // one beat at 120 BPM (0.5 s) plus one at 60 BPM (1 s)
+    expect(e4.start).to.be.closeTo(0.5, 1e-9);
+    expect(e4.end).to.be.closeTo(2, 1e-9);
+    expect(song.duration).to.be.closeTo(2, 1e-9);
+  });
+
+  it('schedules note-on/off events by playback time', () => {
+    const song = parseMidi(smf(1, [tempoTrack, melodyTrack]));
+    expect(midiEventsBetween(song, -1, 0).map((e) => `${e.type}${e.pitch}`)).to.deep.equal(['on60']);
+    // offs come before ons at the same instant
+    expect(midiEventsBetween(song, 0.4, 0.5).map((e) => `${e.type}${e.pitch}`)).to.deep.equal(['off60', 'on64']);
+    expect(midiEventsBetween(song, 0.5, 1.9)).to.have.length(0);
+    expect(midiEventsBetween(song, 1.9, 2)[0]).to.include({ type: 'off', pitch: 64, velocity: 80 });
+  });
+
+  it('maps the GM drum channel to drum onsets', () => {
+    const song = parseMidi(smf(0, [drumTrack]));
+    const onsets = midiDrumOnsets(midiEventsBetween(song, -1, 0.1))!;
+    expect(onsets.kick).to.equal(1);
+    expect(onsets.hat).to.be.closeTo(64 / 127, 1e-9);
+    expect(onsets.snare).to.equal(0);
+    expect(midiDrumOnsets(midiEventsBetween(song, 0.1, 1))).to.equal(null);
+  });
+
+  it('rejects files that are not MIDI', () => {
+    expect(() => parseMidi(Uint8Array.from(ascii('RIFF0000')))).to.throw(MidiFormatError);
+  });
+});
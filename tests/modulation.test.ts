@@ -0,0 +1,90 @@
+import { expect } from 'chai';
+import * as THREE from 'three';
+import { INSTRUMENTS } from '../app/renderer/src/analysis/InstrumentClassifier';
+import { AuroraLayer } from '../app/renderer/src/three/AuroraLayer';
+import { CrystalSphere } from '../app/renderer/src/three/CrystalSphere';
+import { ModRoute, ModulationInput, ModulationMatrix, parseRoutes } from '../app/renderer/src/three/modulation';
+import { NebulaOverlay } from '../app/renderer/src/three/NebulaOverlay';
+import { ParticleFigures } from '../app/renderer/src/three/ParticleFigures';
+import { Starfield } from '../app/renderer/src/three/Starfield';
+import { LayerStack } from '../app/renderer/src/three/VisualLayer';
+import { PRESETS } from '../app/renderer/src/ui/presets';
+
+const TARGETS = [
+  { id: 'nebula.alpha', label: 'Alpha', base: 0.2, min: 0, max: 0.6 },
+  { id: 'crystal.hue', label: 'Hue', base: 0, min: -1, max: 1 },
+];
+
+function input(patch: Partial<ModulationInput> = {}): ModulationInput {
+  const instruments = Object.fromEntries(INSTRUMENTS.map((i) => [i, 0])) as ModulationInput['instruments'];
+  return { time: 0, dt: 1 / 60, rms: 0, low: 0, mid: 0, high: 0, beat: false, tempo: null, instruments, ...patch };
+}
+
+function route(patch: Partial<ModRoute>): ModRoute {
+  return { source: 'rms', target: 'nebula.alpha', amount: 1, curve: 'linear', smoothing: 0, range: [0, 1], ...patch };
+}
+
+function matrix(routes: ModRoute[]) {
+  const m = new ModulationMatrix();
+  m.setTargets(TARGETS);
+  m.setRoutes(routes);
+  return m;
+}
+
+describe('ModulationMatrix', () => {
+  it('adds shaped, ranged routes to the target base and clamps to its limits', () => {
+    const m = matrix([
+      route({ curve: 'exp', range: [0, 0.4] }),
+      route({ source: 'high', amount: -0.5, range: [0, 0.2] }),
+      route({ target: 'figures.size' }), // no layer declares it
+    ]);
+    m.update(input({ rms: 0.5, high: 1 }));
+    expect(m.get('nebula.alpha')).to.be.closeTo(0.2 + 0.25 * 0.4 - 0.1, 1e-9);
+    expect(m.get('figures.size')).to.equal(0);
+    m.update(input({ rms: 1 }));
+    expect(m.get('nebula.alpha')).to.equal(0.6);
+  });
+
+  it('smooths each route with its own time constant', () => {
+    const m = matrix([route({ target: 'crystal.hue', smoothing: 0.5 })]);
+    m.update(input({ rms: 1, dt: 0.5 }));
+    expect(m.get('crystal.hue')).to.be.closeTo(1 - Math.exp(-1), 1e-9);
+  });
+
+  it('keeps smoothing state across edits that leave source, target and curve alone', () => {
+    const m = matrix([route({ target: 'crystal.hue', smoothing: 0.5 }), route({ source: 'high', target: 'crystal.hue', smoothing: 0.5 })]);
+    m.update(input({ rms: 1, high: 1, dt: 0.5 }));
+    m.setRoutes([route({ target: 'crystal.hue', smoothing: 0.5, amount: 0.5 }), route({ source: 'mid', target: 'crystal.hue', smoothing: 0.5 })]);
+    m.update(input({ rms: 1, dt: 0 }));
+    expect(m.get('crystal.hue')).to.be.closeTo(0.5 * (1 - Math.exp(-1)), 1e-9);
+  });
+
+  it('turns drum hits into decaying sources and offers instruments, tempo and LFOs', () => {
+    const m = matrix([]);
+    m.hit({ kick: 0.8, snare: 0, hat: 0 });
+    m.update(input({ dt: 0.1, time: 5, tempo: { bpm: 120, confidence: 1, phase: 0.25, beatInBar: 0, barPhase: 0.1 }, instruments: { ...input().instruments, bass: 0.7 } }));
+    expect(m.source('kick')).to.equal(0.8);
+    expect(m.source('tempoPhase')).to.equal(0.25);
+    expect(m.source('instrument.bass')).to.equal(0.7);
+    expect(m.source('lfo.slow')).to.be.closeTo(0.5 + 0.5 * Math.sin(2 * Math.PI * 0.05 * 5), 1e-9);
+    m.update(input({ dt: 0.1 }));
+    expect(m.source('kick')).to.be.within(0.1, 0.8);
+  });
+
+  it('parses routes from preset JSON, rejecting malformed ones', () => {
+    const routes = [route({ source: 'lfo.fast', curve: 'smooth', range: [-0.1, 0.1] })];
+    expect(parseRoutes(JSON.parse(JSON.stringify(routes)))).to.deep.equal(routes);
+    expect(parseRoutes(undefined)).to.equal(null);
+    expect(parseRoutes([{ ...routes[0], source: 'loudness' }])).to.equal(null);
+    expect(parseRoutes([{ ...routes[0], smoothing: -1 }])).to.equal(null);
+    expect(parseRoutes([{ ...routes[0], range: [0] }])).to.equal(null);
+  });
+
+  it('only routes presets to targets the layers declare', () => {
+    const stack = new LayerStack(new THREE.Scene(), new THREE.PerspectiveCamera(), null, 800, 600);
+    for (const layer of [new Starfield(), new AuroraLayer(), new NebulaOverlay(), new CrystalSphere(0.9, 1), new ParticleFigures()]) stack.add(layer, false);
+    const ids = stack.targets().map((t) => t.id);
+    expect(ids).to.include.members(['nebula.alpha', 'crystal.bloom', 'crystal.rotation', 'crystal.hue', 'figures.size']);
+    for (const preset of PRESETS) for (const r of preset.routes) expect(ids, preset.id).to.include(r.target);
+  });
+});
@@ -0,0 +1,56 @@
+import { expect } from 'chai';
+import { analyzeSamples, frameAtTime, hasBeatBetween } from '../app/renderer/src/analysis/OfflineAnalyzer';
+
+// Quiet noise bed with short loud clicks every `interval` seconds
+function clickTrack(sampleRate: number, seconds: number, interval: number): Float32Array {
+  const out = new Float32Array(Math.floor(sampleRate * seconds));
+  let seed = 1;
+  const rand = () => ((seed = (seed * 16807) % 2147483647) / 2147483647) * 2 - 1;
+  for (let i = 0; i < out.length; i++) out[i] = rand() * 0.01;
+  for (let t = interval; t < seconds; t += interval) {
+    const start = Math.floor(t * sampleRate);
+    for (let i = 0; i < 400 && start + i < out.length; i++) out[start + i] += 0.8 * Math.exp(-i / 80) * rand();
+  }
+  return out;
+}
+
+describe('OfflineAnalyzer', () => {
+  const sampleRate = 22050;
+  const samples = clickTrack(sampleRate, 4, 0.5);
+
+  it('produces a hop-indexed timeline with stats', async () => {
+    const tl = await analyzeSamples(samples, sampleRate);
+    expect(tl.frames.length).to.equal(Math.ceil(samples.length / tl.hopSize));
+    expect(tl.frames[10].time).to.be.closeTo(10 * tl.hopSeconds, 1e-9);
+    expect(tl.stats.duration).to.be.closeTo(4, 1e-6);
+    expect(tl.stats.peakRms).to.be.greaterThan(tl.stats.meanRms);
+    expect(tl.stats.peakSample).to.be.greaterThan(0.3);
+  });
+
+  it('finds beats near the clicks', async () => {
+    const tl = await analyzeSamples(samples, sampleRate);
+    expect(tl.stats.beats.length).to.be.within(5, 8);
+    for (const b of tl.stats.beats) {
+      const nearest = Math.round(b / 0.5) * 0.5;
+      expect(Math.abs(b - nearest)).to.be.lessThan(0.06);
+    }
+    const first = tl.stats.beats[0];
+    expect(hasBeatBetween(tl, first - 0.05, first)).to.equal(true);
+    expect(hasBeatBetween(tl, first, first + 0.05)).to.equal(false);
+  });
+
+  it('estimates the tempo of the click track', async () => {
+    const tl = await analyzeSamples(clickTrack(sampleRate, 10, 0.5), sampleRate);
+    expect(tl.stats.bpm).to.be.closeTo(120, 3);
+    const last = tl.frames[tl.frames.length - 1];
+    expect(last.tempo?.confidence).to.be.greaterThan(0.5);
+  });
+
+  it('is deterministic and clamps lookups to the timeline', async () => {
+    const a = await analyzeSamples(samples, sampleRate);
+    const b = await analyzeSamples(samples, sampleRate);
+    expect(JSON.stringify(a.frames)).to.equal(JSON.stringify(b.frames));
+    expect(frameAtTime(a, -1)).to.equal(a.frames[0]);
+    expect(frameAtTime(a, 99)).to.equal(a.frames[a.frames.length - 1]);
+  });
+});
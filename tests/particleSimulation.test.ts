@@ -0,0 +1,75 @@
+import { expect } from 'chai';
+import * as THREE from 'three';
+import {
+  packPositions,
+  particleBudget,
+  particleReferences,
+  ParticleSimulation,
+  simulationDataType,
+  simulationSize,
+} from '../app/renderer/src/three/ParticleSimulation';
+
+// A WebGL2 renderer when the runner has a DOM with GPU access (Electron, a browser); null under plain node
+function webglRenderer(): THREE.WebGLRenderer | null {
+  if (typeof document === 'undefined') return null;
+  const canvas = document.createElement('canvas');
+  const context = canvas.getContext('webgl2');
+  return context ? new THREE.WebGLRenderer({ canvas, context }) : null;
+}
+
+function gpu(maxVertexTextures: number, extensions: string[]) {
+  return { capabilities: { maxVertexTextures }, extensions: { has: (name: string) => extensions.includes(name) } };
+}
+
+describe('ParticleSimulation', () => {
+  it('prefers float render targets, falls back to half float, and gives up without either', () => {
+    expect(simulationDataType(gpu(16, ['EXT_color_buffer_float', 'EXT_color_buffer_half_float']))).to.equal(THREE.FloatType);
+    expect(simulationDataType(gpu(16, ['EXT_color_buffer_half_float']))).to.equal(THREE.HalfFloatType);
+    expect(simulationDataType(gpu(16, []))).to.equal(null);
+    expect(simulationDataType(gpu(0, ['EXT_color_buffer_float']))).to.equal(null);
+  });
+
+  it('sizes square state textures to hold every particle', () => {
+    expect(simulationSize(1 << 20)).to.equal(1024);
+    expect(simulationSize(2500)).to.equal(50);
+    expect(simulationSize(2501)).to.equal(51);
+    expect(simulationSize(0)).to.equal(1);
+  });
+
+  it('packs xyz triples into texels and clears the unused tail', () => {
+    const out = new Float32Array(2 * 2 * 4).fill(9);
+    packPositions(Float32Array.from([1, 2, 3, 4, 5, 6, 7, 8, 9]), 2, out, Float32Array.from([0.1, 0.2, 0.3]));
+    expect(Array.from(out.subarray(0, 12)).map((x) => +x.toFixed(3))).to.deep.equal([1, 2, 3, 0.1, 4, 5, 6, 0.2, 7, 8, 9, 0.3]);
+    expect(Array.from(out.subarray(12))).to.deep.equal([0, 0, 0, 0]);
+    expect(Array.from(packPositions(Float32Array.from([1, 2, 3]), 1))).to.deep.equal([1, 2, 3, 1]);
+  });
+
+  it('points each particle at the centre of its own texel', () => {
+    // Row-major like packPositions: particle i sits at texel (i % size, i / size)
+    expect(Array.from(particleReferences(3, 2))).to.deep.equal([0.25, 0.25, 0.75, 0.25, 0.25, 0.75]);
+  });
+
+  it('simulates fewer particles on software rasterisers', () => {
+    expect(particleBudget('ANGLE (Google, Vulkan 1.3.0 (SwiftShader Device (Subzero)), SwiftShader driver)')).to.equal(1 << 16);
+    expect(particleBudget('llvmpipe (LLVM 15.0.7, 256 bits)')).to.equal(1 << 16);
+    expect(particleBudget('ANGLE (NVIDIA, NVIDIA GeForce RTX 3060 Direct3D11 vs_5_0 ps_5_0, D3D11)')).to.equal(1 << 20);
+  });
+
+  it('steps on the GPU and reads a particle back', function () {
+    const renderer = webglRenderer();
+    const type = renderer && simulationDataType(renderer);
+    if (!renderer || type == null) this.skip();
+    const sim = new ParticleSimulation(renderer!, 1, type!, Float32Array.from([0, 0, 0]), Float32Array.from([0.5]));
+    sim.setTargets(Float32Array.from([1, 0, 0]));
+    const params = { dt: 0.1, time: 0, attraction: 6, damping: 0, turbulence: 0, low: 0, mid: 0, high: 0, pulse: 0 };
+    // Position integrates the previous step's velocity, so the spring shows up on the second step
+    sim.step(params);
+    sim.step(params);
+    const [x, y, z, seed] = sim.readPosition(0);
+    expect(x).to.be.closeTo(0.06, 1e-3);
+    expect([y, z]).to.deep.equal([0, 0]);
+    expect(seed).to.equal(0.5);
+    sim.dispose();
+    renderer!.dispose();
+  });
+});
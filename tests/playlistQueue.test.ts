@@ -0,0 +1,79 @@
+import { expect } from 'chai';
+import { PlaylistQueue } from '../app/renderer/src/audio/PlaylistQueue';
+
+const files = (...names: string[]) => names.map((n) => new File([], n));
+
+// Deterministic PRNG so shuffle order is reproducible
+function seeded(seed: number) {
+  return () => ((seed = (seed * 16807) % 2147483647) / 2147483647);
+}
+
+describe('PlaylistQueue', () => {
+  it('walks tracks in order and stops at the end without repeat', () => {
+    const q = new PlaylistQueue();
+    const [a, b] = q.add(files('a', 'b'));
+    expect(q.peekNext()?.id).to.equal(a.id);
+    q.setCurrent(a.id);
+    expect(q.peekNext()?.id).to.equal(b.id);
+    q.setCurrent(b.id);
+    expect(q.peekNext()).to.equal(null);
+    q.setRepeat('all');
+    expect(q.peekNext()?.id).to.equal(a.id);
+    q.setRepeat('one');
+    expect(q.peekNext()?.id).to.equal(b.id);
+  });
+
+  it('reorders and removes items', () => {
+    const q = new PlaylistQueue();
+    const [a, b, c] = q.add(files('a', 'b', 'c'));
+    q.move(c.id, 0);
+    expect(q.getItems().map((i) => i.name)).to.deep.equal(['c', 'a', 'b']);
+    q.setCurrent(a.id);
+    q.remove(b.id);
+    expect(q.peekNext()).to.equal(null);
+    q.remove(a.id);
+    expect(q.getCurrent()).to.equal(null);
+    expect(q.peekNext()?.id).to.equal(c.id);
+  });
+
+  it('shuffles every track exactly once with the current track first', () => {
+    const q = new PlaylistQueue(seeded(7));
+    const items = q.add(files('a', 'b', 'c', 'd', 'e'));
+    q.setCurrent(items[2].id);
+    q.setShuffle(true);
+    const seen = [items[2].id];
+    for (let i = 0; i < items.length - 1; i++) {
+      const next = q.peekNext()!;
+      seen.push(next.id);
+      q.setCurrent(next.id);
+    }
+    expect(q.peekNext()).to.equal(null);
+    expect([...seen].sort()).to.deep.equal(items.map((i) => i.id).sort());
+  });
+
+  it('notifies listeners on change', () => {
+    const q = new PlaylistQueue();
+    let calls = 0;
+    const off = q.onChange(() => calls++);
+    q.add(files('a'));
+    q.setRepeat('all');
+    off();
+    q.clear();
+    expect(calls).to.equal(2);
+  });
+
+  it('reports when an edit changes the next track, such as removing it during a crossfade', () => {
+    const q = new PlaylistQueue();
+    const [a, b, c] = q.add(files('a', 'b', 'c'));
+    q.setCurrent(a.id);
+    const seen: (string | null)[] = [];
+    q.onNextChange((next) => seen.push(next?.name ?? null));
+    q.move(c.id, 2); // same order, same next: no event
+    q.remove(b.id);
+    q.setRepeat('one');
+    q.remove(c.id);
+    expect(seen).to.deep.equal(['c', 'a']);
+    q.setRepeat('off');
+    expect(seen).to.deep.equal(['c', 'a', null]);
+  });
+});
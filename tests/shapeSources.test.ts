@@ -0,0 +1,90 @@
+import { expect } from 'chai';
+import * as THREE from 'three';
+import { INSTRUMENTS } from '../app/renderer/src/analysis/InstrumentClassifier';
+import { BUILTIN_SHAPES, ShapeLibrary } from '../app/renderer/src/three/instrumentShapes';
+import { geometrySource, maskSource, ShapeFormatError, ShapeSource, sphereSource } from '../app/renderer/src/three/shapeSources';
+
+function sample(source: ShapeSource, count: number): Float32Array {
+  const out = new Float32Array(count * 3);
+  source.sample(out, 0, count);
+  return out;
+}
+
+// Per-axis [min, max] of sampled points
+function bounds(points: Float32Array): [number, number][] {
+  const b: [number, number][] = [[Infinity, -Infinity], [Infinity, -Infinity], [Infinity, -Infinity]];
+  for (let i = 0; i < points.length; i++) {
+    const axis = b[i % 3];
+    axis[0] = Math.min(axis[0], points[i]);
+    axis[1] = Math.max(axis[1], points[i]);
+  }
+  return b;
+}
+
+// RGBA image from rows of '#' (ink) and '.' (empty)
+function image(rows: string[], transparent: boolean) {
+  const width = rows[0].length;
+  const data = new Uint8ClampedArray(width * rows.length * 4);
+  rows.join('').split('').forEach((c, i) => {
+    const ink = c === '#';
+    data.set(transparent ? [0, 0, 0, ink ? 255 : 0] : ink ? [0, 0, 0, 255] : [255, 255, 255, 255], i * 4);
+  });
+  return { width, height: rows.length, data };
+}
+
+describe('shapeSources', () => {
+  it('centres meshes and scales their largest side to the requested size', () => {
+    const source = geometrySource('box', new THREE.BoxGeometry(4, 2, 2).translate(5, 5, 0), { size: 2 });
+    const [x, y, z] = bounds(sample(source, 2000));
+    expect(x[0]).to.be.closeTo(-1, 0.01);
+    expect(x[1]).to.be.closeTo(1, 0.01);
+    expect(y[1]).to.be.closeTo(0.5, 0.01);
+    expect(z[0]).to.be.closeTo(-0.5, 0.01);
+  });
+
+  it('writes only the requested particle range', () => {
+    const out = new Float32Array(30).fill(7);
+    sphereSource('ball', 1).sample(out, 2, 5);
+    expect(Array.from(out.subarray(0, 6))).to.deep.equal([7, 7, 7, 7, 7, 7]);
+    expect(Array.from(out.subarray(15))).to.deep.equal(new Array(15).fill(7));
+    for (let i = 2; i < 5; i++) expect(Math.hypot(out[i * 3], out[i * 3 + 1], out[i * 3 + 2])).to.be.closeTo(1, 0.01);
+  });
+
+  it('samples inside raster silhouettes by alpha, or by ink on opaque images', () => {
+    const rows = ['##......', '##......', '##......', '##......'];
+    for (const transparent of [true, false]) {
+      const [x, y, z] = bounds(sample(maskSource('bar', image(rows, transparent), { size: 2, depth: 0 }), 1000));
+      // The 2x4 silhouette is cropped from its margins: 1 wide, 2 tall after scaling
+      expect(x[0]).to.be.closeTo(-0.5, 0.02);
+      expect(x[1]).to.be.closeTo(0.5, 0.02);
+      expect(y[0]).to.be.closeTo(-1, 0.02);
+      expect(y[1]).to.be.closeTo(1, 0.02);
+      expect(z[1] - z[0]).to.be.lessThan(0.01);
+    }
+    expect(() => maskSource('blank', image(['....'], true))).to.throw(ShapeFormatError);
+  });
+
+  it('has a built-in figure of the default size for every instrument', () => {
+    for (const instrument of INSTRUMENTS) {
+      const points = sample(BUILTIN_SHAPES[instrument](), 5000);
+      expect(points.every(Number.isFinite), instrument).to.equal(true);
+      const largest = Math.max(...bounds(points).map(([lo, hi]) => hi - lo));
+      expect(largest, instrument).to.be.within(2.0, 2.3);
+    }
+  });
+
+  it('prefers custom shapes and reports changes', () => {
+    const library = new ShapeLibrary();
+    const changes: string[] = [];
+    library.onChange((i) => changes.push(i));
+    const builtin = library.get('guitar');
+    const custom = sphereSource('mine', 0.5);
+    library.setCustom('guitar', custom);
+    expect(library.get('guitar')).to.equal(custom);
+    expect(library.isCustom('guitar')).to.equal(true);
+    library.setCustom('guitar', null);
+    library.setCustom('bass', null); // nothing to reset
+    expect(library.get('guitar')).to.equal(builtin);
+    expect(changes).to.deep.equal(['guitar', 'guitar']);
+  });
+});
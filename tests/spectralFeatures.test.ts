@@ -0,0 +1,46 @@
+import { expect } from 'chai';
+import { SpectralExtractor } from '../app/renderer/src/analysis/spectralFeatures';
+
+function sine(freq: number, sampleRate: number, n: number, amp = 0.5): Float32Array {
+  const out = new Float32Array(n);
+  for (let i = 0; i < n; i++) out[i] = amp * Math.sin((2 * Math.PI * freq * i) / sampleRate);
+  return out;
+}
+
+describe('SpectralExtractor', () => {
+  const sampleRate = 48000;
+
+  it('tracks the frequency of a pure tone with the spectral centroid', () => {
+    const ex = new SpectralExtractor(1024, sampleRate);
+    const low = ex.extract(sine(440, sampleRate, 1024), 0);
+    ex.reset();
+    const high = ex.extract(sine(3000, sampleRate, 1024), 0);
+    expect(low.centroid).to.be.closeTo(440, 120);
+    expect(high.centroid).to.be.closeTo(3000, 200);
+    expect(high.centroid).to.be.greaterThan(low.centroid);
+  });
+
+  it('reports A as the strongest chroma bin for a 440 Hz tone', () => {
+    const ex = new SpectralExtractor(1024, sampleRate);
+    const f = ex.extract(sine(440, sampleRate, 1024), 0);
+    expect(f.chroma).to.have.length(12);
+    expect(f.chroma.indexOf(Math.max(...f.chroma))).to.equal(9);
+  });
+
+  it('keeps chroma filter banks apart for different sample rates', () => {
+    new SpectralExtractor(1024, sampleRate).extract(sine(440, sampleRate, 1024), 0);
+    const f = new SpectralExtractor(1024, 11025).extract(sine(440, 11025, 1024), 0);
+    expect(f.chroma.indexOf(Math.max(...f.chroma))).to.equal(9);
+  });
+
+  it('returns finite values for silence and zero flux for a repeated frame', () => {
+    const ex = new SpectralExtractor(1024, sampleRate);
+    const silent = ex.extract(new Float32Array(1024), 0);
+    for (const v of [silent.rms, silent.centroid, silent.rolloff, silent.flatness, silent.flux]) {
+      expect(Number.isFinite(v)).to.equal(true);
+    }
+    const tone = sine(440, sampleRate, 1024);
+    ex.extract(tone, 0);
+    expect(ex.extract(tone, 0.01).flux).to.equal(0);
+  });
+});
@@ -0,0 +1,50 @@
+import { expect } from 'chai';
+import { BandModel } from '../app/renderer/src/analysis/BandModel';
+import { computeStereoField, dominantPan } from '../app/renderer/src/analysis/stereoField';
+
+const n = 1024;
+const bands = new BandModel({ scale: 'log', count: 8 }, n / 2, 44100);
+
+function sine(freq: number, amp: number, phase = 0): Float32Array {
+  const out = new Float32Array(n);
+  for (let i = 0; i < n; i++) out[i] = amp * Math.sin((2 * Math.PI * freq * i) / 44100 + phase);
+  return out;
+}
+
+function flatSpectrum(level: number): Uint8Array {
+  return new Uint8Array(n / 2).fill(level);
+}
+
+describe('stereoField', () => {
+  it('reads a mono signal as centred, fully correlated and narrow', () => {
+    const s = sine(440, 0.5);
+    const st = computeStereoField(s, s, flatSpectrum(200), flatSpectrum(200), bands);
+    expect(st.left).to.be.closeTo(st.right, 1e-9);
+    expect(st.balance).to.be.closeTo(0, 1e-9);
+    expect(st.correlation).to.be.closeTo(1, 1e-9);
+    expect(st.width).to.be.closeTo(0, 1e-6);
+    for (const p of st.bandPan) expect(p).to.be.closeTo(0, 1e-9);
+  });
+
+  it('reads out-of-phase channels as anti-correlated and wide', () => {
+    const st = computeStereoField(sine(440, 0.5), sine(440, 0.5, Math.PI), flatSpectrum(200), flatSpectrum(200), bands);
+    expect(st.correlation).to.be.closeTo(-1, 1e-6);
+    expect(st.width).to.be.closeTo(1, 1e-6);
+  });
+
+  it('pans a source that is only in the left channel hard left', () => {
+    const silence = new Float32Array(n);
+    const st = computeStereoField(sine(440, 0.5), silence, flatSpectrum(220), flatSpectrum(0), bands);
+    expect(st.balance).to.equal(-1);
+    for (const p of st.bandPan) expect(p).to.be.lessThan(-0.99);
+    expect(dominantPan(st, new Array(8).fill(0.8))).to.be.lessThan(-0.99);
+  });
+
+  it('stays neutral on silence', () => {
+    const silence = new Float32Array(n);
+    const st = computeStereoField(silence, silence, flatSpectrum(0), flatSpectrum(0), bands);
+    expect(st.balance).to.equal(0);
+    expect(st.width).to.equal(0);
+    expect(st.bandPan.every((p) => p === 0)).to.equal(true);
+  });
+});
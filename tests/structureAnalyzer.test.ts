@@ -0,0 +1,68 @@
+import { expect } from 'chai';
+import { analyzeStructure, sectionAt } from '../app/renderer/src/analysis/StructureAnalyzer';
+import type { AudioFeaturesFrame } from '../app/renderer/src/audio/AudioEngine';
+
+const HOP = 0.05;
+
+type Part = { seconds: number; rms: number | ((progress: number) => number); chord: number[]; timbre: number };
+
+// Frames for a sequence of parts, each with its own harmony, timbre and level (with a little jitter)
+function song(parts: Part[]): AudioFeaturesFrame[] {
+  const frames: AudioFeaturesFrame[] = [];
+  let seed = 1;
+  const noise = () => ((seed = (seed * 16807) % 2147483647) / 2147483647 - 0.5) * 0.05;
+  for (const part of parts) {
+    const count = Math.round(part.seconds / HOP);
+    for (let i = 0; i < count; i++) {
+      const rms = typeof part.rms === 'number' ? part.rms : part.rms(i / count);
+      const chroma = new Array(12).fill(0.1).map((v, k) => (part.chord.includes(k) ? 1 : v) + noise());
+      const mfcc = new Array(13).fill(0).map((_, k) => Math.sin(k * part.timbre) * 5 + noise());
+      frames.push({
+        time: frames.length * HOP,
+        rms,
+        bands: { low: rms, mid: rms * 0.6, high: rms * 0.3 },
+        beat: false,
+        spectral: { time: frames.length * HOP, rms, centroid: 0, rolloff: 0, flatness: 0, flux: 0, mfcc, chroma },
+      });
+    }
+  }
+  return frames;
+}
+
+describe('StructureAnalyzer', () => {
+  it('finds boundaries where harmony and timbre change', () => {
+    const frames = song([
+      { seconds: 30, rms: 0.1, chord: [0, 4, 7], timbre: 0.3 },
+      { seconds: 30, rms: 0.4, chord: [5, 9, 0], timbre: 1.1 },
+      { seconds: 30, rms: 0.1, chord: [0, 4, 7], timbre: 0.3 },
+    ]);
+    const { sections } = analyzeStructure(frames, HOP);
+    expect(sections).to.have.length(3);
+    expect(sections[1].start).to.be.closeTo(30, 1);
+    expect(sections[2].start).to.be.closeTo(60, 1);
+    expect(sections.map((s) => s.label)).to.deep.equal(['intro', 'drop', 'outro']);
+  });
+
+  it('labels a rising section before a loud one as a build-up', () => {
+    const frames = song([
+      { seconds: 24, rms: 0.15, chord: [9, 0, 4], timbre: 0.5 },
+      { seconds: 16, rms: (p) => 0.1 + p * 0.25, chord: [2, 5, 9], timbre: 1.7 },
+      { seconds: 24, rms: 0.45, chord: [7, 11, 2], timbre: 2.6 },
+      { seconds: 24, rms: 0.15, chord: [9, 0, 4], timbre: 0.5 },
+    ]);
+    const labels = analyzeStructure(frames, HOP).sections.map((s) => s.label);
+    expect(labels).to.deep.equal(['intro', 'buildup', 'drop', 'outro']);
+  });
+
+  it('snaps boundaries to nearby beats and looks sections up by time', () => {
+    const frames = song([
+      { seconds: 20, rms: 0.2, chord: [0, 4, 7], timbre: 0.3 },
+      { seconds: 20, rms: 0.2, chord: [2, 6, 9], timbre: 1.4 },
+    ]);
+    const structure = analyzeStructure(frames, HOP, { beats: [19.6, 20.6] });
+    expect(structure.sections[1].start).to.equal(19.6);
+    expect(sectionAt(structure, 5)?.index).to.equal(0);
+    expect(sectionAt(structure, 25)?.index).to.equal(1);
+    expect(sectionAt(structure, 999)?.index).to.equal(1);
+  });
+});
@@ -0,0 +1,62 @@
+import { expect } from 'chai';
+import { TempoTracker } from '../app/renderer/src/analysis/TempoTracker';
+
+// Feed an onset pulse every 60/bpm seconds at `rate` updates per second; returns times of emitted beats
+function run(tracker: TempoTracker, bpm: number, from: number, to: number, rate = 60, pulses = true): number[] {
+  const period = 60 / bpm;
+  const beats: number[] = [];
+  let seed = 7;
+  const rand = () => (seed = (seed * 16807) % 2147483647) / 2147483647;
+  for (let i = Math.ceil(from * rate); i < to * rate; i++) {
+    const t = i / rate;
+    const sinceBeat = t % period;
+    const onset = pulses && sinceBeat < 1 / rate ? 1 : rand() * 0.02;
+    if (tracker.update(t, onset).beat) beats.push(t);
+  }
+  return beats;
+}
+
+describe('TempoTracker', () => {
+  it('locks onto a steady pulse train', () => {
+    const tracker = new TempoTracker();
+    run(tracker, 120, 0, 10);
+    const info = tracker.info(10);
+    expect(info.bpm).to.be.closeTo(120, 2);
+    expect(info.confidence).to.be.greaterThan(0.5);
+  });
+
+  it('predicts beats on the pulses', () => {
+    const tracker = new TempoTracker();
+    run(tracker, 100, 0, 8);
+    const beats = run(tracker, 100, 8, 14);
+    expect(beats.length).to.be.within(9, 11);
+    for (const b of beats) {
+      const err = Math.abs(b - Math.round(b / 0.6) * 0.6);
+      expect(err).to.be.lessThan(0.04);
+    }
+  });
+
+  it('keeps the beat going through a breakdown', () => {
+    const tracker = new TempoTracker();
+    run(tracker, 128, 0, 10);
+    const beats = run(tracker, 128, 10, 14, 60, false);
+    expect(beats.length).to.be.within(7, 9);
+    const intervals = beats.slice(1).map((b, i) => b - beats[i]);
+    for (const d of intervals) expect(d).to.be.closeTo(60 / 128, 0.03);
+  });
+
+  it('reports phase and bar position', () => {
+    const tracker = new TempoTracker({ beatsPerBar: 4 });
+    run(tracker, 120, 0, 10);
+    const info = tracker.info(10.1);
+    expect(info.phase).to.be.within(0, 1);
+    expect(info.beatInBar).to.be.within(0, 3);
+    expect(info.barPhase).to.be.closeTo((info.beatInBar + info.phase) / 4, 1e-9);
+  });
+
+  it('accepts a seeded tempo', () => {
+    const tracker = new TempoTracker();
+    tracker.seed(90);
+    expect(tracker.info(0).bpm).to.equal(90);
+  });
+});
@@ -0,0 +1,52 @@
+import { expect } from 'chai';
+import * as THREE from 'three';
+import { blendThemes, CRYSTAL_THEMES } from '../app/renderer/src/three/CrystalSphere';
+import { NebulaOverlay } from '../app/renderer/src/three/NebulaOverlay';
+import { ACCESSIBLE_THEMES, PALETTE_THEMES, parseTheme, presetTheme, themeToData } from '../app/renderer/src/three/themes';
+import { PRESETS } from '../app/renderer/src/ui/presets';
+import { layerFrame } from './layerFixtures';
+
+describe('themes', () => {
+  it('round-trips a theme through its JSON form', () => {
+    const data = JSON.parse(JSON.stringify(themeToData(ACCESSIBLE_THEMES['okabe-ito'])));
+    expect(data.colors[0]).to.equal('#e69f00');
+    const theme = parseTheme(data)!;
+    expect(theme.name).to.equal('Okabe-Ito');
+    expect(theme.colors.map((c) => c.getHex())).to.deep.equal([0xe69f00, 0x56b4e9, 0x009e73, 0xf0e442, 0xcc79a7]);
+    expect(theme.nebulaTint.getHex()).to.equal(0x0a2a40);
+  });
+
+  it('rejects themes with missing or malformed colours', () => {
+    const data = themeToData(CRYSTAL_THEMES[0]);
+    expect(parseTheme({ ...data, colors: [] })).to.equal(null);
+    expect(parseTheme({ ...data, colors: ['#00ffff', 'cyan'] })).to.equal(null);
+    expect(parseTheme({ ...data, nebulaTint: undefined })).to.equal(null);
+    expect(parseTheme('#00ffff')).to.equal(null);
+    expect(parseTheme({ ...data, name: ' ' })!.name).to.equal('Custom');
+  });
+
+  it('applies the palette a preset file names, accessible ones included, unless it saved a theme', () => {
+    expect(presetTheme({ palette: 'cividis' })).to.equal(ACCESSIBLE_THEMES.cividis);
+    expect(presetTheme(JSON.parse('{"palette":"okabe-ito"}'))).to.equal(ACCESSIBLE_THEMES['okabe-ito']);
+    expect(presetTheme({ palette: 'viridis', theme: themeToData(CRYSTAL_THEMES[3]) })!.name).to.equal(CRYSTAL_THEMES[3].name);
+    expect(presetTheme({ palette: 'toString' })).to.equal(null);
+    expect(presetTheme({})).to.equal(null);
+  });
+
+  it('has a theme for every preset palette and blends the nebula tint', () => {
+    for (const p of PRESETS) expect(PALETTE_THEMES[p.palette], p.id).to.exist;
+    const mid = blendThemes(CRYSTAL_THEMES[0], CRYSTAL_THEMES[3], 0.5);
+    expect(mid.nebulaTint.r).to.be.closeTo((CRYSTAL_THEMES[0].nebulaTint.r + CRYSTAL_THEMES[3].nebulaTint.r) / 2, 1e-9);
+  });
+
+  it('tints the nebula from the frame theme', () => {
+    const nebula = new NebulaOverlay();
+    const root = new THREE.Group();
+    nebula.init({ root, camera: new THREE.PerspectiveCamera(), renderer: null, width: 800, height: 600 });
+    const theme = ACCESSIBLE_THEMES.viridis;
+    nebula.update(layerFrame({ theme }));
+    const material = (root.children[0] as THREE.Mesh).material as THREE.ShaderMaterial;
+    expect((material.uniforms.uTint.value as THREE.Color).equals(theme.nebulaTint)).to.equal(true);
+    nebula.dispose();
+  });
+});
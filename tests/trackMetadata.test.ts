@@ -0,0 +1,120 @@
+import { expect } from 'chai';
+import { parseKeyTag, parseMetadata } from '../app/renderer/src/audio/trackMetadata';
+
+const enc = new TextEncoder();
+const latin1 = (s: string) => Uint8Array.from(s, (c) => c.charCodeAt(0));
+
+function concat(...parts: (Uint8Array | number[])[]): Uint8Array {
+  const arrays = parts.map((p) => (p instanceof Uint8Array ? p : Uint8Array.from(p)));
+  const out = new Uint8Array(arrays.reduce((n, a) => n + a.length, 0));
+  let pos = 0;
+  for (const a of arrays) {
+    out.set(a, pos);
+    pos += a.length;
+  }
+  return out;
+}
+
+const be32 = (n: number) => [(n >>> 24) & 0xff, (n >>> 16) & 0xff, (n >>> 8) & 0xff, n & 0xff];
+const le32 = (n: number) => be32(n).reverse();
+const syncsafe = (n: number) => [(n >> 21) & 0x7f, (n >> 14) & 0x7f, (n >> 7) & 0x7f, n & 0x7f];
+const COVER = Uint8Array.from([0x89, 0x50, 0x4e, 0x47, 1, 2, 3]);
+
+// Frames are [id, data, format flags]
+function id3(version: 3 | 4, frames: [string, Uint8Array, number?][]): Uint8Array {
+  const body = concat(...frames.map(([id, data, flags = 0]) => concat(latin1(id), version === 4 ? syncsafe(data.length) : be32(data.length), [0, flags], data)));
+  return concat(latin1('ID3'), [version, 0, 0], syncsafe(body.length + 16), body, new Uint8Array(16));
+}
+
+function vorbisComments(entries: string[]): Uint8Array {
+  const vendor = enc.encode('test');
+  return concat(le32(vendor.length), vendor, le32(entries.length), ...entries.map((e) => concat(le32(enc.encode(e).length), enc.encode(e))));
+}
+
+function flacPicture(type: number, mime: string, data: Uint8Array): Uint8Array {
+  return concat(be32(type), be32(mime.length), latin1(mime), be32(0), be32(1), be32(1), be32(24), be32(0), be32(data.length), data);
+}
+
+function box(type: string, ...children: (Uint8Array | number[])[]): Uint8Array {
+  const payload = concat(...children);
+  return concat(be32(payload.length + 8), latin1(type), payload);
+}
+
+describe('trackMetadata', () => {
+  it('reads ID3v2.3 text frames and the front cover', () => {
+    const apic = concat([0], latin1('image/png'), [0, 3], latin1('cover'), [0], COVER);
+    const tag = id3(3, [
+      ['TIT2', concat([0], latin1('Night Drive'))],
+      ['TPE1', concat([1, 0xff, 0xfe], Uint8Array.from([0x4b, 0, 0xf6, 0, 0x72, 0]))],
+      ['TBPM', concat([0], latin1('124'))],
+      ['TKEY', concat([0], latin1('F#m'))],
+      ['APIC', apic],
+    ]);
+    const meta = parseMetadata(concat(tag, [0xff, 0xfb, 0x90, 0]));
+    expect(meta).to.deep.include({ title: 'Night Drive', artist: 'Kör', bpm: 124, key: { key: 6, mode: 'minor' } });
+    expect(meta.picture?.mime).to.equal('image/png');
+    expect(Array.from(meta.picture!.data)).to.deep.equal(Array.from(COVER));
+  });
+
+  it('reads ID3v2.4 UTF-8 frames with syncsafe sizes', () => {
+    const meta = parseMetadata(id3(4, [['TALB', concat([3], enc.encode('Ünïcode'))]]));
+    expect(meta.album).to.equal('Ünïcode');
+  });
+
+  it('skips compressed and encrypted frames and the group id byte per ID3 version', () => {
+    const text = (t: string, group = false) => concat(group ? [7] : [], [0], latin1(t));
+    const v3 = parseMetadata(id3(3, [['TIT2', text('zlib'), 0x80], ['TPE1', text('cipher'), 0x40], ['TALB', text('Grouped', true), 0x20], ['TIT2', text('Plain')]]));
+    expect(v3).to.deep.include({ title: 'Plain', album: 'Grouped' });
+    expect(v3.artist).to.equal(undefined);
+    const v4 = parseMetadata(id3(4, [['TIT2', text('zlib'), 0x08], ['TALB', text('Grouped', true), 0x40], ['TIT2', text('Plain')]]));
+    expect(v4).to.deep.include({ title: 'Plain', album: 'Grouped' });
+  });
+
+  it('reads FLAC Vorbis comments and picture blocks', () => {
+    const comments = vorbisComments(['TITLE=Tides', 'ARTIST=Sea', 'BPM=96', 'INITIALKEY=8B']);
+    const picture = flacPicture(3, 'image/jpeg', COVER);
+    const bytes = concat(latin1('fLaC'), [0, 0, 0, 34], new Uint8Array(34), [4, ...be32(comments.length).slice(1)], comments, [0x86, ...be32(picture.length).slice(1)], picture);
+    const meta = parseMetadata(bytes);
+    expect(meta).to.deep.include({ title: 'Tides', artist: 'Sea', bpm: 96, key: { key: 0, mode: 'major' } });
+    expect(meta.picture?.mime).to.equal('image/jpeg');
+  });
+
+  it('reads the Ogg Vorbis comment packet', () => {
+    const ident = concat([1], latin1('vorbis'), new Uint8Array(23));
+    const comments = concat([3], latin1('vorbis'), vorbisComments(['TITLE=Ogg Song', 'KEY=Bbm']), [1]);
+    const page = (payload: Uint8Array) => concat(latin1('OggS'), new Uint8Array(22), [1, payload.length], payload);
+    const meta = parseMetadata(concat(page(ident), page(comments)));
+    expect(meta).to.deep.include({ title: 'Ogg Song', key: { key: 10, mode: 'minor' } });
+  });
+
+  it('reads MP4 ilst atoms including freeform keys', () => {
+    const data = (type: number, payload: Uint8Array | number[]) => box('data', be32(type), [0, 0, 0, 0], payload);
+    const ilst = box(
+      'ilst',
+      box('©nam', data(1, enc.encode('Atoms'))),
+      box('©ART', data(1, enc.encode('Boxer'))),
+      box('tmpo', data(21, [0, 128])),
+      box('covr', data(14, COVER)),
+      box('----', box('mean', [0, 0, 0, 0], latin1('com.apple.iTunes')), box('name', [0, 0, 0, 0], latin1('initialkey')), data(1, latin1('Ebmaj'))),
+    );
+    const moov = box('moov', box('udta', box('meta', [0, 0, 0, 0], box('hdlr', new Uint8Array(25)), ilst)));
+    const meta = parseMetadata(concat(box('ftyp', latin1('M4A '), [0, 0, 0, 0]), moov));
+    expect(meta).to.deep.include({ title: 'Atoms', artist: 'Boxer', bpm: 128, key: { key: 3, mode: 'major' } });
+    expect(meta.picture?.mime).to.equal('image/png');
+  });
+
+  it('returns nothing for untagged or unknown data', () => {
+    expect(parseMetadata(Uint8Array.from([0xff, 0xfb, 0x90, 0]))).to.deep.equal({});
+    expect(parseMetadata(concat(latin1('ID3'), [3, 0, 0], syncsafe(1000)))).to.deep.equal({});
+  });
+
+  it('parses key notations', () => {
+    expect(parseKeyTag('A minor')).to.deep.equal({ key: 9, mode: 'minor' });
+    expect(parseKeyTag('Db')).to.deep.equal({ key: 1, mode: 'major' });
+    expect(parseKeyTag('8A')).to.deep.equal({ key: 9, mode: 'minor' });
+    expect(parseKeyTag('9B')).to.deep.equal({ key: 7, mode: 'major' });
+    expect(parseKeyTag('1m')).to.deep.equal({ key: 9, mode: 'minor' });
+    expect(parseKeyTag('2d')).to.deep.equal({ key: 7, mode: 'major' });
+    expect(parseKeyTag('H')).to.equal(null);
+  });
+});